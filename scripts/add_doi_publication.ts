@@ -4,68 +4,50 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { PersonPublication } from '../src/data/publications.js';
+import { getBareDoi } from '../src/utils/doi.js';
+import { fromOpenAlexCitations } from '../src/utils/citationCounts.js';
+import { fromOpenAlexOpenAccess } from '../src/utils/openAccess.js';
+import { fromOpenAlexType } from '../src/utils/publicationTypes.js';
+import { createOpenAlexClient, OPENALEX_BASE_URL } from './harvest_client.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// OpenAlex API configuration
-const OPENALEX_BASE_URL = 'https://api.openalex.org';
-const CONTACT_EMAIL = process.env.OPENALEX_CONTACT_EMAIL ?? '';
-
-/**
- * Normalizes a DOI from various formats to a clean format
- * Handles formats like:
- * - http://dx.doi.org/10.13140/RG.2.2.34953.97123
- * - https://doi.org/10.13140/RG.2.2.34953.97123
- * - doi:10.13140/RG.2.2.34953.97123
- * - 10.13140/RG.2.2.34953.97123
- */
-function normalizeDoi(doi: string): string {
-  // Remove URL prefixes
-  const cleanDoi = doi
-    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')
-    .replace(/^doi:/i, '')
-    .trim();
-
-  return cleanDoi;
-}
+const openAlex = createOpenAlexClient();
 
 /**
  * Fetches publication data from OpenAlex by DOI
  */
 async function fetchPublicationByDoi(doi: string): Promise<PersonPublication | null> {
-  const cleanDoi = normalizeDoi(doi);
+  const cleanDoi = getBareDoi(doi);
   const doiUrl = `https://doi.org/${cleanDoi}`;
 
-  const url = `${OPENALEX_BASE_URL}/works/${encodeURIComponent(doiUrl)}${CONTACT_EMAIL ? `?mailto=${encodeURIComponent(CONTACT_EMAIL)}` : ''}`;
+  const url = `${OPENALEX_BASE_URL}/works/${encodeURIComponent(doiUrl)}`;
 
   try {
-    const response = await fetch(url, {
-      headers: {
-        Accept: 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error(`Publication not found in OpenAlex for DOI: ${cleanDoi}`);
-      }
-      throw new Error(`OpenAlex API error: ${response.status} ${response.statusText}`);
-    }
-
-    const work = (await response.json()) as {
+    const work = await openAlex.getJsonOrNull<{
       id?: string;
       title?: string;
       display_name?: string;
       publication_year?: number;
       doi?: string;
+      type?: string;
+      type_crossref?: string;
       primary_location?: {
-        source?: { display_name?: string };
+        source?: { display_name?: string; type?: string };
         host_venue?: { display_name?: string };
         landing_page_url?: string;
+        license?: string | null;
       };
-      open_access?: { oa_url?: string };
-    };
+      best_oa_location?: { license?: string | null } | null;
+      open_access?: { oa_url?: string; oa_status?: string | null };
+      cited_by_count?: number;
+      counts_by_year?: { year?: number; cited_by_count?: number }[];
+    }>(url);
+
+    if (!work) {
+      throw new Error(`Publication not found in OpenAlex for DOI: ${cleanDoi}`);
+    }
 
     const id: string = work.id ?? '';
 
@@ -81,7 +63,7 @@ async function fetchPublicationByDoi(doi: string): Promise<PersonPublication | n
       undefined;
 
     // Extract DOI (normalize to clean format)
-    const doiValue: string | undefined = work.doi ? normalizeDoi(work.doi) : cleanDoi;
+    const doiValue: string | undefined = work.doi ? getBareDoi(work.doi) : cleanDoi;
 
     // Best open access URL (if any)
     const openAccessUrl: string | undefined =
@@ -96,6 +78,9 @@ async function fetchPublicationByDoi(doi: string): Promise<PersonPublication | n
       venue,
       doi: doiValue,
       openAccessUrl,
+      ...fromOpenAlexOpenAccess(work),
+      type: fromOpenAlexType(work.type, work.type_crossref, work.primary_location?.source?.type),
+      citations: fromOpenAlexCitations(work, new Date().toISOString().slice(0, 10)),
     };
   } catch (error) {
     if (error instanceof Error) {
@@ -109,7 +94,7 @@ async function fetchPublicationByDoi(doi: string): Promise<PersonPublication | n
  * Generates a filename-safe slug from DOI
  */
 function doiToSlug(doi: string): string {
-  const cleanDoi = normalizeDoi(doi);
+  const cleanDoi = getBareDoi(doi);
   // Replace slashes and special characters with hyphens
   return cleanDoi.replace(/[/:.]/g, '-').toLowerCase();
 }
@@ -8,13 +8,13 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { PublicationAuthor } from '../src/data/publications.js';
+import { getBareDoi } from '../src/utils/doi.js';
+import { createOpenAlexClient, OPENALEX_BASE_URL } from './harvest_client.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// OpenAlex API configuration
-const OPENALEX_BASE_URL = 'https://api.openalex.org';
-const CONTACT_EMAIL = process.env.OPENALEX_CONTACT_EMAIL ?? '';
+const openAlex = createOpenAlexClient();
 
 interface OpenAlexAuthor {
   id?: string;
@@ -42,20 +42,6 @@ interface AuthorComparison {
   openalexAuthorNames: string[];
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-/**
- * Normalizes a DOI from various formats to a clean format
- */
-function normalizeDoi(doi: string): string {
-  return doi
-    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')
-    .replace(/^doi:/i, '')
-    .trim();
-}
-
 /**
  * Normalizes author names for comparison (lowercase, remove extra spaces)
  */
@@ -67,31 +53,20 @@ function normalizeAuthorName(name: string): string {
  * Fetches full author list from OpenAlex by DOI
  */
 async function fetchAuthorsFromOpenAlex(doi: string): Promise<PublicationAuthor[] | null> {
-  const cleanDoi = normalizeDoi(doi);
-  const doiUrl = `https://doi.org/${cleanDoi}`;
-
-  const url = `${OPENALEX_BASE_URL}/works/${encodeURIComponent(doiUrl)}${CONTACT_EMAIL ? `?mailto=${encodeURIComponent(CONTACT_EMAIL)}` : ''}`;
+  const doiUrl = `https://doi.org/${getBareDoi(doi)}`;
+  const url = `${OPENALEX_BASE_URL}/works/${encodeURIComponent(doiUrl)}`;
 
   try {
-    const response = await fetch(url, {
-      headers: {
-        Accept: 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        return null; // Publication not found
-      }
-      throw new Error(`OpenAlex API error: ${response.status} ${response.statusText}`);
-    }
-
-    const work = (await response.json()) as {
+    const work = await openAlex.getJsonOrNull<{
       authorships?: Array<{
         author?: { display_name?: string; orcid?: string; id?: string } | null;
         raw_author_name?: string;
       }>;
-    };
+    }>(url);
+
+    if (!work) {
+      return null; // Publication not found
+    }
 
     if (!work.authorships || !Array.isArray(work.authorships)) {
       return [];
@@ -196,7 +171,7 @@ async function main(): Promise<void> {
 
   for (let i = 0; i < batchPublications.length; i++) {
     const pub = batchPublications[i];
-    const doi = normalizeDoi(pub.doi);
+    const doi = getBareDoi(pub.doi);
 
     console.log(
       `[${i + 1}/${batchPublications.length}] Checking: ${pub.title.substring(0, 60)}...`
@@ -205,9 +180,6 @@ async function main(): Promise<void> {
     const jsonAuthors = pub.authors || [];
     const openalexAuthors = await fetchAuthorsFromOpenAlex(doi);
 
-    // Small delay to be polite to OpenAlex API
-    await delay(300);
-
     if (openalexAuthors === null) {
       errors.push({
         doi: pub.doi,
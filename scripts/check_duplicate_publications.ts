@@ -9,6 +9,9 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import type { PersonPublication } from '../src/data/publications.js';
+import { canonicalizeDoi } from '../src/utils/doi.js';
+import { readPublicationFiles } from './publication_store.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -38,14 +41,6 @@ function normalizeTitle(title: string): string {
     .replace(/[^\w\s]/g, ''); // Remove punctuation for fuzzy matching
 }
 
-/**
- * Normalizes a DOI for comparison
- */
-function normalizeDOI(doi: string | undefined): string | null {
-  if (!doi) return null;
-  return doi.toLowerCase().trim();
-}
-
 /**
  * Normalizes an OpenAlex ID for comparison
  */
@@ -54,26 +49,16 @@ function normalizeOpenAlexId(id: string | undefined): string | null {
   return id.toLowerCase().trim();
 }
 
-const doiDir = path.join(__dirname, '..', 'src', 'data', 'publications', 'doi');
-const files = fs.readdirSync(doiDir).filter((f) => f.endsWith('.json'));
-
-const publications: Publication[] = [];
-
 // Load all publications
-for (const file of files) {
-  const filePath = path.join(doiDir, file);
-  try {
-    const pub = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-    publications.push({
-      id: pub.id,
-      doi: pub.doi,
-      title: pub.title,
-      file: file,
-    });
-  } catch (error) {
-    console.error(`Error reading ${file}:`, error);
-  }
-}
+const publications: Publication[] = Array.from(
+  readPublicationFiles<PersonPublication>('doi'),
+  ([name, pub]) => ({
+    id: pub.id,
+    doi: pub.doi,
+    title: pub.title,
+    file: `${name}.json`,
+  })
+);
 
 const duplicates: DuplicateGroup[] = [];
 const seenOpenAlexIds = new Map<string, Publication[]>();
@@ -93,7 +78,7 @@ for (const pub of publications) {
 
 // Group by DOI
 for (const pub of publications) {
-  const normalizedDOI = normalizeDOI(pub.doi);
+  const normalizedDOI = pub.doi ? canonicalizeDoi(pub.doi) || null : null;
   if (normalizedDOI) {
     if (!seenDOIs.has(normalizedDOI)) {
       seenDOIs.set(normalizedDOI, []);
@@ -237,7 +222,7 @@ ${duplicatesMarkdown}
 ---
 
 *Generated automatically - do not edit manually*
-*Total publications checked: ${files.length}*
+*Total publications checked: ${publications.length}*
 *Duplicate groups found: ${duplicates.length}*
 `;
 
@@ -245,7 +230,7 @@ fs.writeFileSync(issuesPath, markdown, 'utf-8');
 
 console.log(`✓ Updated ISSUES.md with duplicate publications`);
 console.log(`  - Duplicate groups found: ${duplicates.length}`);
-console.log(`  - Total publications checked: ${files.length}`);
+console.log(`  - Total publications checked: ${publications.length}`);
 
 if (duplicates.length > 0) {
   console.log('\nDuplicate groups:');
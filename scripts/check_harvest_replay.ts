@@ -0,0 +1,99 @@
+/* scripts/check_harvest_replay.ts
+ *
+ * Replays the OpenAlex harvest for one person from the recorded responses in
+ * scripts/fixtures/harvest (a dry run, so no snapshot changes) and compares its change report
+ * with the expected report committed next to the fixtures. Exits non-zero when the harvest
+ * fails or the reports differ, so a change to the harvest code that alters what it reports
+ * shows up without network access.
+ *
+ * Usage: npm run check:harvest [-- --update]
+ *   --update  rewrite the expected report from this run (after re-recording the fixtures,
+ *             or when a change to the report is intended)
+ */
+
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Person whose harvest the fixtures record
+const PERSON_SLUG = 'gus-ellerm';
+
+// Citation snapshot date used for the replay, so the report does not change from day to day
+const REPLAY_AS_OF = '2000-01-01';
+
+const EXPECTED_REPORT = path.join(
+  __dirname,
+  'fixtures',
+  'harvest',
+  'expected-openalex-report.json'
+);
+
+/**
+ * Reads the parts of a sync report that depend on the harvest (not when it was run)
+ */
+function readReportPeople(file: string): unknown {
+  const report = JSON.parse(fs.readFileSync(file, 'utf-8')) as { people: unknown };
+  return report.people;
+}
+
+function main(): void {
+  const reportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'check-harvest-'));
+  try {
+    const run = spawnSync(
+      process.execPath,
+      [
+        '--import',
+        'tsx',
+        path.join(__dirname, 'update_openalex_publications.ts'),
+        '--dry-run',
+        '--person',
+        PERSON_SLUG,
+      ],
+      {
+        stdio: 'inherit',
+        env: {
+          ...process.env,
+          HARVEST_MODE: 'replay',
+          HARVEST_AS_OF: REPLAY_AS_OF,
+          PUBLICATION_SYNC_REPORT_DIR: reportDir,
+        },
+      }
+    );
+    if (run.status !== 0) {
+      console.error(`\n❌ Replayed harvest failed (exit code ${run.status})`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const actual = readReportPeople(path.join(reportDir, 'publication-sync-openalex.json'));
+    const actualJson = JSON.stringify(actual, null, 2) + '\n';
+
+    if (process.argv.includes('--update')) {
+      fs.writeFileSync(EXPECTED_REPORT, actualJson, 'utf-8');
+      console.log(`\nExpected report updated: ${path.relative(process.cwd(), EXPECTED_REPORT)}`);
+      return;
+    }
+
+    const expectedJson = fs.readFileSync(EXPECTED_REPORT, 'utf-8');
+    if (JSON.stringify(JSON.parse(expectedJson)) !== JSON.stringify(actual)) {
+      console.error('\n❌ Replayed harvest report differs from the expected report');
+      console.error(
+        `Expected (${path.relative(process.cwd(), EXPECTED_REPORT)}):\n${expectedJson}`
+      );
+      console.error(`Actual:\n${actualJson}`);
+      console.error('If the change is intended, run: npm run check:harvest -- --update');
+      process.exitCode = 1;
+      return;
+    }
+    console.log('\n✅ Replayed harvest report matches the expected report');
+  } finally {
+    fs.rmSync(reportDir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -3,14 +3,24 @@
  * This script checks for publications that:
  * 1. Don't have authors
  * 2. Have authors but none match anyone in people.ts
+ *
+ * It also lists every manual override (src/data/publicationOverrides.ts) with its audit
+ * note, what it changes, and whether it still matches a publication.
  */
 
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { allPeople } from '../src/data/people.js';
+import {
+  publicationOverrides,
+  type PublicationOverride,
+} from '../src/data/publicationOverrides.js';
+import { researchProjects } from '../src/data/researchProjects.js';
 import { getPublicationAuthors } from '../src/utils/authorMatching.js';
 import type { PersonPublication } from '../src/data/publications.js';
+import { createPublicationStore } from '../src/utils/publicationStore.js';
+import { readPublicationData, readPublicationFiles } from './publication_store.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -29,12 +39,10 @@ const issues = {
   noMatchedAuthors: [] as PublicationIssue[],
 };
 
-const doiDir = path.join(__dirname, '..', 'src', 'data', 'publications', 'doi');
-const files = fs.readdirSync(doiDir).filter((f) => f.endsWith('.json'));
+const doiPublications = readPublicationFiles<PersonPublication>('doi');
 
-for (const file of files) {
-  const filePath = path.join(doiDir, file);
-  const pub: PersonPublication = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+for (const [name, pub] of doiPublications) {
+  const file = `${name}.json`;
 
   if (!pub.authors || pub.authors.length === 0) {
     issues.noAuthors.push({
@@ -57,6 +65,45 @@ for (const file of files) {
   }
 }
 
+// Overrides are audited against the records as harvested, before any override is applied
+const rawStore = createPublicationStore(readPublicationData(), researchProjects, []);
+
+interface OverrideAudit {
+  override: PublicationOverride;
+  publication?: PersonPublication; // undefined if the override matches no publication
+}
+
+const overrideAudits: OverrideAudit[] = publicationOverrides.map((override) => ({
+  override,
+  publication: rawStore.get(override.id),
+}));
+const unmatchedOverrides = overrideAudits.filter((audit) => !audit.publication);
+
+function formatOverrideValue(value: unknown): string {
+  if (value === undefined || value === '') return '*(empty)*';
+  if (Array.isArray(value)) return `${value.length} item(s)`;
+  return `"${String(value)}"`;
+}
+
+function describeOverride({ override, publication }: OverrideAudit): string {
+  const lines = [`- **${publication?.title ?? override.id}** - \`${override.id}\``];
+  lines.push(`  - Note: ${override.note || '*(missing)*'}`);
+  if (!publication) {
+    lines.push('  - ⚠️ Matches no publication');
+  }
+  if (override.hide) {
+    lines.push('  - Hidden from the site');
+  }
+  for (const [field, value] of Object.entries(override.patch ?? {})) {
+    const before = publication?.[field as keyof PersonPublication];
+    lines.push(`  - ${field}: ${formatOverrideValue(before)} → ${formatOverrideValue(value)}`);
+  }
+  if (override.themeSlugs?.length) {
+    lines.push(`  - Listed under themes: ${override.themeSlugs.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
 // Generate markdown report
 const markdown = `# Publication Issues
 
@@ -96,11 +143,18 @@ ${
         .join('\n\n')
 }
 
+## Manual Overrides
+
+Corrections from \`src/data/publicationOverrides.ts\`, applied when publications are loaded:
+
+${overrideAudits.length === 0 ? '*None*' : overrideAudits.map(describeOverride).join('\n\n')}
+
 ---
 
 *Generated automatically - do not edit manually*
-*Total publications checked: ${files.length}*
+*Total publications checked: ${doiPublications.size}*
 *Publications with issues: ${issues.noAuthors.length + issues.noMatchedAuthors.length}*
+*Manual overrides: ${overrideAudits.length} (${unmatchedOverrides.length} matching no publication)*
 `;
 
 const issuesPath = path.join(__dirname, '..', 'src', 'data', 'publications', 'ISSUES.md');
@@ -109,4 +163,10 @@ fs.writeFileSync(issuesPath, markdown, 'utf-8');
 console.log(`✓ Generated ISSUES.md`);
 console.log(`  - Publications without authors: ${issues.noAuthors.length}`);
 console.log(`  - Publications with unmatched authors: ${issues.noMatchedAuthors.length}`);
-console.log(`  - Total publications checked: ${files.length}`);
+console.log(`  - Total publications checked: ${doiPublications.size}`);
+console.log(
+  `  - Manual overrides: ${overrideAudits.length} (${unmatchedOverrides.length} matching no publication)`
+);
+for (const { override } of unmatchedOverrides) {
+  console.warn(`  ⚠️  Override matches no publication: ${override.id}`);
+}
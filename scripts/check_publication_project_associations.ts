@@ -3,10 +3,10 @@
  * Script to check if publications are correctly associated with their projects
  */
 
-import { readFileSync, readdirSync } from 'fs';
-import { join } from 'path';
-import { researchProjects } from '../src/data/researchProjects';
-import type { PersonPublication } from '../src/data/publications';
+import { readFileSync } from 'fs';
+import type { PublicationStore } from '../src/utils/publicationStore';
+import { canonicalizeDoi } from '../src/utils/doi';
+import { loadPublicationStore } from './publication_store';
 
 interface Publication {
   id: string;
@@ -82,92 +82,15 @@ const projectMapping: Record<string, string[]> = {
   pub96: ['infectious-disease-phylodynamics'], // Investigating the meat pathway as a source of human nontyphoidal Salmonella
 };
 
-function normalizeDoi(doi: string | null | undefined): string | null {
-  if (!doi) return null;
-  // Remove common prefixes and version suffixes
-  return doi
-    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')
-    .replace(/v\d+$/i, '')
-    .trim();
-}
-
-function loadPublicationLookup(): Map<string, PersonPublication> {
-  const lookup = new Map<string, PersonPublication>();
-  const publicationsDir = join(process.cwd(), 'src/data/publications');
-
-  // Load DOI-based publications
-  try {
-    const doiDir = join(publicationsDir, 'doi');
-    const doiFiles = readdirSync(doiDir).filter((f) => f.endsWith('.json'));
-    for (const file of doiFiles) {
-      const content = readFileSync(join(doiDir, file), 'utf-8');
-      const pub = JSON.parse(content) as PersonPublication;
-      if (pub.id) lookup.set(pub.id, pub);
-      if (pub.doi) {
-        const doiUrl = pub.doi.startsWith('http') ? pub.doi : `https://doi.org/${pub.doi}`;
-        lookup.set(doiUrl, pub);
-        lookup.set(pub.doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''), pub);
-      }
-    }
-  } catch {
-    // Directory might not exist
-  }
-
-  // Load OpenAlex snapshots
-  try {
-    const openAlexDir = join(publicationsDir, 'openalex');
-    const openAlexFiles = readdirSync(openAlexDir).filter((f) => f.endsWith('.json'));
-    for (const file of openAlexFiles) {
-      const content = readFileSync(join(openAlexDir, file), 'utf-8');
-      const snapshot = JSON.parse(content) as { works?: PersonPublication[] };
-      if (snapshot.works) {
-        for (const work of snapshot.works) {
-          if (work.id) lookup.set(work.id, work);
-          if (work.doi) {
-            const doiUrl = work.doi.startsWith('http') ? work.doi : `https://doi.org/${work.doi}`;
-            lookup.set(doiUrl, work);
-          }
-        }
-      }
-    }
-  } catch {
-    // Directory might not exist
-  }
-
-  return lookup;
-}
-
 function getCurrentProjects(
   openAlexId: string | undefined,
   doi: string | null,
-  lookup: Map<string, PersonPublication>
+  store: PublicationStore
 ): string[] {
-  const currentProjects: string[] = [];
-
-  if (!openAlexId && !doi) return currentProjects;
-
-  const pub = openAlexId
-    ? lookup.get(openAlexId)
-    : doi
-      ? lookup.get(`https://doi.org/${doi}`) || lookup.get(doi)
-      : null;
-
-  if (!pub) return currentProjects;
-
-  // Check which projects have this publication
-  for (const project of researchProjects) {
-    if (project.publicationIds) {
-      for (const pubId of project.publicationIds) {
-        const pubFromProject = lookup.get(pubId);
-        if (pubFromProject && pubFromProject.id === pub.id) {
-          currentProjects.push(project.slug);
-          break;
-        }
-      }
-    }
-  }
+  const pub = openAlexId ? store.get(openAlexId) : doi ? store.getByDoi(doi) : undefined;
 
-  return currentProjects;
+  // Which projects list this publication (by ID or any DOI form)
+  return pub ? store.getThemeSlugs(pub) : [];
 }
 
 function main() {
@@ -180,21 +103,18 @@ function main() {
   const jsonContent = readFileSync(jsonPath, 'utf-8');
   const data = JSON.parse(jsonContent) as { publications: Publication[] };
 
-  const lookup = loadPublicationLookup();
+  const store = loadPublicationStore();
   const results: PublicationWithProjects[] = [];
 
   console.log('Checking publication-project associations...\n');
 
   for (const pub of data.publications) {
-    const normalizedDoi = normalizeDoi(pub.doi);
+    const normalizedDoi = pub.doi ? canonicalizeDoi(pub.doi) : null;
     let openAlexId: string | undefined;
 
     // Try to find the publication by DOI
     if (normalizedDoi) {
-      const foundPub =
-        lookup.get(`https://doi.org/${normalizedDoi}`) ||
-        lookup.get(`http://dx.doi.org/${normalizedDoi}`) ||
-        lookup.get(normalizedDoi);
+      const foundPub = store.getByDoi(normalizedDoi);
       if (foundPub) {
         openAlexId = foundPub.id;
       }
@@ -203,7 +123,7 @@ function main() {
     // Use projects from JSON if provided, otherwise use mapping
     const expectedProjects =
       pub.projects && pub.projects.length > 0 ? pub.projects : projectMapping[pub.id] || [];
-    const currentProjects = getCurrentProjects(openAlexId, normalizedDoi, lookup);
+    const currentProjects = getCurrentProjects(openAlexId, normalizedDoi, store);
 
     results.push({
       ...pub,
@@ -6,6 +6,9 @@
 
 import { writeFileSync } from 'fs';
 import { join } from 'path';
+import type { PublicationType } from '../src/data/publications.js';
+import { fromCrossrefType } from '../src/utils/publicationTypes.js';
+import { createHarvestClient } from './harvest_client.js';
 
 interface PublicationMetadata {
   title: string;
@@ -23,10 +26,14 @@ interface PublicationRecord {
   venue: string;
   doi?: string;
   openAccessUrl?: string;
+  type?: PublicationType;
 }
 
 const PUBLICATIONS_DIR = join(process.cwd(), 'src/data/publications/doi');
 
+const crossRef = createHarvestClient({ name: 'CrossRef' });
+const semanticScholar = createHarvestClient({ name: 'SemanticScholar', minIntervalMs: 1000 });
+
 /**
  * Try to find publication via CrossRef API
  */
@@ -39,10 +46,7 @@ async function searchCrossRef(
     const query = `title:"${title}"${year ? `+year:${year}` : ''}`;
     const url = `https://api.crossref.org/works?query=${encodeURIComponent(query)}&rows=5`;
 
-    const response = await fetch(url);
-    if (!response.ok) return null;
-
-    const data = (await response.json()) as {
+    const data = await crossRef.getJsonOrNull<{
       message?: {
         items?: Array<{
           title?: string[];
@@ -50,10 +54,11 @@ async function searchCrossRef(
           published?: { 'date-parts'?: number[][] };
           'container-title'?: string[];
           publisher?: string;
+          type?: string;
         }>;
       };
-    };
-    if (!data.message?.items || data.message.items.length === 0) return null;
+    }>(url);
+    if (!data?.message?.items || data.message.items.length === 0) return null;
 
     // Try to find best match
     const items = data.message.items;
@@ -71,6 +76,7 @@ async function searchCrossRef(
           venue: item['container-title']?.[0] || item['publisher'] || 'Unknown',
           doi: doi ? `https://doi.org/${doi}` : undefined,
           openAccessUrl: doi ? `https://doi.org/${doi}` : undefined,
+          type: fromCrossrefType(item.type),
         };
       }
     }
@@ -92,10 +98,7 @@ async function searchSemanticScholar(
     const query = `${title}${author ? ` ${author.split(',')[0].trim()}` : ''}`;
     const url = `https://api.semanticscholar.org/graph/v1/paper/search?query=${encodeURIComponent(query)}&limit=5&fields=title,year,venue,authors,externalIds`;
 
-    const response = await fetch(url);
-    if (!response.ok) return null;
-
-    const data = (await response.json()) as {
+    const data = await semanticScholar.getJsonOrNull<{
       data?: Array<{
         title?: string;
         year?: number;
@@ -103,8 +106,8 @@ async function searchSemanticScholar(
         paperId?: string;
         externalIds?: { DOI?: string };
       }>;
-    };
-    if (!data.data || data.data.length === 0) return null;
+    }>(url);
+    if (!data?.data || data.data.length === 0) return null;
 
     // Try to find best match
     for (const paper of data.data) {
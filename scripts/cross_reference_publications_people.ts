@@ -9,101 +9,22 @@ import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { allPeople, type Person } from '../src/data/people.js';
 import { researchProjects } from '../src/data/researchProjects.js';
-import type { PersonPublication, PersonPublicationsSnapshot } from '../src/data/publications.js';
+import type { PersonPublication } from '../src/data/publications.js';
 import {
   createPublicationToAuthorsMap,
   createPersonToPublicationsMap,
 } from '../src/utils/authorMatching.js';
+import type { PublicationStore } from '../src/utils/publicationStore.js';
+import { loadPublicationStore } from './publication_store.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-/**
- * Loads all publications from the data directory
- */
-function loadAllPublications(): PersonPublication[] {
-  const allPublications: PersonPublication[] = [];
-  const seenIds = new Set<string>();
-  const baseDir = path.join(__dirname, '..', 'src', 'data', 'publications');
-
-  // Load OpenAlex snapshots
-  const openAlexDir = path.join(baseDir, 'openalex');
-  if (fs.existsSync(openAlexDir)) {
-    const files = fs.readdirSync(openAlexDir).filter((f) => f.endsWith('.json'));
-    for (const file of files) {
-      try {
-        const content = fs.readFileSync(path.join(openAlexDir, file), 'utf-8');
-        const snapshot: PersonPublicationsSnapshot = JSON.parse(content);
-        if (snapshot.works) {
-          for (const work of snapshot.works) {
-            if (work.id && !seenIds.has(work.id)) {
-              allPublications.push(work);
-              seenIds.add(work.id);
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Error loading ${file}:`, error);
-      }
-    }
-  }
-
-  // Load ORCID snapshots
-  const orcidDir = path.join(baseDir, 'orcid');
-  if (fs.existsSync(orcidDir)) {
-    const files = fs.readdirSync(orcidDir).filter((f) => f.endsWith('.json'));
-    for (const file of files) {
-      try {
-        const content = fs.readFileSync(path.join(orcidDir, file), 'utf-8');
-        const snapshot: PersonPublicationsSnapshot = JSON.parse(content);
-        if (snapshot.works) {
-          for (const work of snapshot.works) {
-            if (work.id && !seenIds.has(work.id)) {
-              allPublications.push(work);
-              seenIds.add(work.id);
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Error loading ${file}:`, error);
-      }
-    }
-  }
-
-  // Load DOI publications
-  const doiDir = path.join(baseDir, 'doi');
-  if (fs.existsSync(doiDir)) {
-    const files = fs.readdirSync(doiDir).filter((f) => f.endsWith('.json'));
-    for (const file of files) {
-      try {
-        const content = fs.readFileSync(path.join(doiDir, file), 'utf-8');
-        const publication: PersonPublication = JSON.parse(content);
-        if (publication.id && !seenIds.has(publication.id)) {
-          allPublications.push(publication);
-          seenIds.add(publication.id);
-        } else if (publication.doi) {
-          // Also check by DOI
-          const doiKey = publication.doi.startsWith('http')
-            ? publication.doi
-            : `https://doi.org/${publication.doi}`;
-          if (!seenIds.has(doiKey)) {
-            allPublications.push(publication);
-            seenIds.add(doiKey);
-          }
-        }
-      } catch (error) {
-        console.error(`Error loading ${file}:`, error);
-      }
-    }
-  }
-
-  return allPublications;
-}
-
 /**
  * Generates a cross-reference report
  */
 function generateReport(
+  store: PublicationStore,
   publications: PersonPublication[],
   pubToAuthors: Map<string, Person[]>,
   personToPubs: Map<string, PersonPublication[]>
@@ -176,13 +97,11 @@ function generateReport(
     // Group by project
     const pubsByProject = new Map<string, PersonPublication[]>();
     for (const pub of personPubs) {
-      for (const project of researchProjects) {
-        if (project.publicationIds?.includes(pub.id)) {
-          const existing = pubsByProject.get(project.slug) || [];
-          existing.push(pub);
-          pubsByProject.set(project.slug, existing);
-          break;
-        }
+      const [projectSlug] = store.getThemeSlugs(pub);
+      if (projectSlug) {
+        const existing = pubsByProject.get(projectSlug) || [];
+        existing.push(pub);
+        pubsByProject.set(projectSlug, existing);
       }
     }
 
@@ -231,7 +150,8 @@ async function main(): Promise<void> {
   console.log('Loading publications and people...\n');
 
   // Load all publications
-  const publications = loadAllPublications();
+  const store = loadPublicationStore();
+  const publications = store.getAll();
   console.log(`Loaded ${publications.length} publications`);
 
   // Create mappings
@@ -244,7 +164,7 @@ async function main(): Promise<void> {
 
   // Generate report
   console.log('\nGenerating report...');
-  const report = generateReport(publications, pubToAuthors, personToPubs);
+  const report = generateReport(store, publications, pubToAuthors, personToPubs);
 
   // Save report
   const reportPath = path.join(__dirname, '..', 'publication-people-cross-reference-report.txt');
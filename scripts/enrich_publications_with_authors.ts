@@ -14,15 +14,14 @@ import type {
   PublicationAuthor,
   PersonPublicationsSnapshot,
 } from '../src/data/publications.js';
+import { createOpenAlexClient, OPENALEX_BASE_URL } from './harvest_client.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Basic rate limiting / politeness
-const OPENALEX_BASE_URL = 'https://api.openalex.org';
-
-// Optional: set your email here to be polite to OpenAlex
-const CONTACT_EMAIL = process.env.OPENALEX_CONTACT_EMAIL ?? '';
+// Rate limiting, retries and caching are handled by the client
+// (set OPENALEX_CONTACT_EMAIL to use the OpenAlex polite pool)
+const openAlex = createOpenAlexClient();
 
 interface OpenAlexAuthor {
   id?: string;
@@ -33,6 +32,7 @@ interface OpenAlexAuthor {
 interface OpenAlexAuthorship {
   author: OpenAlexAuthor | null;
   raw_author_name?: string;
+  institutions?: Array<{ display_name?: string }>;
 }
 
 interface OpenAlexWork {
@@ -40,28 +40,6 @@ interface OpenAlexWork {
   [key: string]: unknown;
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-async function fetchJson(url: string): Promise<OpenAlexWork> {
-  const fullUrl = CONTACT_EMAIL
-    ? `${url}${url.includes('?') ? '&' : '?'}mailto=${encodeURIComponent(CONTACT_EMAIL)}`
-    : url;
-
-  const response = await fetch(fullUrl, {
-    headers: {
-      Accept: 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAlex error ${response.status} for ${fullUrl}`);
-  }
-
-  return response.json() as Promise<OpenAlexWork>;
-}
-
 /**
  * Extracts OpenAlex work ID from various formats
  */
@@ -93,7 +71,7 @@ async function fetchWorkWithAuthors(
     // OpenAlex API: use /works/{id} endpoint, authorships are included by default
     const workIdPart = openAlexId.replace('https://openalex.org/', '');
     const url = `${OPENALEX_BASE_URL}/works/${workIdPart}`;
-    const work = await fetchJson(url);
+    const work = await openAlex.getJson<OpenAlexWork>(url);
 
     if (!work.authorships || !Array.isArray(work.authorships)) {
       return { authors: [] };
@@ -114,11 +92,16 @@ async function fetchWorkWithAuthors(
           }
         }
 
+        const affiliations = (authorship.institutions ?? [])
+          .map((institution) => institution.display_name)
+          .filter((institution): institution is string => Boolean(institution));
+
         return {
           name,
           orcidId,
           openAlexId: author?.id,
           position: index + 1,
+          ...(affiliations.length > 0 ? { affiliations } : {}),
         };
       }
     );
@@ -238,8 +221,6 @@ async function processPublicationsInDirectory(
             if (work.id?.includes('openalex.org') && (!work.authors || work.authors.length === 0)) {
               const enriched = await enrichPublication(work);
               enrichedWorks.push(enriched);
-              // Small delay between API calls
-              await delay(300); // Increased delay to avoid rate limiting
             } else {
               enrichedWorks.push(work);
             }
@@ -253,7 +234,6 @@ async function processPublicationsInDirectory(
         const enriched = await enrichPublication(data);
         fs.writeFileSync(filePath, JSON.stringify(enriched, null, 2), 'utf-8');
         console.log(`  Updated publication`);
-        await delay(300); // Increased delay
       }
     } catch (error) {
       console.error(`  Error processing ${file}:`, error);
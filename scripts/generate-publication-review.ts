@@ -17,6 +17,8 @@ import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { researchProjects } from '../src/data/researchProjects';
 import type { PersonPublication } from '../src/data/publications';
+import { canonicalizeDoi } from '../src/utils/doi';
+import { readPublicationData } from './publication_store';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -38,21 +40,6 @@ type PublicationTheme = {
   shortDescription: string;
 };
 
-/**
- * Normalizes a DOI string to a canonical format (just the DOI part, no protocol)
- */
-function normalizeDoi(doi: string | undefined): string | null {
-  if (!doi) return null;
-
-  // Remove protocol and domain prefixes
-  const normalized = doi
-    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')
-    .replace(/^doi:/i, '')
-    .trim();
-
-  return normalized || null;
-}
-
 /**
  * Gets author names as a simple string array from a publication
  */
@@ -102,7 +89,7 @@ function isBetterRecord(
  * Converts a publication to a review record
  */
 function publicationToReviewRecord(pub: PersonPublication): PublicationReviewRecord | null {
-  const normalizedDoi = normalizeDoi(pub.doi);
+  const normalizedDoi = pub.doi ? canonicalizeDoi(pub.doi) || null : null;
 
   if (!normalizedDoi) {
     // Skip publications without DOI
@@ -127,27 +114,6 @@ function publicationToReviewRecord(pub: PersonPublication): PublicationReviewRec
   };
 }
 
-/**
- * Recursively get all JSON files in a directory
- */
-function getAllJsonFiles(dir: string): string[] {
-  const files: string[] = [];
-  try {
-    const entries = fs.readdirSync(dir, { withFileTypes: true });
-    for (const entry of entries) {
-      const fullPath = path.join(dir, entry.name);
-      if (entry.isDirectory()) {
-        files.push(...getAllJsonFiles(fullPath));
-      } else if (entry.isFile() && entry.name.endsWith('.json')) {
-        files.push(fullPath);
-      }
-    }
-  } catch {
-    // Directory doesn't exist or can't be read
-  }
-  return files;
-}
-
 /**
  * Main function to generate review files
  */
@@ -166,58 +132,22 @@ async function main() {
   // Collect all publications from different sources
   const publicationsByDoi = new Map<string, PersonPublication>();
 
-  // 1. Load OpenAlex snapshots
-  const openAlexDir = path.join(dataDir, 'publications', 'openalex');
-  const openAlexFiles = getAllJsonFiles(openAlexDir);
-  console.log(`Found ${openAlexFiles.length} OpenAlex snapshot files`);
-  for (const file of openAlexFiles) {
-    const content = JSON.parse(fs.readFileSync(file, 'utf-8'));
-    if (content.works && Array.isArray(content.works)) {
-      for (const work of content.works) {
-        const normalizedDoi = normalizeDoi(work.doi);
-        if (normalizedDoi) {
-          const existing = publicationsByDoi.get(normalizedDoi);
-          if (!existing || isBetterRecord(work, existing)) {
-            publicationsByDoi.set(normalizedDoi, work);
-          }
-        }
-      }
-    }
-  }
-
-  // 2. Load ORCID snapshots
-  const orcidDir = path.join(dataDir, 'publications', 'orcid');
-  const orcidFiles = getAllJsonFiles(orcidDir);
-  console.log(`Found ${orcidFiles.length} ORCID snapshot files`);
-  for (const file of orcidFiles) {
-    const content = JSON.parse(fs.readFileSync(file, 'utf-8'));
-    if (content.works && Array.isArray(content.works)) {
-      for (const work of content.works) {
-        const normalizedDoi = normalizeDoi(work.doi);
-        if (normalizedDoi) {
-          const existing = publicationsByDoi.get(normalizedDoi);
-          if (!existing || isBetterRecord(work, existing)) {
-            publicationsByDoi.set(normalizedDoi, work);
-          }
-        }
-      }
-    }
-  }
-
-  // 3. Load DOI-based publications
-  const doiDir = path.join(dataDir, 'publications', 'doi');
-  const doiFiles = getAllJsonFiles(doiDir);
-  console.log(`Found ${doiFiles.length} DOI publication files`);
-  for (const file of doiFiles) {
-    const content = JSON.parse(fs.readFileSync(file, 'utf-8'));
-    // DOI files have a single publication as the default export
-    const pub = content.default || content;
-    const normalizedDoi = normalizeDoi(pub.doi);
-    if (normalizedDoi) {
-      const existing = publicationsByDoi.get(normalizedDoi);
-      if (!existing || isBetterRecord(pub, existing)) {
-        publicationsByDoi.set(normalizedDoi, pub);
-      }
+  const data = readPublicationData();
+  console.log(
+    `Found ${data.openAlexSnapshots.length} OpenAlex snapshots, ${data.orcidSnapshots.length} ORCID snapshots and ${data.doiPublications.length} DOI publication files`
+  );
+
+  const allRecords = [
+    ...data.openAlexSnapshots.flatMap((snapshot) => snapshot.works ?? []),
+    ...data.orcidSnapshots.flatMap((snapshot) => snapshot.works ?? []),
+    ...data.doiPublications,
+  ];
+  for (const pub of allRecords) {
+    if (!pub.doi) continue;
+    const doiKey = canonicalizeDoi(pub.doi);
+    const existing = publicationsByDoi.get(doiKey);
+    if (!existing || isBetterRecord(pub, existing)) {
+      publicationsByDoi.set(doiKey, pub);
     }
   }
 
@@ -5,6 +5,8 @@ import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { PersonPublication } from '../src/data/publications.js';
 import { researchProjects } from '../src/data/researchProjects.js';
+import { canonicalizeDoi } from '../src/utils/doi.js';
+import { loadPublicationStore } from './publication_store.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -28,136 +30,6 @@ type PublicationTheme = {
   shortDescription: string;
 };
 
-/**
- * Normalize DOI to a stable string format for use as a key
- */
-function normalizeDoi(doi: string | undefined): string | null {
-  if (!doi) return null;
-  // Remove protocol prefixes and normalize
-  return doi
-    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')
-    .replace(/^doi:/i, '')
-    .trim();
-}
-
-/**
- * Load all publications from DOI directory, OpenAlex snapshots, and ORCID snapshots
- */
-function loadAllPublications(): Map<string, PersonPublication> {
-  const publications = new Map<string, PersonPublication>();
-
-  // Load from DOI directory (individual publication files)
-  const doiDir = path.join(__dirname, '..', 'src', 'data', 'publications', 'doi');
-  if (fs.existsSync(doiDir)) {
-    const files = fs.readdirSync(doiDir).filter((f) => f.endsWith('.json'));
-    for (const file of files) {
-      const filePath = path.join(doiDir, file);
-      try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const pub: PersonPublication = JSON.parse(content);
-
-        // Index by OpenAlex ID if available
-        if (pub.id) {
-          if (!publications.has(pub.id)) {
-            publications.set(pub.id, pub);
-          }
-        }
-
-        // Index by DOI in various formats
-        if (pub.doi) {
-          const normalizedDoi = normalizeDoi(pub.doi);
-          if (normalizedDoi) {
-            // Index by normalized DOI
-            const doiUrl = `https://doi.org/${normalizedDoi}`;
-            if (!publications.has(doiUrl)) {
-              publications.set(doiUrl, pub);
-            }
-            // Also index by http://dx.doi.org format
-            const dxDoiUrl = `http://dx.doi.org/${normalizedDoi}`;
-            if (!publications.has(dxDoiUrl)) {
-              publications.set(dxDoiUrl, pub);
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Error reading ${filePath}:`, error);
-      }
-    }
-  }
-
-  // Load from OpenAlex snapshots
-  const openAlexDir = path.join(__dirname, '..', 'src', 'data', 'publications', 'openalex');
-  if (fs.existsSync(openAlexDir)) {
-    const files = fs.readdirSync(openAlexDir).filter((f) => f.endsWith('.json'));
-    for (const file of files) {
-      const filePath = path.join(openAlexDir, file);
-      try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const snapshot: { works: PersonPublication[] } = JSON.parse(content);
-        if (snapshot?.works) {
-          for (const work of snapshot.works) {
-            // Index by OpenAlex ID
-            if (work.id && !publications.has(work.id)) {
-              publications.set(work.id, work);
-            }
-            // Index by DOI
-            if (work.doi) {
-              const normalizedDoi = normalizeDoi(work.doi);
-              if (normalizedDoi) {
-                const doiUrl = `https://doi.org/${normalizedDoi}`;
-                if (!publications.has(doiUrl)) {
-                  publications.set(doiUrl, work);
-                }
-                const dxDoiUrl = `http://dx.doi.org/${normalizedDoi}`;
-                if (!publications.has(dxDoiUrl)) {
-                  publications.set(dxDoiUrl, work);
-                }
-              }
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Error reading ${filePath}:`, error);
-      }
-    }
-  }
-
-  // Load from ORCID snapshots
-  const orcidDir = path.join(__dirname, '..', 'src', 'data', 'publications', 'orcid');
-  if (fs.existsSync(orcidDir)) {
-    const files = fs.readdirSync(orcidDir).filter((f) => f.endsWith('.json'));
-    for (const file of files) {
-      const filePath = path.join(orcidDir, file);
-      try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const snapshot: { works: PersonPublication[] } = JSON.parse(content);
-        if (snapshot?.works) {
-          for (const work of snapshot.works) {
-            // Only add if not already in map (DOI and OpenAlex take precedence)
-            if (work.id && !publications.has(work.id)) {
-              publications.set(work.id, work);
-            }
-            // Index by DOI if not already indexed
-            if (work.doi) {
-              const normalizedDoi = normalizeDoi(work.doi);
-              if (normalizedDoi) {
-                const doiUrl = `https://doi.org/${normalizedDoi}`;
-                if (!publications.has(doiUrl)) {
-                  publications.set(doiUrl, work);
-                }
-              }
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Error reading ${filePath}:`, error);
-      }
-    }
-  }
-
-  return publications;
-}
-
 /**
  * Extract all publication IDs from researchProjects (both from projects and examples)
  */
@@ -200,13 +72,13 @@ function convertToReviewRecord(
   // Get DOI - prefer from pub.doi, otherwise try to extract from originalId
   let doi: string;
   if (pub.doi) {
-    const normalized = normalizeDoi(pub.doi);
+    const normalized = canonicalizeDoi(pub.doi);
     doi = normalized || pub.doi;
   } else if (
     originalId.startsWith('https://doi.org/') ||
     originalId.startsWith('http://dx.doi.org/')
   ) {
-    const normalized = normalizeDoi(originalId);
+    const normalized = canonicalizeDoi(originalId);
     doi = normalized || originalId;
   } else if (originalId.startsWith('https://openalex.org/')) {
     // For OpenAlex-only publications, use the ID as DOI
@@ -232,7 +104,7 @@ function convertToReviewRecord(
  * Collect all publications that match the publicationIds from researchProjects
  */
 function collectPublicationsForReview(): PublicationReviewRecord[] {
-  const allPublications = loadAllPublications();
+  const store = loadPublicationStore();
   const publicationIds = extractPublicationIds();
 
   const reviewRecords = new Map<string, PublicationReviewRecord>();
@@ -240,7 +112,7 @@ function collectPublicationsForReview(): PublicationReviewRecord[] {
   console.log(`\nFound ${publicationIds.size} unique publication IDs in researchProjects.ts`);
 
   for (const id of publicationIds) {
-    const pub = allPublications.get(id);
+    const pub = store.get(id);
     if (pub) {
       const reviewRecord = convertToReviewRecord(pub, id);
       const doiKey = reviewRecord.doi;
@@ -0,0 +1,312 @@
+/* scripts/harvest_client.ts
+ *
+ * Shared HTTP client for the publication harvesting scripts (OpenAlex, ORCID, CrossRef,
+ * Semantic Scholar). Handles the things each script used to do by hand, or not at all:
+ * - rate limiting: a minimum interval between requests to the same API
+ * - retry with exponential backoff on network errors, 429 and 5xx (honours Retry-After)
+ * - an on-disk response cache (.cache/harvest/, git-ignored)
+ * - recording responses as fixtures and replaying them without network access
+ *
+ * The mode is chosen with the HARVEST_MODE environment variable:
+ *   live    (default) network requests, answered from the cache while fresh
+ *   record  network requests (cache bypassed), every response saved as a fixture
+ *   replay  fixtures only; a request with no recorded fixture fails
+ *
+ * For example, to check the ORCID pipeline offline:
+ *   HARVEST_MODE=record npm run update:orcid   # once, with network access
+ *   HARVEST_MODE=replay npm run update:orcid   # any time after, offline
+ *
+ * Other settings: HARVEST_CACHE_TTL_HOURS (default 24), HARVEST_CACHE_DIR and
+ * HARVEST_FIXTURES_DIR (default scripts/fixtures/harvest). Fixtures are keyed by URL
+ * with the OpenAlex `mailto` parameter removed, so they replay for any contact email, and
+ * OpenAlex cursor pages are keyed by page number rather than by cursor (see getStoredResponseKey).
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const OPENALEX_BASE_URL = 'https://api.openalex.org';
+
+export type HarvestMode = 'live' | 'record' | 'replay';
+
+const HARVEST_MODES: HarvestMode[] = ['live', 'record', 'replay'];
+
+const CACHE_DIR = process.env.HARVEST_CACHE_DIR ?? path.join(__dirname, '..', '.cache', 'harvest');
+const FIXTURES_DIR =
+  process.env.HARVEST_FIXTURES_DIR ?? path.join(__dirname, 'fixtures', 'harvest');
+const CACHE_TTL_MS = Number(process.env.HARVEST_CACHE_TTL_HOURS ?? 24) * 60 * 60 * 1000;
+
+/**
+ * Options for a harvest client (one per API)
+ */
+export interface HarvestClientOptions {
+  name: string; // short API name, used in errors and as the cache/fixture subdirectory
+  headers?: Record<string, string>; // sent with every request (Accept defaults to JSON)
+  query?: Record<string, string>; // added to every request URL (e.g. OpenAlex mailto)
+  minIntervalMs?: number; // minimum time between requests (default: 300)
+  maxRetries?: number; // retries after the first attempt (default: 3)
+  backoffMs?: number; // first retry delay, doubled on each retry (default: 1000)
+  mode?: HarvestMode; // default: HARVEST_MODE or 'live'
+  fetchImpl?: typeof fetch; // HTTP implementation (default: global fetch)
+}
+
+/**
+ * A stored response, as written to the cache and fixture files
+ */
+interface StoredResponse {
+  url: string;
+  status: number;
+  fetchedAt: string;
+  body: unknown;
+}
+
+/**
+ * JSON client for one API
+ */
+export interface HarvestClient {
+  /** Fetches JSON, throwing on any non-success status */
+  getJson<T>(url: string): Promise<T>;
+  /** Fetches JSON, returning null for 404 Not Found */
+  getJsonOrNull<T>(url: string): Promise<T | null>;
+}
+
+/**
+ * Waits for a number of milliseconds
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reads the harvest mode from HARVEST_MODE
+ */
+function getModeFromEnv(): HarvestMode {
+  const mode = process.env.HARVEST_MODE ?? 'live';
+  if (!HARVEST_MODES.includes(mode as HarvestMode)) {
+    throw new Error(`Unknown HARVEST_MODE '${mode}' (expected ${HARVEST_MODES.join(', ')})`);
+  }
+  return mode as HarvestMode;
+}
+
+/**
+ * Gets the key a response for a URL is stored under
+ * The `mailto` parameter is left out so stored responses do not depend on it. OpenAlex cursors
+ * are opaque and differ between runs, so a cursor page is keyed by its query without the
+ * cursor plus its page number: the first page (`cursor=*`) is page 0, and a cursor returned as
+ * `meta.next_cursor` is the page after the one it came with. A cursor the client has not seen
+ * stays in the key.
+ * @param url - Request URL
+ * @param cursorPages - Page number of each cursor seen so far
+ */
+function getStoredResponseKey(url: string, cursorPages: Map<string, number>): string {
+  const keyUrl = new URL(url);
+  keyUrl.searchParams.delete('mailto');
+  const cursor = keyUrl.searchParams.get('cursor');
+  const page = cursor === '*' ? 0 : cursor === null ? undefined : cursorPages.get(cursor);
+  if (page !== undefined) {
+    keyUrl.searchParams.delete('cursor');
+    keyUrl.searchParams.set('cursor-page', String(page));
+  }
+  return keyUrl.toString();
+}
+
+/**
+ * Gets the file a response is stored in
+ */
+function getStoredResponsePath(dir: string, clientName: string, key: string): string {
+  const hash = createHash('sha1').update(key).digest('hex').slice(0, 16);
+  return path.join(dir, clientName.toLowerCase(), `${hash}.json`);
+}
+
+/**
+ * Records the page number of the next cursor in a cursor-paged response
+ */
+function recordNextCursor(url: string, body: unknown, cursorPages: Map<string, number>): void {
+  const cursor = new URL(url).searchParams.get('cursor');
+  const page = cursor === '*' ? 0 : cursor === null ? undefined : cursorPages.get(cursor);
+  const nextCursor = (body as { meta?: { next_cursor?: unknown } } | null)?.meta?.next_cursor;
+  if (page !== undefined && typeof nextCursor === 'string') {
+    cursorPages.set(nextCursor, page + 1);
+  }
+}
+
+function readStoredResponse(file: string): StoredResponse | null {
+  if (!fs.existsSync(file)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as StoredResponse;
+  } catch (error) {
+    console.warn(`Ignoring unreadable stored response ${file}:`, error);
+    return null;
+  }
+}
+
+function writeStoredResponse(file: string, response: StoredResponse): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(response, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Checks whether a failed request is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Gets the wait before a retry: Retry-After if the server sent one, else exponential backoff
+ */
+function getRetryDelay(response: Response | null, attempt: number, backoffMs: number): number {
+  const retryAfter = response?.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  return backoffMs * 2 ** attempt;
+}
+
+/**
+ * Creates a JSON client for one API
+ * @param options - API name, default headers/query, rate limit, retry and mode settings
+ * @returns The client
+ */
+export function createHarvestClient(options: HarvestClientOptions): HarvestClient {
+  const {
+    name,
+    headers = {},
+    query = {},
+    minIntervalMs = 300,
+    maxRetries = 3,
+    backoffMs = 1000,
+    mode = getModeFromEnv(),
+    fetchImpl = fetch,
+  } = options;
+
+  let nextRequestAt = 0;
+  const cursorPages = new Map<string, number>();
+
+  const waitForRateLimit = async (): Promise<void> => {
+    const wait = nextRequestAt - Date.now();
+    nextRequestAt = Math.max(Date.now(), nextRequestAt) + minIntervalMs;
+    if (wait > 0) await delay(wait);
+  };
+
+  // Appended as text so the rest of the URL is sent exactly as the caller encoded it
+  const withQuery = (url: string): string =>
+    Object.entries(query)
+      .filter(([, value]) => value)
+      .reduce(
+        (fullUrl, [key, value]) =>
+          `${fullUrl}${fullUrl.includes('?') ? '&' : '?'}${key}=${encodeURIComponent(value)}`,
+        url
+      );
+
+  const fetchFromNetwork = async (url: string): Promise<StoredResponse> => {
+    for (let attempt = 0; ; attempt++) {
+      await waitForRateLimit();
+
+      let response: Response | null = null;
+      try {
+        response = await fetchImpl(url, { headers: { Accept: 'application/json', ...headers } });
+      } catch (error) {
+        if (attempt >= maxRetries) throw error;
+      }
+
+      if (response && !isRetryableStatus(response.status)) {
+        if (response.status === 404) {
+          return { url, status: 404, fetchedAt: new Date().toISOString(), body: null };
+        }
+        if (!response.ok) {
+          throw new Error(`${name} error ${response.status} ${response.statusText} for ${url}`);
+        }
+        const text = await response.text();
+        try {
+          return {
+            url,
+            status: response.status,
+            fetchedAt: new Date().toISOString(),
+            body: JSON.parse(text),
+          };
+        } catch {
+          throw new Error(`${name} returned invalid JSON for ${url}: ${text.slice(0, 100)}`);
+        }
+      }
+
+      if (response && attempt >= maxRetries) {
+        throw new Error(`${name} error ${response.status} ${response.statusText} for ${url}`);
+      }
+
+      const wait = getRetryDelay(response, attempt, backoffMs);
+      console.warn(
+        `   ${name}: ${response ? `status ${response.status}` : 'network error'}, retrying in ${Math.round(wait / 1000)}s (${attempt + 1}/${maxRetries})`
+      );
+      await delay(wait);
+    }
+  };
+
+  const request = async (url: string): Promise<StoredResponse> => {
+    const fullUrl = withQuery(url);
+    const key = getStoredResponseKey(fullUrl, cursorPages);
+    const fixtureFile = getStoredResponsePath(FIXTURES_DIR, name, key);
+
+    if (mode === 'replay') {
+      const fixture = readStoredResponse(fixtureFile);
+      if (!fixture) {
+        throw new Error(`No recorded ${name} response for ${url} (HARVEST_MODE=replay)`);
+      }
+      recordNextCursor(fullUrl, fixture.body, cursorPages);
+      return fixture;
+    }
+
+    const cacheFile = getStoredResponsePath(CACHE_DIR, name, key);
+    if (mode === 'live') {
+      const cached = readStoredResponse(cacheFile);
+      if (cached && Date.now() - Date.parse(cached.fetchedAt) < CACHE_TTL_MS) {
+        recordNextCursor(fullUrl, cached.body, cursorPages);
+        return cached;
+      }
+    }
+
+    // Only successful responses and 404s get here; other failures throw
+    const response = await fetchFromNetwork(fullUrl);
+    const stored = { ...response, url };
+    writeStoredResponse(cacheFile, stored);
+    if (mode === 'record') {
+      writeStoredResponse(fixtureFile, stored);
+    }
+    recordNextCursor(fullUrl, stored.body, cursorPages);
+    return stored;
+  };
+
+  const getJsonOrNull = async <T>(url: string): Promise<T | null> => {
+    const response = await request(url);
+    return response.status === 404 ? null : (response.body as T);
+  };
+
+  return {
+    getJsonOrNull,
+    getJson: async <T>(url: string): Promise<T> => {
+      const body = await getJsonOrNull<T>(url);
+      if (body === null) {
+        throw new Error(`${name} error 404 for ${url}`);
+      }
+      return body;
+    },
+  };
+}
+
+/**
+ * Client for the OpenAlex API (adds OPENALEX_CONTACT_EMAIL as `mailto` for the polite pool)
+ */
+export function createOpenAlexClient(): HarvestClient {
+  return createHarvestClient({
+    name: 'OpenAlex',
+    query: { mailto: process.env.OPENALEX_CONTACT_EMAIL ?? '' },
+  });
+}
@@ -4,10 +4,14 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { execSync } from 'node:child_process';
+import { createOpenAlexClient, OPENALEX_BASE_URL } from './harvest_client.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Rate limiting, retries and caching are handled by the client
+const openAlex = createOpenAlexClient();
+
 interface PublicationInput {
   id: string;
   type: string;
@@ -65,21 +69,15 @@ function getPublicationIdFromFile(doi: string): string | null {
 // Try to find DOI using OpenAlex API by title and year
 async function findDoiByTitle(title: string, year: number): Promise<string | null> {
   const encodedTitle = encodeURIComponent(title);
-  const url = `https://api.openalex.org/works?search=${encodedTitle}&filter=publication_year:${year}&per-page=1`;
+  const url = `${OPENALEX_BASE_URL}/works?search=${encodedTitle}&filter=publication_year:${year}&per-page=1`;
 
   try {
-    const response = await fetch(url, {
-      headers: { Accept: 'application/json' },
-    });
-
-    if (!response.ok) return null;
-
-    const data = (await response.json()) as {
+    const data = await openAlex.getJson<{
       results?: Array<{
         title?: string;
         doi?: string;
       }>;
-    };
+    }>(url);
     if (data.results && data.results.length > 0) {
       const work = data.results[0];
       // Check if title is similar (fuzzy match)
@@ -0,0 +1,69 @@
+/* scripts/publication_store.ts
+ *
+ * Node counterpart of getPublicationStore() in src/utils/publications.ts: reads the
+ * publication JSON in src/data/publications from disk and builds the same publication
+ * store the site uses, so scripts query publications with the same precedence and
+ * DOI matching rules as the pages.
+ *
+ * Usage (from another script):
+ *   import { loadPublicationStore } from './publication_store.js';
+ *   const store = loadPublicationStore();
+ *   store.get('https://doi.org/10.1234/abc');
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { PersonPublication, PersonPublicationsSnapshot } from '../src/data/publications.js';
+import {
+  createPublicationStore,
+  type PublicationData,
+  type PublicationStore,
+} from '../src/utils/publicationStore.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const PUBLICATIONS_DIR = path.join(__dirname, '..', 'src', 'data', 'publications');
+
+/**
+ * Reads every JSON file in a publications subdirectory, keyed by file name (without .json)
+ * @param subdir - 'openalex', 'orcid' or 'doi'
+ */
+export function readPublicationFiles<T>(subdir: string): Map<string, T> {
+  const dir = path.join(PUBLICATIONS_DIR, subdir);
+  const files = new Map<string, T>();
+  if (!fs.existsSync(dir)) return files;
+
+  for (const file of fs.readdirSync(dir).filter((f) => f.endsWith('.json'))) {
+    try {
+      const content = fs.readFileSync(path.join(dir, file), 'utf-8');
+      files.set(path.basename(file, '.json'), JSON.parse(content) as T);
+    } catch (error) {
+      console.error(`Error loading ${subdir}/${file}:`, error);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Reads all publication data from disk
+ */
+export function readPublicationData(): PublicationData {
+  return {
+    openAlexSnapshots: Array.from(
+      readPublicationFiles<PersonPublicationsSnapshot>('openalex').values()
+    ),
+    orcidSnapshots: Array.from(readPublicationFiles<PersonPublicationsSnapshot>('orcid').values()),
+    doiPublications: Array.from(readPublicationFiles<PersonPublication>('doi').values()),
+  };
+}
+
+/**
+ * Builds a publication store from the data on disk
+ * Reads the files on every call, so long-running processes (the dev server) see edits.
+ */
+export function loadPublicationStore(): PublicationStore {
+  return createPublicationStore(readPublicationData());
+}
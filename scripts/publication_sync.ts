@@ -0,0 +1,346 @@
+/* scripts/publication_sync.ts
+ *
+ * Incremental sync of the per-person publication snapshots, shared by
+ * update_openalex_publications.ts and update_orcid_publications.ts.
+ *
+ * Instead of rewriting each snapshot wholesale, freshly harvested works are merged into
+ * the existing snapshot by work ID:
+ * - new works are added, and works the source no longer lists are removed
+ * - fields the source supplies are updated; fields it leaves empty keep their value, and
+ *   fields it never supplies (e.g. authors added by enrich:authors) are kept as they are
+ * - works whose ID is not one the source issues (added to a snapshot by hand) are kept
+ * - a snapshot file is only rewritten when something changed
+ *
+ * Every run writes a change report (publication-sync-<source>.md and .json in the repo
+ * root, git-ignored) listing added, removed and changed works per person. Pass --dry-run
+ * to write the report without touching the snapshots.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Person } from '../src/data/people.js';
+import type {
+  PersonPublication,
+  PersonPublicationsSnapshot,
+  PublicationOrigin,
+} from '../src/data/publications.js';
+import { PUBLICATION_ORIGIN_LABELS } from '../src/data/publications.js';
+import { PUBLICATIONS_DIR } from './publication_store.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Where change reports are written (PUBLICATION_SYNC_REPORT_DIR overrides the repository root)
+const REPORT_DIR = process.env.PUBLICATION_SYNC_REPORT_DIR ?? path.join(__dirname, '..');
+
+// Fields compared between the stored and harvested versions of a work
+const SYNC_FIELDS = [
+  'title',
+  'year',
+  'venue',
+  'doi',
+  'openAccessUrl',
+  'openAccessStatus',
+  'licence',
+  'authors',
+  'type',
+  'citations',
+] as const;
+
+type SyncField = (typeof SYNC_FIELDS)[number];
+
+/**
+ * A snapshot source the sync can harvest
+ */
+export interface SnapshotSyncSource {
+  origin: Exclude<PublicationOrigin, 'doi'>; // also the snapshot subdirectory
+  people: Person[]; // people to sync
+  fetchWorks: (person: Person) => Promise<PersonPublication[]>; // all of a person's works
+  isHarvestedId: (id: string) => boolean; // false for works added to a snapshot by hand
+}
+
+interface WorkSummary {
+  id: string;
+  title: string;
+  year?: number;
+}
+
+interface FieldChange {
+  field: SyncField;
+  before: unknown;
+  after: unknown;
+}
+
+interface WorkChange extends WorkSummary {
+  changes: FieldChange[];
+}
+
+/**
+ * Outcome of syncing one person's snapshot
+ */
+interface PersonSyncResult {
+  slug: string;
+  name: string;
+  totalWorks: number; // works in the snapshot after the sync
+  added: WorkSummary[];
+  removed: WorkSummary[];
+  changed: WorkChange[];
+  keptManual: WorkSummary[]; // hand-added works the source does not list
+  error?: string; // set when the person could not be synced (snapshot left untouched)
+}
+
+interface SyncReport {
+  source: string;
+  generatedAt: string;
+  dryRun: boolean;
+  people: PersonSyncResult[];
+}
+
+function summarize(work: PersonPublication): WorkSummary {
+  return { id: work.id, title: work.title, year: work.year };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compares a field's stored and harvested values
+ * Citation counts are compared without their snapshot date, so a harvest that finds the same
+ * counts leaves the snapshot unchanged.
+ */
+function isSameFieldValue(field: SyncField, a: PersonPublication, b: PersonPublication): boolean {
+  if (field === 'citations') {
+    return isSameValue(
+      a.citations && { count: a.citations.count, byYear: a.citations.byYear },
+      b.citations && { count: b.citations.count, byYear: b.citations.byYear }
+    );
+  }
+  return isSameValue(a[field], b[field]);
+}
+
+/**
+ * Merges freshly harvested works into a snapshot's existing works
+ * @param existing - Works currently in the snapshot
+ * @param fetched - Every work the source lists for the person
+ * @param isHarvestedId - Whether an ID is one the source issues
+ * @returns The new work list and what changed
+ */
+export function syncWorks(
+  existing: PersonPublication[],
+  fetched: PersonPublication[],
+  isHarvestedId: (id: string) => boolean
+): Omit<PersonSyncResult, 'slug' | 'name'> & { works: PersonPublication[] } {
+  const existingById = new Map(existing.map((work) => [work.id, work]));
+  const fetchedIds = new Set(fetched.map((work) => work.id));
+
+  const works: PersonPublication[] = [];
+  const added: WorkSummary[] = [];
+  const changed: WorkChange[] = [];
+
+  for (const fetchedWork of fetched) {
+    if (works.some((work) => work.id === fetchedWork.id)) continue;
+
+    const current = existingById.get(fetchedWork.id);
+    if (!current) {
+      works.push(fetchedWork);
+      added.push(summarize(fetchedWork));
+      continue;
+    }
+
+    const updated: PersonPublication = { ...current };
+    const changes: FieldChange[] = [];
+    for (const field of SYNC_FIELDS) {
+      const value = fetchedWork[field];
+      if (value === undefined || isSameFieldValue(field, fetchedWork, current)) continue;
+      changes.push({ field, before: current[field], after: value });
+      Object.assign(updated, { [field]: value });
+    }
+
+    works.push(updated);
+    if (changes.length > 0) {
+      changed.push({ ...summarize(updated), changes });
+    }
+  }
+
+  const removed: WorkSummary[] = [];
+  const keptManual: WorkSummary[] = [];
+  for (const work of existing) {
+    if (fetchedIds.has(work.id)) continue;
+    if (isHarvestedId(work.id)) {
+      removed.push(summarize(work));
+    } else {
+      works.push(work);
+      keptManual.push(summarize(work));
+    }
+  }
+
+  return { works, totalWorks: works.length, added, removed, changed, keptManual };
+}
+
+function readSnapshot(file: string): PersonPublicationsSnapshot | null {
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as PersonPublicationsSnapshot;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '_(empty)_';
+  if (Array.isArray(value)) return `${value.length} item(s)`;
+  if (typeof value === 'object' && 'count' in value) return `${String(value.count)} citation(s)`;
+  return `\`${String(value)}\``;
+}
+
+function formatWork(work: WorkSummary): string {
+  return `${work.title}${work.year ? ` (${work.year})` : ''} — ${work.id}`;
+}
+
+/**
+ * Renders a sync report as Markdown
+ */
+function renderMarkdownReport(report: SyncReport): string {
+  const lines: string[] = [];
+  lines.push(`# Publication sync report: ${report.source}`);
+  lines.push('');
+  lines.push(`Generated ${report.generatedAt}.`);
+  if (report.dryRun) {
+    lines.push('');
+    lines.push('**Dry run:** no snapshot files were changed.');
+  }
+  lines.push('');
+  lines.push('| Person | Works | Added | Removed | Changed | Kept (manual) |');
+  lines.push('| --- | ---: | ---: | ---: | ---: | ---: |');
+  for (const person of report.people) {
+    lines.push(
+      person.error
+        ? `| ${person.name} | failed | | | | |`
+        : `| ${person.name} | ${person.totalWorks} | ${person.added.length} | ${person.removed.length} | ${person.changed.length} | ${person.keptManual.length} |`
+    );
+  }
+
+  for (const person of report.people) {
+    const hasChanges =
+      person.added.length + person.removed.length + person.changed.length > 0 || person.error;
+    if (!hasChanges) continue;
+
+    lines.push('');
+    lines.push(`## ${person.name} (${person.slug})`);
+    if (person.error) {
+      lines.push('');
+      lines.push(`Sync failed, snapshot left unchanged: ${person.error}`);
+      continue;
+    }
+    if (person.added.length > 0) {
+      lines.push('', '### Added', '');
+      person.added.forEach((work) => lines.push(`- ${formatWork(work)}`));
+    }
+    if (person.removed.length > 0) {
+      lines.push('', '### Removed', '');
+      person.removed.forEach((work) => lines.push(`- ${formatWork(work)}`));
+    }
+    if (person.changed.length > 0) {
+      lines.push('', '### Changed', '');
+      for (const work of person.changed) {
+        lines.push(`- ${formatWork(work)}`);
+        for (const change of work.changes) {
+          lines.push(
+            `  - ${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`
+          );
+        }
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Syncs every person's snapshot for a source and writes the change report
+ * @param source - The source to harvest
+ * @param options - dryRun: report only, leave snapshots untouched
+ */
+export async function runSnapshotSync(
+  source: SnapshotSyncSource,
+  options: { dryRun?: boolean } = {}
+): Promise<void> {
+  const dryRun = options.dryRun ?? false;
+  const label = PUBLICATION_ORIGIN_LABELS[source.origin];
+  const outputDir = path.join(PUBLICATIONS_DIR, source.origin);
+  if (!dryRun && !fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const results: PersonSyncResult[] = [];
+
+  for (const person of source.people) {
+    const outPath = path.join(outputDir, `${person.slug}.json`);
+    const emptyResult = { slug: person.slug, name: person.name, totalWorks: 0 };
+
+    try {
+      console.log(`→ Fetching ${label} works for ${person.name} (${person.orcidId})`);
+
+      const existing = readSnapshot(outPath);
+      const fetched = await source.fetchWorks(person);
+
+      // An empty response for someone with harvested works is more likely an API problem
+      // than every work disappearing, so don't remove them all
+      if (fetched.length === 0 && existing?.works.some((work) => source.isHarvestedId(work.id))) {
+        throw new Error(`${label} returned no works; keeping the existing snapshot`);
+      }
+
+      const { works, ...result } = syncWorks(existing?.works ?? [], fetched, source.isHarvestedId);
+      results.push({ slug: person.slug, name: person.name, ...result });
+
+      const changeCount = result.added.length + result.removed.length + result.changed.length;
+      if (changeCount === 0 && existing) {
+        console.log(`   No changes (${works.length} works)`);
+        continue;
+      }
+
+      console.log(
+        `   ${works.length} works: +${result.added.length} -${result.removed.length} ~${result.changed.length}`
+      );
+      if (!dryRun) {
+        const snapshot: PersonPublicationsSnapshot = {
+          slug: person.slug,
+          orcidId: person.orcidId,
+          updatedAt: new Date().toISOString(),
+          works,
+        };
+        fs.writeFileSync(outPath, JSON.stringify(snapshot, null, 2), 'utf-8');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`   Error syncing works for ${person.name}:`, message);
+      results.push({
+        ...emptyResult,
+        added: [],
+        removed: [],
+        changed: [],
+        keptManual: [],
+        error: message,
+      });
+    }
+  }
+
+  const report: SyncReport = {
+    source: label,
+    generatedAt: new Date().toISOString(),
+    dryRun,
+    people: results,
+  };
+  const reportBase = path.join(REPORT_DIR, `publication-sync-${source.origin}`);
+  fs.writeFileSync(`${reportBase}.json`, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+  fs.writeFileSync(`${reportBase}.md`, renderMarkdownReport(report), 'utf-8');
+
+  console.log(`\nChange report saved to ${reportBase}.md (and .json)`);
+  if (dryRun) {
+    console.log('Dry run: no snapshot files were changed.');
+  }
+
+  const failed = results.filter((result) => result.error).length;
+  if (failed > 0) {
+    console.error(`${failed} of ${results.length} people failed to sync`);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,110 @@
+/* scripts/review_author_matches.ts
+ *
+ * Writes the author → person matches the matcher is unsure about to
+ * src/data/publications/author-match-review.json for a maintainer to accept or reject.
+ *
+ * An author is written out when:
+ * - low-confidence: their only candidate person scores below a full-name match, i.e. the
+ *   match rests on initials (with or without co-author or affiliation support)
+ * - ambiguous: more than one person is a candidate
+ *
+ * Authors matched by ORCID iD, OpenAlex author ID or full name are not. Entries a
+ * maintainer has accepted or rejected are kept as they are; pending entries are rebuilt
+ * from the current publications on every run, so stale ones disappear.
+ *
+ * Run with: npm run review:authors
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  authorMatchReview,
+  type AuthorMatchReviewEntry,
+  type AuthorMatchReviewFile,
+} from '../src/data/authorMatchReview.js';
+import { allPeople } from '../src/data/people.js';
+import type { PersonPublication } from '../src/data/publications.js';
+import {
+  matchPublicationAuthors,
+  type PublicationAuthorMatch,
+} from '../src/utils/authorMatching.js';
+import { loadPublicationStore, PUBLICATIONS_DIR } from './publication_store.js';
+
+const REVIEW_FILE = path.join(PUBLICATIONS_DIR, 'author-match-review.json');
+
+// Candidates scoring at or above a full-name match are not worth a maintainer's time
+const CONFIDENT_MATCH = 0.9;
+
+/**
+ * Builds the pending review entries for one author of a publication
+ * @returns No entries when the author is matched confidently or already decided
+ */
+function getPendingEntries(
+  publication: PersonPublication,
+  { author, candidates }: PublicationAuthorMatch
+): AuthorMatchReviewEntry[] {
+  if (candidates.length === 0) return [];
+  if (candidates.some((candidate) => candidate.signals.includes('reviewed'))) return [];
+
+  const ambiguous = candidates.length > 1;
+  if (!ambiguous && candidates[0].confidence >= CONFIDENT_MATCH) return [];
+
+  return candidates.map((candidate) => ({
+    publicationId: publication.id,
+    ...(publication.doi ? { doi: publication.doi } : {}),
+    title: publication.title,
+    ...(publication.year ? { year: publication.year } : {}),
+    authorName: author.name,
+    ...(author.position ? { authorPosition: author.position } : {}),
+    personSlug: candidate.person.slug,
+    confidence: Math.round(candidate.confidence * 100) / 100,
+    signals: candidate.signals,
+    reason: ambiguous ? 'ambiguous' : 'low-confidence',
+    decision: 'pending',
+  }));
+}
+
+function compareEntries(a: AuthorMatchReviewEntry, b: AuthorMatchReviewEntry): number {
+  return (
+    a.title.localeCompare(b.title) ||
+    (a.authorPosition ?? 0) - (b.authorPosition ?? 0) ||
+    a.authorName.localeCompare(b.authorName) ||
+    b.confidence - a.confidence
+  );
+}
+
+function main(): void {
+  console.log('Loading publications and people...\n');
+  const publications = loadPublicationStore().getAll();
+
+  const decided = authorMatchReview.entries.filter((entry) => entry.decision !== 'pending');
+  const pending = publications.flatMap((publication) =>
+    matchPublicationAuthors(publication, allPeople).flatMap((authorMatch) =>
+      getPendingEntries(publication, authorMatch)
+    )
+  );
+
+  const review: AuthorMatchReviewFile = {
+    generatedAt: new Date().toISOString(),
+    entries: [...decided, ...pending].sort(compareEntries),
+  };
+  fs.writeFileSync(REVIEW_FILE, JSON.stringify(review, null, 2) + '\n', 'utf-8');
+
+  const lowConfidence = pending.filter((entry) => entry.reason === 'low-confidence').length;
+  const accepted = decided.filter((entry) => entry.decision === 'accepted').length;
+  console.log(`Checked ${publications.length} publications`);
+  console.log(
+    `Pending: ${pending.length} (${lowConfidence} low-confidence, ${pending.length - lowConfidence} ambiguous)`
+  );
+  console.log(
+    `Decided (kept): ${decided.length} (${accepted} accepted, ${decided.length - accepted} rejected)`
+  );
+  console.log(`\nReview file saved to ${REVIEW_FILE}`);
+  if (pending.length > 0) {
+    console.log(
+      'Set "decision" to "accepted" or "rejected" (with a "note") for each pending entry.'
+    );
+  }
+}
+
+main();
@@ -0,0 +1,77 @@
+/* scripts/search_index_plugin.ts
+ *
+ * Vite plugin that builds the site search index once, at build time, and emits it
+ * as a static JSON asset (/search-index.json). The search page fetches it lazily,
+ * so page bundles no longer need to carry every publication snapshot or report partial.
+ *
+ * During `npm run dev` the index is rebuilt on each request so data edits show up
+ * without restarting the server.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Plugin } from 'vite';
+import { buildSearchIndexData, SEARCH_INDEX_URL } from '../src/data/searchIndex.js';
+import { loadPublicationStore } from './publication_store.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PUBLIC_DIR = path.join(__dirname, '..', 'public');
+
+/**
+ * Reads an HTML partial served from public/ (e.g. '/content/reports/2024-2025.html')
+ */
+function readContentPartial(htmlPartialPath: string): string | undefined {
+  const file = path.join(PUBLIC_DIR, htmlPartialPath);
+  if (!fs.existsSync(file)) {
+    console.warn(`Search index: content partial not found: ${htmlPartialPath}`);
+    return undefined;
+  }
+  return fs.readFileSync(file, 'utf-8');
+}
+
+/**
+ * Builds the serialised search index from the data on disk
+ * @returns JSON string for the search index asset
+ */
+export function createSearchIndexJson(): string {
+  const data = buildSearchIndexData({
+    publicationStore: loadPublicationStore(),
+    getContentPartial: readContentPartial,
+  });
+  return JSON.stringify(data);
+}
+
+/**
+ * Vite plugin serving (dev) and emitting (build) the prebuilt search index
+ */
+export function searchIndexPlugin(): Plugin {
+  const fileName = SEARCH_INDEX_URL.replace(/^\//, '');
+
+  return {
+    name: 'bp-search-index',
+
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        if (req.url?.split('?')[0] !== SEARCH_INDEX_URL) {
+          next();
+          return;
+        }
+        try {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(createSearchIndexJson());
+        } catch (error) {
+          next(error);
+        }
+      });
+    },
+
+    generateBundle() {
+      const source = createSearchIndexJson();
+      this.emitFile({ type: 'asset', fileName, source });
+      console.log(`Search index: ${fileName} (${(source.length / 1024).toFixed(1)} kB)`);
+    },
+  };
+}
@@ -1,65 +1,59 @@
-/* scripts/update_openalex_publications.ts */
+/* scripts/update_openalex_publications.ts
+ *
+ * Syncs src/data/publications/openalex/<slug>.json with every OpenAlex work listed for each
+ * person's ORCID, and writes a change report (see publication_sync.ts).
+ *
+ * Usage: npm run update:openalex [-- --dry-run] [-- --person <slug>]
+ *
+ * `npm run check:harvest` replays this harvest for one person from the fixtures in
+ * scripts/fixtures/harvest, without network access (see harvest_client.ts).
+ */
 
-import fs from 'node:fs';
-import path from 'node:path';
-import { fileURLToPath } from 'node:url';
 import { allPeople, type Person } from '../src/data/people.js';
-import type { PersonPublication, PersonPublicationsSnapshot } from '../src/data/publications.js';
+import type { PersonPublication } from '../src/data/publications.js';
+import { fromOpenAlexCitations, type OpenAlexCitationFields } from '../src/utils/citationCounts.js';
+import { fromOpenAlexOpenAccess, type OpenAlexOpenAccessFields } from '../src/utils/openAccess.js';
+import { fromOpenAlexType } from '../src/utils/publicationTypes.js';
+import { createOpenAlexClient, OPENALEX_BASE_URL } from './harvest_client.js';
+import { runSnapshotSync } from './publication_sync.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+// Largest page size OpenAlex allows
+const PAGE_SIZE = 200;
 
-// Basic rate limiting / politeness
-const OPENALEX_BASE_URL = 'https://api.openalex.org';
-const MAX_WORKS_PER_PERSON = 30;
+// Snapshot date recorded with the citation counts (HARVEST_AS_OF overrides it, so replayed
+// harvests record the same date on every run)
+const CITATIONS_AS_OF = process.env.HARVEST_AS_OF ?? new Date().toISOString().slice(0, 10);
 
-// Optional: set your email here to be polite to OpenAlex
-const CONTACT_EMAIL = process.env.OPENALEX_CONTACT_EMAIL ?? '';
-
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+// Rate limiting, retries and caching are handled by the client
+// (set OPENALEX_CONTACT_EMAIL to use the OpenAlex polite pool)
+const openAlex = createOpenAlexClient();
 
 interface OpenAlexResponse {
   results?: OpenAlexWork[];
+  meta?: { next_cursor?: string | null };
   [key: string]: unknown;
 }
 
-interface OpenAlexWork {
+interface OpenAlexWork extends OpenAlexOpenAccessFields, OpenAlexCitationFields {
   id?: string;
   title?: string;
   display_name?: string;
   doi?: string;
   publication_year?: number;
   venue?: string;
+  type?: string;
+  type_crossref?: string;
   primary_location?: {
-    source?: { display_name?: string };
+    source?: { display_name?: string; type?: string };
     host_venue?: { display_name?: string };
     landing_page_url?: string;
     pdf_url?: string;
+    license?: string | null;
   };
-  open_access?: { oa_url?: string };
+  open_access?: { oa_url?: string; oa_status?: string | null };
   [key: string]: unknown;
 }
 
-async function fetchJson(url: string): Promise<OpenAlexResponse> {
-  const fullUrl = CONTACT_EMAIL
-    ? `${url}${url.includes('?') ? '&' : '?'}mailto=${encodeURIComponent(CONTACT_EMAIL)}`
-    : url;
-
-  const response = await fetch(fullUrl, {
-    headers: {
-      Accept: 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAlex error ${response.status} for ${fullUrl}`);
-  }
-
-  return response.json() as Promise<OpenAlexResponse>;
-}
-
 async function fetchWorksForPerson(person: Person): Promise<PersonPublication[]> {
   if (!person.orcidId) return [];
 
@@ -67,13 +61,21 @@ async function fetchWorksForPerson(person: Person): Promise<PersonPublication[]>
   // Filter works by authorships.author.orcid, sorted by publication_year desc
   // OpenAlex expects the full ORCID URL format
   const orcidUrl = `https://orcid.org/${orcid}`;
-  const url = `${OPENALEX_BASE_URL}/works?filter=authorships.author.orcid:${encodeURIComponent(
+  const baseUrl = `${OPENALEX_BASE_URL}/works?filter=authorships.author.orcid:${encodeURIComponent(
     orcidUrl
-  )}&per-page=${MAX_WORKS_PER_PERSON}&sort=publication_year:desc`;
-
-  const data = await fetchJson(url);
-
-  const results = Array.isArray(data.results) ? data.results : [];
+  )}&per-page=${PAGE_SIZE}&sort=publication_year:desc`;
+
+  // Page through all works with cursor paging
+  const results: OpenAlexWork[] = [];
+  let cursor: string | null | undefined = '*';
+  while (cursor) {
+    const data: OpenAlexResponse = await openAlex.getJson<OpenAlexResponse>(
+      `${baseUrl}&cursor=${encodeURIComponent(cursor)}`
+    );
+    const page = Array.isArray(data.results) ? data.results : [];
+    results.push(...page);
+    cursor = page.length > 0 ? data.meta?.next_cursor : null;
+  }
 
   const works: PersonPublication[] = results.map((w: OpenAlexWork) => {
     const id: string = w.id ?? '';
@@ -106,6 +108,9 @@ async function fetchWorksForPerson(person: Person): Promise<PersonPublication[]>
       venue,
       doi,
       openAccessUrl,
+      ...fromOpenAlexOpenAccess(w),
+      type: fromOpenAlexType(w.type, w.type_crossref, w.primary_location?.source?.type),
+      citations: fromOpenAlexCitations(w, CITATIONS_AS_OF),
     };
   });
 
@@ -113,41 +118,28 @@ async function fetchWorksForPerson(person: Person): Promise<PersonPublication[]>
 }
 
 async function main(): Promise<void> {
-  const outputDir = path.join(__dirname, '..', 'src', 'data', 'publications', 'openalex');
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
+  const personIndex = process.argv.indexOf('--person');
+  const personSlug = personIndex === -1 ? undefined : process.argv[personIndex + 1];
+  const peopleWithOrcid = allPeople.filter(
+    (p) => p.orcidId && (!personSlug || p.slug === personSlug)
+  );
+  if (personSlug && peopleWithOrcid.length === 0) {
+    throw new Error(`No person with slug '${personSlug}' and an ORCID iD`);
   }
 
-  const peopleWithOrcid = allPeople.filter((p) => p.orcidId);
-
-  console.log(`Found ${peopleWithOrcid.length} people with ORCID. Fetching OpenAlex works...`);
-
-  for (const person of peopleWithOrcid) {
-    try {
-      console.log(`→ Fetching works for ${person.name} (${person.orcidId})`);
-
-      const works = await fetchWorksForPerson(person);
+  console.log(`Found ${peopleWithOrcid.length} people with ORCID. Syncing OpenAlex works...`);
 
-      const snapshot: PersonPublicationsSnapshot = {
-        slug: person.slug,
-        orcidId: person.orcidId,
-        updatedAt: new Date().toISOString(),
-        works,
-      };
-
-      const outPath = path.join(outputDir, `${person.slug}.json`);
-      fs.writeFileSync(outPath, JSON.stringify(snapshot, null, 2), 'utf-8');
-
-      console.log(`   Saved ${works.length} works to ${outPath}`);
-    } catch (error) {
-      console.error(`   Error fetching works for ${person.name}:`, error);
-    }
-
-    // Small delay between requests to be polite
-    await delay(1000);
-  }
+  await runSnapshotSync(
+    {
+      origin: 'openalex',
+      people: peopleWithOrcid,
+      fetchWorks: fetchWorksForPerson,
+      isHarvestedId: (id) => id.startsWith('https://openalex.org/'),
+    },
+    { dryRun: process.argv.includes('--dry-run') }
+  );
 
-  console.log('Done updating OpenAlex publication snapshots.');
+  console.log('Done syncing OpenAlex publication snapshots.');
 }
 
 main().catch((error) => {
@@ -1,13 +1,17 @@
-/* scripts/update_orcid_publications.ts */
+/* scripts/update_orcid_publications.ts
+ *
+ * Syncs src/data/publications/orcid/<slug>.json for people whose publicationSource is
+ * 'orcid', and writes a change report (see publication_sync.ts). The ORCID works endpoint
+ * returns a person's full work list in one response, so no paging is needed.
+ *
+ * Usage: npm run update:orcid [-- --dry-run]
+ */
 
-import fs from 'node:fs';
-import path from 'node:path';
-import { fileURLToPath } from 'node:url';
 import { allPeople } from '../src/data/people.js';
-import type { PersonPublication, PersonPublicationsSnapshot } from '../src/data/publications.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import type { PersonPublication } from '../src/data/publications.js';
+import { fromOrcidType } from '../src/utils/publicationTypes.js';
+import { createHarvestClient } from './harvest_client.js';
+import { runSnapshotSync } from './publication_sync.js';
 
 // ORCID API configuration
 const ORCID_API_BASE = process.env.ORCID_API_BASE ?? 'https://pub.orcid.org/v3.0';
@@ -16,6 +20,8 @@ const ORCID_PUBLIC_TOKEN = process.env.ORCID_PUBLIC_TOKEN;
 interface OrcidWorkSummary {
   'put-code'?: number;
   path?: string;
+  type?: string; // e.g. "journal-article", "preprint", "data-set"
+
   title?: {
     title?: { value?: string };
     subtitle?: { value?: string };
@@ -41,33 +47,21 @@ interface OrcidWorksResponse {
   [key: string]: unknown;
 }
 
-// Basic rate limiting / politeness
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+// Rate limiting, retries and caching are handled by the client
+const orcid = createHarvestClient({
+  name: 'ORCID',
+  headers: ORCID_PUBLIC_TOKEN ? { Authorization: `Bearer ${ORCID_PUBLIC_TOKEN}` } : {},
+  minIntervalMs: 1000,
+});
 
 async function fetchOrcidWorks(orcidId: string): Promise<OrcidWorksResponse> {
-  const headers: Record<string, string> = {
-    Accept: 'application/json',
-  };
-
-  if (ORCID_PUBLIC_TOKEN) {
-    headers.Authorization = `Bearer ${ORCID_PUBLIC_TOKEN}`;
-  } else {
+  if (!ORCID_PUBLIC_TOKEN) {
     console.warn(
       `Warning: No ORCID_PUBLIC_TOKEN set. Making unauthenticated request for ${orcidId}.`
     );
   }
 
-  const url = `${ORCID_API_BASE}/${orcidId}/works`;
-
-  const response = await fetch(url, { headers });
-
-  if (!response.ok) {
-    throw new Error(`ORCID API error for ${orcidId}: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json() as Promise<OrcidWorksResponse>;
+  return orcid.getJson<OrcidWorksResponse>(`${ORCID_API_BASE}/${orcidId}/works`);
 }
 
 function mapOrcidWorksToPublicationWorks(
@@ -118,6 +112,7 @@ function mapOrcidWorksToPublicationWorks(
         venue,
         doi,
         openAccessUrl,
+        type: fromOrcidType(summary.type),
       });
     }
   }
@@ -126,45 +121,25 @@ function mapOrcidWorksToPublicationWorks(
 }
 
 async function main(): Promise<void> {
-  const outputDir = path.join(__dirname, '..', 'src', 'data', 'publications', 'orcid');
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
-  }
-
   // Filter to people who have ORCID and want ORCID as their source
   const targets = allPeople.filter((p) => p.orcidId && p.publicationSource === 'orcid');
 
   console.log(
-    `Found ${targets.length} people with ORCID as publication source. Fetching ORCID works...`
+    `Found ${targets.length} people with ORCID as publication source. Syncing ORCID works...`
   );
 
-  for (const person of targets) {
-    try {
-      console.log(`→ Fetching works for ${person.name} (${person.orcidId})`);
-
-      const json = await fetchOrcidWorks(person.orcidId!);
-      const works = mapOrcidWorksToPublicationWorks(person.orcidId!, json);
-
-      const snapshot: PersonPublicationsSnapshot = {
-        slug: person.slug,
-        orcidId: person.orcidId,
-        updatedAt: new Date().toISOString(),
-        works,
-      };
-
-      const outPath = path.join(outputDir, `${person.slug}.json`);
-      fs.writeFileSync(outPath, JSON.stringify(snapshot, null, 2), 'utf-8');
-
-      console.log(`   Saved ${works.length} works to ${outPath}`);
-    } catch (error) {
-      console.error(`   Error fetching works for ${person.name}:`, error);
-    }
-
-    // Small delay between requests to be polite
-    await delay(1000);
-  }
+  await runSnapshotSync(
+    {
+      origin: 'orcid',
+      people: targets,
+      fetchWorks: async (person) =>
+        mapOrcidWorksToPublicationWorks(person.orcidId!, await fetchOrcidWorks(person.orcidId!)),
+      isHarvestedId: (id) => id.startsWith('orcid:'),
+    },
+    { dryRun: process.argv.includes('--dry-run') }
+  );
 
-  console.log('Done updating ORCID publication snapshots.');
+  console.log('Done syncing ORCID publication snapshots.');
 }
 
 main().catch((error) => {
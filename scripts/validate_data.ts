@@ -0,0 +1,461 @@
+/* scripts/validate_data.ts
+ *
+ * Checks the site data for problems TypeScript types cannot catch:
+ * - project, example, person, report and showcase slugs/ids are unique and URL-safe
+ * - person themeSlugs point at real projects
+ * - project and example publicationIds resolve through the publication store
+ * - image, logo and document paths exist in public/
+ * - ORCID iDs are well formed with a valid check digit
+ * - OpenAlex author IDs are well formed, and IDs and name aliases belong to one person only
+ * - publication snapshot and DOI files are well formed and belong to known people
+ * - publication overrides match a publication, have an audit note and name real themes
+ * - research outputs (software, datasets, workshops, talks) link real people and themes
+ * - author match review decisions name real people, publications and authors
+ *
+ * Run with: npm run validate:data
+ * Exits with status 1 if any errors are found (warnings alone do not fail).
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { authorMatchReview } from '../src/data/authorMatchReview.js';
+import { heroShowcases } from '../src/data/heroShowcases.js';
+import { partners } from '../src/data/partners.js';
+import { allPeople } from '../src/data/people.js';
+import { publicationOverrides } from '../src/data/publicationOverrides.js';
+import {
+  PUBLICATION_TYPE_LABELS,
+  type PersonPublication,
+  type PersonPublicationsSnapshot,
+} from '../src/data/publications.js';
+import { currentForwardPlan, reports } from '../src/data/reports.js';
+import { RESEARCH_OUTPUT_KIND_LABELS, researchOutputs } from '../src/data/researchOutputs.js';
+import { researchProjects } from '../src/data/researchProjects.js';
+import { isDoiReference } from '../src/utils/doi.js';
+import { createPublicationStore } from '../src/utils/publicationStore.js';
+import { readPublicationData, readPublicationFiles } from './publication_store.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PUBLIC_DIR = path.join(__dirname, '..', 'public');
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const ORCID_PATTERN = /^\d{4}-\d{4}-\d{4}-\d{3}[\dX]$/;
+const OPENALEX_AUTHOR_PATTERN = /^https:\/\/openalex\.org\/A\d+$/;
+
+interface ValidationIssue {
+  level: 'error' | 'warning';
+  where: string; // e.g. "project live-research-articles"
+  message: string;
+}
+
+const issues: ValidationIssue[] = [];
+
+function error(where: string, message: string): void {
+  issues.push({ level: 'error', where, message });
+}
+
+function warning(where: string, message: string): void {
+  issues.push({ level: 'warning', where, message });
+}
+
+/**
+ * Checks that a list of slugs/ids is unique and URL-safe
+ */
+function checkSlugs(kind: string, slugs: string[]): void {
+  const seen = new Set<string>();
+  for (const slug of slugs) {
+    if (!SLUG_PATTERN.test(slug)) {
+      error(`${kind} ${slug}`, 'slug must be lowercase letters, digits and single hyphens');
+    }
+    if (seen.has(slug)) {
+      error(`${kind} ${slug}`, 'duplicate slug');
+    }
+    seen.add(slug);
+  }
+}
+
+/**
+ * Checks that a site path (e.g. '/photos/x.webp' or 'projects/x.pdf') exists in public/
+ * External URLs are not checked.
+ */
+function checkPublicFile(where: string, field: string, sitePath: string | undefined): void {
+  if (!sitePath || /^(https?:)?\/\//i.test(sitePath)) return;
+  const file = path.join(PUBLIC_DIR, decodeURI(sitePath.split(/[?#]/)[0]));
+  if (!fs.existsSync(file)) {
+    error(where, `${field} not found in public/: ${sitePath}`);
+  }
+}
+
+/**
+ * Checks an ORCID iD's format and ISO 7064 MOD 11-2 check digit
+ * @returns True if the iD is valid
+ */
+function isValidOrcidId(orcidId: string): boolean {
+  if (!ORCID_PATTERN.test(orcidId)) return false;
+
+  const digits = orcidId.replace(/-/g, '');
+  let total = 0;
+  for (const digit of digits.slice(0, -1)) {
+    total = (total + Number(digit)) * 2;
+  }
+  const result = (12 - (total % 11)) % 11;
+  const checkDigit = result === 10 ? 'X' : String(result);
+
+  return digits.endsWith(checkDigit);
+}
+
+function validateProjects(): void {
+  checkSlugs(
+    'project',
+    researchProjects.map((project) => project.slug)
+  );
+
+  const store = createPublicationStore(readPublicationData());
+
+  for (const project of researchProjects) {
+    const where = `project ${project.slug}`;
+    checkPublicFile(where, 'heroImageUrl', project.heroImageUrl);
+    checkPublicFile(where, 'imageUrl', project.imageUrl);
+
+    for (const publicationId of project.publicationIds ?? []) {
+      if (!store.get(publicationId)) {
+        error(where, `publicationId does not resolve: ${publicationId}`);
+      }
+    }
+
+    checkSlugs(
+      `example in ${project.slug}:`,
+      (project.examples ?? []).map((example) => example.slug)
+    );
+    for (const example of project.examples ?? []) {
+      const exampleWhere = `example ${project.slug}/${example.slug}`;
+      if (example.showcaseKind && example.showcaseKind !== 'html' && !example.showcaseSource) {
+        error(exampleWhere, `showcaseKind '${example.showcaseKind}' needs a showcaseSource`);
+      }
+      if (example.showcaseKind !== 'html') {
+        checkPublicFile(exampleWhere, 'showcaseSource', example.showcaseSource);
+      }
+      for (const publicationId of example.publicationIds ?? []) {
+        if (!store.get(publicationId)) {
+          error(exampleWhere, `publicationId does not resolve: ${publicationId}`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Normalizes a person name or alias for duplicate checks
+ */
+function normalizePersonName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[.,()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function validatePeople(): void {
+  checkSlugs(
+    'person',
+    allPeople.map((person) => person.slug)
+  );
+
+  const projectSlugs = new Set(researchProjects.map((project) => project.slug));
+  const orcidOwners = new Map<string, string>();
+  const openAlexIdOwners = new Map<string, string>();
+  const nameOwners = new Map<string, string>();
+  for (const person of allPeople) {
+    nameOwners.set(normalizePersonName(person.name), person.slug);
+  }
+
+  for (const person of allPeople) {
+    const where = `person ${person.slug}`;
+    checkPublicFile(where, 'photoUrl', person.photoUrl);
+
+    for (const themeSlug of person.themeSlugs ?? []) {
+      if (!projectSlugs.has(themeSlug)) {
+        error(where, `themeSlugs entry is not a project slug: ${themeSlug}`);
+      }
+    }
+
+    if (person.orcidId) {
+      if (!isValidOrcidId(person.orcidId)) {
+        error(where, `invalid ORCID iD (format or check digit): ${person.orcidId}`);
+      }
+      const owner = orcidOwners.get(person.orcidId);
+      if (owner) {
+        error(where, `ORCID iD ${person.orcidId} is also used by ${owner}`);
+      }
+      orcidOwners.set(person.orcidId, person.slug);
+    } else if (person.publicationSource === 'orcid') {
+      error(where, "publicationSource is 'orcid' but there is no orcidId");
+    }
+
+    for (const openAlexId of person.openAlexIds ?? []) {
+      if (!OPENALEX_AUTHOR_PATTERN.test(openAlexId)) {
+        error(where, `OpenAlex author ID is not an https://openalex.org/A… URL: ${openAlexId}`);
+      }
+      const owner = openAlexIdOwners.get(openAlexId);
+      if (owner) {
+        error(where, `OpenAlex author ID ${openAlexId} is also used by ${owner}`);
+      }
+      openAlexIdOwners.set(openAlexId, person.slug);
+    }
+
+    for (const alias of person.aliases ?? []) {
+      const owner = nameOwners.get(normalizePersonName(alias));
+      if (owner && owner !== person.slug) {
+        error(where, `alias '${alias}' is also the name or an alias of ${owner}`);
+      }
+      nameOwners.set(normalizePersonName(alias), person.slug);
+    }
+  }
+}
+
+function validateReports(): void {
+  checkSlugs(
+    'report',
+    reports.map((report) => report.slug)
+  );
+
+  for (const document of [...reports, currentForwardPlan]) {
+    const where = `report ${document.slug}`;
+    if (document.fromYear > document.toYear) {
+      error(where, `fromYear ${document.fromYear} is after toYear ${document.toYear}`);
+    }
+    checkPublicFile(where, 'htmlPartialPath', document.htmlPartialPath);
+    checkPublicFile(where, 'docxPath', document.docxPath);
+    if ('pdfPath' in document) {
+      checkPublicFile(where, 'pdfPath', document.pdfPath);
+    }
+  }
+}
+
+function validateShowcasesAndPartners(): void {
+  checkSlugs(
+    'hero showcase',
+    heroShowcases.map((showcase) => showcase.id)
+  );
+
+  for (const showcase of heroShowcases) {
+    const where = `hero showcase ${showcase.id}`;
+    const requiredField = {
+      image: 'imageUrl',
+      iframe: 'iframeSrc',
+      video: 'videoSrc',
+      html: 'html',
+    }[showcase.kind] as keyof typeof showcase;
+    if (!showcase[requiredField]) {
+      error(where, `kind '${showcase.kind}' needs ${requiredField}`);
+    }
+    checkPublicFile(where, 'imageUrl', showcase.imageUrl);
+    checkPublicFile(where, 'videoSrc', showcase.videoSrc);
+  }
+
+  for (const partner of partners) {
+    checkPublicFile(`partner ${partner.name}`, 'logoSrc', partner.logoSrc);
+  }
+}
+
+/**
+ * Checks a publication record has the fields every page relies on
+ */
+function checkPublicationRecord(where: string, publication: PersonPublication): void {
+  if (!publication.id && !publication.doi) {
+    error(where, 'publication has neither id nor doi');
+  }
+  if (!publication.title?.trim()) {
+    error(where, `publication ${publication.id ?? publication.doi} has no title`);
+  }
+  if (publication.year !== undefined && !Number.isInteger(publication.year)) {
+    error(where, `publication ${publication.id} has a non-integer year: ${publication.year}`);
+  }
+  if (publication.type !== undefined && !Object.hasOwn(PUBLICATION_TYPE_LABELS, publication.type)) {
+    error(where, `publication ${publication.id} has an unknown type: ${publication.type}`);
+  }
+}
+
+function validatePublicationFiles(): void {
+  const peopleBySlug = new Map(allPeople.map((person) => [person.slug, person]));
+
+  for (const subdir of ['openalex', 'orcid']) {
+    for (const [name, snapshot] of readPublicationFiles<PersonPublicationsSnapshot>(subdir)) {
+      const where = `${subdir}/${name}.json`;
+      const person = peopleBySlug.get(name);
+
+      if (snapshot.slug !== name) {
+        error(where, `slug '${snapshot.slug}' does not match the file name`);
+      }
+      if (!person) {
+        warning(where, 'no person with this slug');
+      } else if (snapshot.orcidId && person.orcidId && snapshot.orcidId !== person.orcidId) {
+        error(where, `orcidId ${snapshot.orcidId} does not match the person's ${person.orcidId}`);
+      }
+      if (!Array.isArray(snapshot.works)) {
+        error(where, 'works is not an array');
+        continue;
+      }
+      for (const work of snapshot.works) {
+        checkPublicationRecord(where, work);
+      }
+    }
+  }
+
+  for (const [name, publication] of readPublicationFiles<PersonPublication>('doi')) {
+    checkPublicationRecord(`doi/${name}.json`, publication);
+  }
+}
+
+function validateOverrides(): void {
+  // Match against the records as harvested, so hidden works still resolve
+  const rawStore = createPublicationStore(readPublicationData(), researchProjects, []);
+  const projectSlugs = new Set(researchProjects.map((project) => project.slug));
+  const seen = new Set<string>();
+
+  for (const override of publicationOverrides) {
+    const where = `override ${override.id}`;
+    const publication = rawStore.get(override.id);
+    if (!publication) {
+      error(where, 'matches no publication');
+    } else if (seen.has(publication.id)) {
+      warning(where, 'another override matches the same publication');
+    }
+    if (publication) seen.add(publication.id);
+
+    if (!override.note?.trim()) {
+      error(where, 'needs an audit note');
+    }
+    if (!override.hide && !override.patch && !override.themeSlugs?.length) {
+      warning(where, 'does not patch, hide or add theme associations');
+    }
+    for (const themeSlug of override.themeSlugs ?? []) {
+      if (!projectSlugs.has(themeSlug)) {
+        error(where, `themeSlugs entry is not a project slug: ${themeSlug}`);
+      }
+    }
+  }
+}
+
+function validateResearchOutputs(): void {
+  checkSlugs(
+    'research output',
+    researchOutputs.map((output) => output.slug)
+  );
+
+  const personSlugs = new Set(allPeople.map((person) => person.slug));
+  const projectSlugs = new Set(researchProjects.map((project) => project.slug));
+
+  for (const output of researchOutputs) {
+    const where = `research output ${output.slug}`;
+    if (!Object.hasOwn(RESEARCH_OUTPUT_KIND_LABELS, output.kind)) {
+      error(where, `unknown kind: ${output.kind}`);
+    }
+    if (!output.title.trim()) {
+      error(where, 'has no title');
+    }
+    if (!Number.isInteger(output.year)) {
+      error(where, `non-integer year: ${output.year}`);
+    }
+    for (const field of ['url', 'repositoryUrl'] as const) {
+      const url = output[field];
+      if (url !== undefined && !/^https?:\/\//i.test(url)) {
+        error(where, `${field} is not an http(s) URL: ${url}`);
+      }
+    }
+    if (output.doi !== undefined && !isDoiReference(output.doi)) {
+      error(where, `doi is not a DOI: ${output.doi}`);
+    }
+    if (
+      (output.kind === 'software' || output.kind === 'dataset') &&
+      !output.url &&
+      !output.repositoryUrl &&
+      !output.doi
+    ) {
+      warning(where, `${output.kind} has no url, repositoryUrl or doi to link to`);
+    }
+
+    for (const personSlug of output.personSlugs) {
+      if (!personSlugs.has(personSlug)) {
+        error(where, `personSlugs entry is not a person slug: ${personSlug}`);
+      }
+    }
+    if (output.personSlugs.length === 0 && !output.contributors?.length) {
+      warning(where, 'lists no people or contributors');
+    }
+    if (output.themeSlugs.length === 0) {
+      warning(where, 'belongs to no research theme');
+    }
+    for (const themeSlug of output.themeSlugs) {
+      if (!projectSlugs.has(themeSlug)) {
+        error(where, `themeSlugs entry is not a project slug: ${themeSlug}`);
+      }
+    }
+  }
+}
+
+function validateAuthorMatchReview(): void {
+  const store = createPublicationStore(readPublicationData());
+  const personSlugs = new Set(allPeople.map((person) => person.slug));
+  const seen = new Set<string>();
+
+  for (const entry of authorMatchReview.entries) {
+    const where = `author match review ${entry.publicationId} "${entry.authorName}" → ${entry.personSlug}`;
+    if (!['pending', 'accepted', 'rejected'].includes(entry.decision)) {
+      error(where, `unknown decision: ${entry.decision}`);
+    }
+    if (!personSlugs.has(entry.personSlug)) {
+      error(where, 'personSlug is not a person slug');
+    }
+
+    const key = `${entry.publicationId}\n${entry.authorName}\n${entry.personSlug}`;
+    if (seen.has(key)) {
+      error(where, 'duplicate entry');
+    }
+    seen.add(key);
+
+    if (entry.decision === 'pending') continue;
+    const publication =
+      store.get(entry.publicationId) ?? (entry.doi ? store.get(entry.doi) : undefined);
+    if (!publication) {
+      warning(where, 'matches no publication; the decision has no effect');
+    } else if (!publication.authors?.some((author) => author.name === entry.authorName)) {
+      warning(where, 'the publication has no author with this name; the decision has no effect');
+    }
+    if (!entry.note?.trim()) {
+      warning(where, 'decision has no note saying how it was checked');
+    }
+  }
+}
+
+function main(): void {
+  console.log('Validating site data...\n');
+
+  validateProjects();
+  validatePeople();
+  validateReports();
+  validateShowcasesAndPartners();
+  validatePublicationFiles();
+  validateOverrides();
+  validateResearchOutputs();
+  validateAuthorMatchReview();
+
+  const errors = issues.filter((issue) => issue.level === 'error');
+  const warnings = issues.filter((issue) => issue.level === 'warning');
+
+  for (const issue of [...errors, ...warnings]) {
+    const icon = issue.level === 'error' ? '❌' : '⚠️ ';
+    console.log(`${icon} ${issue.where}: ${issue.message}`);
+  }
+
+  console.log(`\n${errors.length} error(s), ${warnings.length} warning(s)`);
+  if (errors.length > 0) {
+    process.exit(1);
+  }
+  console.log('✅ Site data is valid');
+}
+
+main();
@@ -83,7 +83,7 @@ function renderAboutPage(): void {
           <section class="mt-5">
             <h2 class="h4 mb-3">Principal and Co-Principal Investigators</h2>
             <div class="row g-3">
-              ${allPIs.map(renderPersonCard).join('')}
+              ${allPIs.map((person) => renderPersonCard(person)).join('')}
             </div>
           </section>
         `
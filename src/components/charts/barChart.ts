@@ -0,0 +1,246 @@
+/**
+ * Bar and stacked bar charts
+ */
+
+import {
+  CHART_WIDTH,
+  addMarkInteraction,
+  createChartSvg,
+  createSvgElement,
+  createTooltip,
+  formatTooltip,
+  getChartColour,
+  getNiceScale,
+  renderAxisLine,
+  renderCategoryTable,
+  renderLegend,
+  renderValueAxis,
+  truncateLabel,
+  type ChartTooltip,
+  type LegendItem,
+} from './chartElements';
+import type { BarChartOptions, CategoryChartData, StackedBarChartOptions } from './types';
+
+const VERTICAL_HEIGHT = 320;
+const MAX_LABEL_LENGTH = 44; // horizontal bar labels are truncated beyond this
+const TOTAL_LINE_COLOUR = '#dc3545'; // Bootstrap danger red
+
+/**
+ * Renders a bar chart
+ * With more than one series, each category gets a group of bars side by side.
+ * @param container - Element to render into (the chart, legend and table are appended)
+ * @param data - Categories and their values per series
+ * @param options - Title, description, orientation and labelling
+ */
+export function renderBarChart(
+  container: HTMLElement,
+  data: CategoryChartData,
+  options: BarChartOptions
+): void {
+  renderBars(container, data, options, false);
+}
+
+/**
+ * Renders a stacked bar chart: one bar per category, with a segment per series
+ * @param container - Element to render into (the chart, legend and table are appended)
+ * @param data - Categories and their values per series (stacked in series order)
+ * @param options - Title, description, orientation, labelling and an optional total line
+ */
+export function renderStackedBarChart(
+  container: HTMLElement,
+  data: CategoryChartData,
+  options: StackedBarChartOptions
+): void {
+  renderBars(container, data, options, true);
+}
+
+/**
+ * Renders grouped or stacked bars
+ */
+function renderBars(
+  container: HTMLElement,
+  data: CategoryChartData,
+  options: StackedBarChartOptions,
+  stacked: boolean
+): void {
+  const isVertical = (options.orientation ?? 'vertical') === 'vertical';
+  const categoryCount = Math.max(1, data.categories.length);
+  const seriesCount = data.series.length;
+  const colours = data.series.map((series, index) => getChartColour(series.colour, index));
+  const totals = data.categories.map((_, index) =>
+    data.series.reduce((sum, series) => sum + (series.values[index] ?? 0), 0)
+  );
+  const scale = getNiceScale(
+    stacked ? Math.max(0, ...totals) : Math.max(0, ...data.series.flatMap((s) => s.values))
+  );
+
+  // Categories run along the x-axis (vertical bars) or down the y-axis (horizontal bars)
+  const labelLength = Math.max(
+    0,
+    ...data.categories.map((category) => Math.min(category.length, MAX_LABEL_LENGTH))
+  );
+  const margin = isVertical
+    ? { top: 16, right: 16, bottom: 40, left: 52 }
+    : { top: 8, right: 48, bottom: 28, left: Math.min(290, 16 + labelLength * 6.5) };
+  const plotWidth = CHART_WIDTH - margin.left - margin.right;
+  const bandCount = stacked ? 1 : Math.max(1, seriesCount);
+  const slot = isVertical ? plotWidth / categoryCount : bandCount > 1 ? 12 * bandCount + 12 : 32;
+  const plotHeight = isVertical
+    ? VERTICAL_HEIGHT - margin.top - margin.bottom
+    : slot * categoryCount;
+  const groupSize = isVertical
+    ? Math.min(48 * bandCount, slot * (stacked ? 0.6 : 0.8))
+    : slot * (stacked ? 0.65 : 0.8);
+  const band = groupSize / bandCount;
+  const toLength = (value: number): number =>
+    (value / scale.max) * (isVertical ? plotHeight : plotWidth);
+
+  const svg = createChartSvg(CHART_WIDTH, plotHeight + margin.top + margin.bottom, options);
+  const g = createSvgElement('g', { transform: `translate(${margin.left},${margin.top})` });
+  svg.appendChild(g);
+  const tooltip = createTooltip(container);
+
+  renderValueAxis(
+    g,
+    scale,
+    isVertical ? (value) => plotHeight - toLength(value) : toLength,
+    isVertical ? plotWidth : plotHeight,
+    isVertical ? 'vertical' : 'horizontal'
+  );
+
+  data.categories.forEach((category, categoryIndex) => {
+    const groupStart = slot * categoryIndex + (slot - groupSize) / 2;
+    let base = 0;
+    data.series.forEach((series, seriesIndex) => {
+      const value = series.values[categoryIndex] ?? 0;
+      const start = stacked ? base : 0;
+      const offset = groupStart + (stacked ? 0 : seriesIndex * band);
+      const length = toLength(start + value) - toLength(start);
+      if (value > 0) {
+        const rect = createSvgElement(
+          'rect',
+          isVertical
+            ? {
+                x: offset,
+                y: plotHeight - toLength(start + value),
+                width: band,
+                height: length,
+              }
+            : { x: toLength(start), y: offset, width: length, height: band }
+        );
+        rect.setAttribute('fill', colours[seriesIndex]);
+        rect.setAttribute('stroke', '#fff');
+        rect.setAttribute('stroke-width', '1');
+        addMarkInteraction(
+          rect,
+          container,
+          tooltip,
+          seriesIndex,
+          formatTooltip(
+            category,
+            value,
+            options,
+            seriesCount > 1 ? series.label : undefined,
+            stacked && seriesCount > 1 ? totals[categoryIndex] : undefined
+          )
+        );
+        g.appendChild(rect);
+      }
+      base += value;
+    });
+
+    const label = createSvgElement(
+      'text',
+      isVertical
+        ? { x: slot * categoryIndex + slot / 2, y: plotHeight + 20, 'text-anchor': 'middle' }
+        : { x: -10, y: slot * categoryIndex + slot / 2 + 4, 'text-anchor': 'end' }
+    );
+    label.setAttribute('font-size', '12');
+    label.setAttribute('fill', '#333');
+    label.textContent = isVertical ? category : truncateLabel(category, MAX_LABEL_LENGTH);
+    g.appendChild(label);
+
+    // Horizontal bars are labelled with their total at the end
+    if (!isVertical && (stacked || seriesCount === 1)) {
+      const totalLabel = createSvgElement('text', {
+        x: toLength(totals[categoryIndex]) + 6,
+        y: slot * categoryIndex + slot / 2 + 4,
+        'font-size': 12,
+        fill: '#6c757d',
+      });
+      totalLabel.textContent = totals[categoryIndex].toLocaleString();
+      g.appendChild(totalLabel);
+    }
+  });
+
+  if (isVertical) {
+    renderAxisLine(g, 0, plotHeight, plotWidth, plotHeight);
+  } else {
+    renderAxisLine(g, 0, 0, 0, plotHeight);
+  }
+
+  const legendItems: LegendItem[] = data.series.map((series, index) => ({
+    label: series.label,
+    colour: colours[index],
+    series: index,
+  }));
+  if (stacked && isVertical && options.totalLine && data.categories.length > 1) {
+    renderTotalLine(
+      g,
+      tooltip,
+      data.categories,
+      totals,
+      data.categories.map((_, index) => slot * index + slot / 2),
+      (total) => plotHeight - toLength(total),
+      options
+    );
+    legendItems.unshift({ label: options.totalLine, colour: TOTAL_LINE_COLOUR, marker: 'line' });
+  }
+
+  container.appendChild(svg);
+  if (options.showLegend ?? legendItems.length > 1) renderLegend(container, legendItems);
+  if (options.showTable ?? true) {
+    renderCategoryTable(container, data, options, stacked && seriesCount > 1);
+  }
+}
+
+/**
+ * Draws a dashed line through the stack totals, with a point per category
+ */
+function renderTotalLine(
+  g: SVGGElement,
+  tooltip: ChartTooltip,
+  categories: string[],
+  totals: number[],
+  xs: number[],
+  y: (total: number) => number,
+  options: StackedBarChartOptions
+): void {
+  g.appendChild(
+    createSvgElement('path', {
+      d: totals.map((total, index) => `${index ? 'L' : 'M'} ${xs[index]} ${y(total)}`).join(' '),
+      fill: 'none',
+      stroke: TOTAL_LINE_COLOUR,
+      'stroke-width': 3,
+      'stroke-dasharray': '5,5',
+      opacity: 0.8,
+      'pointer-events': 'none',
+    })
+  );
+
+  totals.forEach((total, index) => {
+    const point = createSvgElement('circle', {
+      cx: xs[index],
+      cy: y(total),
+      r: 5,
+      fill: TOTAL_LINE_COLOUR,
+      stroke: '#fff',
+      'stroke-width': 2,
+    });
+    point.classList.add('bp-chart-mark');
+    const html = formatTooltip(categories[index], total, options, options.totalLine);
+    point.addEventListener('mousemove', (event) => tooltip.show(event, html));
+    point.addEventListener('mouseleave', tooltip.hide);
+    g.appendChild(point);
+  });
+}
@@ -0,0 +1,324 @@
+/**
+ * Building blocks shared by the chart renderers: SVG setup, scales, tooltips, legends and
+ * the data table fallback
+ */
+
+import { renderCsvTableHtml } from '../../utils/csv';
+import { escapeHtml } from '../../utils/dom';
+import type { CategoryChartData, ChartOptions } from './types';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// viewBox width of every chart; the SVG scales to its container
+export const CHART_WIDTH = 800;
+
+// Default series colours (Bootstrap palette), used in order
+export const CHART_COLOURS = [
+  '#0d6efd', // blue
+  '#198754', // green
+  '#6f42c1', // purple
+  '#0dcaf0', // cyan
+  '#fd7e14', // orange
+  '#20c997', // teal
+  '#6c757d', // gray
+  '#adb5bd', // light gray
+];
+
+/**
+ * A legend entry
+ */
+export interface LegendItem {
+  label: string;
+  colour: string;
+  marker?: 'swatch' | 'line'; // default: swatch
+  series?: number; // series index to highlight on hover
+}
+
+/**
+ * Tooltip handlers for chart marks
+ */
+export interface ChartTooltip {
+  show: (event: MouseEvent, html: string) => void;
+  hide: () => void;
+}
+
+let chartCount = 0;
+
+/**
+ * Gets a series colour, falling back to the palette
+ * @param colour - The series' own colour, if any
+ * @param index - The series' position
+ */
+export function getChartColour(colour: string | undefined, index: number): string {
+  return colour ?? CHART_COLOURS[index % CHART_COLOURS.length];
+}
+
+/**
+ * Creates an SVG element with attributes
+ */
+export function createSvgElement<K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  attributes: Record<string, string | number> = {}
+): SVGElementTagNameMap[K] {
+  const element = document.createElementNS(SVG_NS, tag);
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, String(value));
+  }
+  return element;
+}
+
+/**
+ * Rounds a maximum up to a round number and picks a tick step for it
+ */
+export function getNiceScale(max: number): { max: number; step: number } {
+  if (max <= 0) return { max: 1, step: 1 };
+  const rough = max / 5;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = Math.max(
+    1,
+    [1, 2, 5, 10].map((factor) => factor * magnitude).find((s) => s >= rough) ?? 10 * magnitude
+  );
+  return { max: Math.ceil(max / step) * step, step };
+}
+
+/**
+ * Creates the chart SVG with its accessible title and description
+ */
+export function createChartSvg(
+  width: number,
+  height: number,
+  options: ChartOptions
+): SVGSVGElement {
+  const svg = createSvgElement('svg', { viewBox: `0 0 ${width} ${height}`, role: 'img' });
+  svg.classList.add('bp-chart');
+
+  const id = `bp-chart-${++chartCount}`;
+  const title = createSvgElement('title', { id: `${id}-title` });
+  title.textContent = options.title;
+  const desc = createSvgElement('desc', { id: `${id}-desc` });
+  desc.textContent = options.description;
+  svg.append(title, desc);
+  svg.setAttribute('aria-labelledby', `${id}-title ${id}-desc`);
+  return svg;
+}
+
+/**
+ * Adds a tooltip to a chart container
+ */
+export function createTooltip(container: HTMLElement): ChartTooltip {
+  const tooltip = document.createElement('div');
+  tooltip.className = 'bp-chart-tooltip';
+  container.classList.add('bp-chart-container');
+  container.appendChild(tooltip);
+
+  return {
+    show: (event, html) => {
+      const bounds = container.getBoundingClientRect();
+      tooltip.innerHTML = html;
+      tooltip.style.left = `${event.clientX - bounds.left + 10}px`;
+      tooltip.style.top = `${event.clientY - bounds.top + 10}px`;
+      tooltip.style.visibility = 'visible';
+    },
+    hide: () => {
+      tooltip.style.visibility = 'hidden';
+    },
+  };
+}
+
+/**
+ * Formats a value with its unit, e.g. "1,259 participants"
+ */
+export function formatChartValue(value: number, unit?: [string, string]): string {
+  const text = value.toLocaleString();
+  return unit ? `${text} ${value === 1 ? unit[0] : unit[1]}` : text;
+}
+
+/**
+ * Formats a mark's tooltip
+ * @param category - Category (or slice) label
+ * @param value - The mark's value
+ * @param options - Chart options (for the unit)
+ * @param series - Series label, when the chart has more than one
+ * @param total - The category's total, for stacked marks
+ */
+export function formatTooltip(
+  category: string,
+  value: number,
+  options: ChartOptions,
+  series?: string,
+  total?: number
+): string {
+  const label = series ? ` – ${escapeHtml(series)}` : '';
+  const totalText =
+    total === undefined ? '' : ` (total ${escapeHtml(formatChartValue(total, options.unit))})`;
+  return `<strong>${escapeHtml(category)}</strong>${label}: <strong>${escapeHtml(formatChartValue(value, options.unit))}</strong>${totalText}`;
+}
+
+/**
+ * Highlights one series' marks and legend entry, dimming the other series
+ * @param container - The chart container
+ * @param series - Series index, or null to clear the highlight
+ */
+export function highlightSeries(container: HTMLElement, series: number | null): void {
+  container.querySelectorAll<HTMLElement | SVGElement>('[data-series]').forEach((element) => {
+    const isSelected = element.dataset.series === String(series);
+    if (element instanceof SVGElement) {
+      element.classList.toggle('bp-chart-dimmed', series !== null && !isSelected);
+    } else {
+      element.classList.toggle('bp-chart-legend-active', isSelected);
+    }
+  });
+}
+
+/**
+ * Adds the tooltip and series highlight to a chart mark (bar, point or slice)
+ */
+export function addMarkInteraction(
+  mark: SVGElement,
+  container: HTMLElement,
+  tooltip: ChartTooltip,
+  series: number,
+  html: string
+): void {
+  mark.classList.add('bp-chart-mark');
+  mark.dataset.series = String(series);
+  mark.addEventListener('mouseenter', () => highlightSeries(container, series));
+  mark.addEventListener('mousemove', (event) => tooltip.show(event, html));
+  mark.addEventListener('mouseleave', () => {
+    highlightSeries(container, null);
+    tooltip.hide();
+  });
+}
+
+/**
+ * Draws the gridlines and labels of a value axis
+ * @param g - Plot area group
+ * @param scale - Axis scale (see getNiceScale)
+ * @param position - Maps a value to its x (horizontal) or y (vertical) coordinate
+ * @param length - Plot width (vertical axis) or height (horizontal axis)
+ * @param orientation - Whether values run up the chart or along it
+ */
+export function renderValueAxis(
+  g: SVGGElement,
+  scale: { max: number; step: number },
+  position: (value: number) => number,
+  length: number,
+  orientation: 'vertical' | 'horizontal'
+): void {
+  for (let value = 0; value <= scale.max; value += scale.step) {
+    const at = position(value);
+    const isVertical = orientation === 'vertical';
+    g.appendChild(
+      createSvgElement('line', {
+        x1: isVertical ? 0 : at,
+        x2: isVertical ? length : at,
+        y1: isVertical ? at : 0,
+        y2: isVertical ? at : length,
+        stroke: '#dee2e6',
+        'stroke-width': 1,
+      })
+    );
+    const label = createSvgElement('text', {
+      x: isVertical ? -8 : at,
+      y: isVertical ? at + 4 : length + 18,
+      'text-anchor': isVertical ? 'end' : 'middle',
+      'font-size': 12,
+      fill: '#6c757d',
+    });
+    label.textContent = value.toLocaleString();
+    g.appendChild(label);
+  }
+}
+
+/**
+ * Draws an axis line
+ */
+export function renderAxisLine(
+  g: SVGGElement,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): void {
+  g.appendChild(createSvgElement('line', { x1, y1, x2, y2, stroke: '#333', 'stroke-width': 2 }));
+}
+
+/**
+ * Renders the legend below a chart
+ * Hovering an entry with a series highlights that series.
+ */
+export function renderLegend(container: HTMLElement, items: LegendItem[]): void {
+  const legend = document.createElement('div');
+  legend.className = 'bp-chart-legend mt-2';
+  legend.innerHTML = items
+    .map(
+      (item) => `
+        <span class="bp-chart-legend-item d-inline-flex align-items-center me-3 small"${item.series === undefined ? '' : ` data-series="${item.series}"`}>
+          <span class="${item.marker === 'line' ? 'bp-chart-swatch-line' : 'bp-chart-swatch'} me-1" style="${item.marker === 'line' ? 'border-color' : 'background-color'}: ${escapeHtml(item.colour)}"></span>
+          ${escapeHtml(item.label)}
+        </span>`
+    )
+    .join('');
+
+  legend.querySelectorAll<HTMLElement>('[data-series]').forEach((entry) => {
+    const series = Number(entry.dataset.series);
+    entry.addEventListener('mouseenter', () => highlightSeries(container, series));
+    entry.addEventListener('mouseleave', () => highlightSeries(container, null));
+  });
+  container.appendChild(legend);
+}
+
+/**
+ * Renders the data table fallback below a chart
+ * @param container - The chart container
+ * @param headers - Column headings
+ * @param rows - One row per category (first column) with its values
+ */
+export function renderDataTable(
+  container: HTMLElement,
+  headers: string[],
+  rows: (string | number)[][]
+): void {
+  const details = document.createElement('details');
+  details.className = 'mt-2';
+  details.innerHTML = `
+    <summary class="small">Data table</summary>
+    <div class="mt-2">${renderCsvTableHtml({ headers, rows })}</div>
+  `;
+  container.appendChild(details);
+}
+
+/**
+ * Renders the data table for a category chart (one column per series)
+ * @param withTotal - Add a total column (stacked charts)
+ */
+export function renderCategoryTable(
+  container: HTMLElement,
+  data: CategoryChartData,
+  options: ChartOptions,
+  withTotal = false
+): void {
+  renderDataTable(
+    container,
+    [
+      options.categoryLabel ?? 'Category',
+      ...data.series.map((series) => series.label),
+      ...(withTotal ? ['Total'] : []),
+    ],
+    data.categories.map((category, index) => {
+      const values = data.series.map((series) => series.values[index] ?? 0);
+      return [
+        category,
+        ...values,
+        ...(withTotal ? [values.reduce((sum, value) => sum + value, 0)] : []),
+      ];
+    })
+  );
+}
+
+/**
+ * Truncates an axis label to fit beside a horizontal bar
+ */
+export function truncateLabel(label: string, maxLength: number): string {
+  return label.length > maxLength ? `${label.slice(0, maxLength - 1)}…` : label;
+}
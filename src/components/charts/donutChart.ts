@@ -0,0 +1,121 @@
+/**
+ * Donut charts
+ */
+
+import { escapeHtml } from '../../utils/dom';
+import {
+  addMarkInteraction,
+  createChartSvg,
+  createSvgElement,
+  createTooltip,
+  formatChartValue,
+  getChartColour,
+  renderDataTable,
+  renderLegend,
+} from './chartElements';
+import type { ChartOptions, DonutSlice } from './types';
+
+const SIZE = 320;
+const OUTER_RADIUS = 140;
+const INNER_RADIUS = 84;
+
+/**
+ * Formats a share of a total as a percentage
+ */
+function formatShare(value: number, total: number): string {
+  return total > 0 ? `${Math.round((value / total) * 100)}%` : '–';
+}
+
+/**
+ * Gets the SVG path of a donut segment between two angles (radians, clockwise from the top)
+ */
+function getSegmentPath(start: number, end: number): string {
+  const point = (radius: number, angle: number): string =>
+    `${SIZE / 2 + radius * Math.sin(angle)} ${SIZE / 2 - radius * Math.cos(angle)}`;
+  const largeArc = end - start > Math.PI ? 1 : 0;
+  return [
+    `M ${point(OUTER_RADIUS, start)}`,
+    `A ${OUTER_RADIUS} ${OUTER_RADIUS} 0 ${largeArc} 1 ${point(OUTER_RADIUS, end)}`,
+    `L ${point(INNER_RADIUS, end)}`,
+    `A ${INNER_RADIUS} ${INNER_RADIUS} 0 ${largeArc} 0 ${point(INNER_RADIUS, start)}`,
+    'Z',
+  ].join(' ');
+}
+
+/**
+ * Renders a donut chart with the total in the middle
+ * @param container - Element to render into (the chart, legend and table are appended)
+ * @param slices - Slices in drawing order (clockwise from the top); empty slices are skipped
+ * @param options - Title, description and labelling
+ */
+export function renderDonutChart(
+  container: HTMLElement,
+  slices: DonutSlice[],
+  options: ChartOptions
+): void {
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const colours = slices.map((slice, index) => getChartColour(slice.colour, index));
+
+  const svg = createChartSvg(SIZE, SIZE, options);
+  svg.classList.add('bp-chart-donut');
+  const tooltip = createTooltip(container);
+
+  let angle = 0;
+  slices.forEach((slice, index) => {
+    if (slice.value <= 0 || total <= 0) return;
+    // A full circle cannot be drawn as one arc, so a single slice stops just short
+    const end = Math.min(angle + (slice.value / total) * 2 * Math.PI, angle + 2 * Math.PI - 1e-4);
+    const segment = createSvgElement('path', {
+      d: getSegmentPath(angle, end),
+      fill: colours[index],
+      stroke: '#fff',
+      'stroke-width': 2,
+    });
+    addMarkInteraction(
+      segment,
+      container,
+      tooltip,
+      index,
+      `<strong>${escapeHtml(slice.label)}</strong>: <strong>${escapeHtml(formatChartValue(slice.value, options.unit))}</strong> (${formatShare(slice.value, total)})`
+    );
+    svg.appendChild(segment);
+    angle = end;
+  });
+
+  const totalText = createSvgElement('text', {
+    x: SIZE / 2,
+    y: SIZE / 2 + 4,
+    'text-anchor': 'middle',
+    'font-size': 28,
+    'font-weight': 600,
+    fill: '#333',
+  });
+  totalText.textContent = total.toLocaleString();
+  svg.appendChild(totalText);
+  if (options.unit) {
+    const unitText = createSvgElement('text', {
+      x: SIZE / 2,
+      y: SIZE / 2 + 26,
+      'text-anchor': 'middle',
+      'font-size': 14,
+      fill: '#6c757d',
+    });
+    unitText.textContent = total === 1 ? options.unit[0] : options.unit[1];
+    svg.appendChild(unitText);
+  }
+
+  container.appendChild(svg);
+  if (options.showLegend ?? slices.length > 1) {
+    renderLegend(
+      container,
+      slices.map((slice, index) => ({ label: slice.label, colour: colours[index], series: index }))
+    );
+  }
+  if (options.showTable ?? true) {
+    renderDataTable(
+      container,
+      [options.categoryLabel ?? 'Category', 'Value', 'Share'],
+      slices.map((slice) => [slice.label, slice.value, formatShare(slice.value, total)])
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Chart components
+ *
+ * Accessible SVG charts declared from data: each chart has a title and description for
+ * screen readers, tooltips, a legend and a data table fallback, and scales to its container.
+ * Pages and extensions can call a renderer directly or pass a ChartSpec to renderChart.
+ */
+
+import { renderBarChart, renderStackedBarChart } from './barChart';
+import { renderDonutChart } from './donutChart';
+import { renderLineChart } from './lineChart';
+import type { ChartSpec } from './types';
+
+export { renderBarChart, renderStackedBarChart, renderDonutChart, renderLineChart };
+export { CHART_COLOURS } from './chartElements';
+export type {
+  BarChartOptions,
+  CategoryChartData,
+  ChartOptions,
+  ChartSeries,
+  ChartSpec,
+  DonutSlice,
+  StackedBarChartOptions,
+} from './types';
+
+/**
+ * Renders a chart from its declaration
+ * @param container - Element to render into
+ * @param spec - Chart type, data and options
+ */
+export function renderChart(container: HTMLElement, spec: ChartSpec): void {
+  switch (spec.type) {
+    case 'bar':
+      renderBarChart(container, spec.data, spec);
+      break;
+    case 'stacked-bar':
+      renderStackedBarChart(container, spec.data, spec);
+      break;
+    case 'line':
+      renderLineChart(container, spec.data, spec);
+      break;
+    case 'donut':
+      renderDonutChart(container, spec.data, spec);
+      break;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Line charts
+ */
+
+import {
+  CHART_WIDTH,
+  addMarkInteraction,
+  createChartSvg,
+  createSvgElement,
+  createTooltip,
+  formatTooltip,
+  getChartColour,
+  getNiceScale,
+  renderAxisLine,
+  renderCategoryTable,
+  renderLegend,
+  renderValueAxis,
+} from './chartElements';
+import type { CategoryChartData, ChartOptions } from './types';
+
+const HEIGHT = 320;
+
+/**
+ * Renders a line chart with a line and points per series
+ * @param container - Element to render into (the chart, legend and table are appended)
+ * @param data - Categories (in order along the x-axis) and their values per series
+ * @param options - Title, description and labelling
+ */
+export function renderLineChart(
+  container: HTMLElement,
+  data: CategoryChartData,
+  options: ChartOptions
+): void {
+  const margin = { top: 16, right: 16, bottom: 40, left: 52 };
+  const plotWidth = CHART_WIDTH - margin.left - margin.right;
+  const plotHeight = HEIGHT - margin.top - margin.bottom;
+  const seriesCount = data.series.length;
+  const colours = data.series.map((series, index) => getChartColour(series.colour, index));
+  const scale = getNiceScale(Math.max(0, ...data.series.flatMap((series) => series.values)));
+  const slot = plotWidth / Math.max(1, data.categories.length);
+  const x = (index: number): number => slot * index + slot / 2;
+  const y = (value: number): number => plotHeight - (value / scale.max) * plotHeight;
+
+  const svg = createChartSvg(CHART_WIDTH, HEIGHT, options);
+  const g = createSvgElement('g', { transform: `translate(${margin.left},${margin.top})` });
+  svg.appendChild(g);
+  const tooltip = createTooltip(container);
+
+  renderValueAxis(g, scale, y, plotWidth, 'vertical');
+
+  data.categories.forEach((category, index) => {
+    const label = createSvgElement('text', {
+      x: x(index),
+      y: plotHeight + 20,
+      'text-anchor': 'middle',
+      'font-size': 12,
+      fill: '#333',
+    });
+    label.textContent = category;
+    g.appendChild(label);
+  });
+
+  renderAxisLine(g, 0, plotHeight, plotWidth, plotHeight);
+
+  data.series.forEach((series, seriesIndex) => {
+    const values = data.categories.map((_, index) => series.values[index] ?? 0);
+    const line = createSvgElement('path', {
+      d: values.map((value, index) => `${index ? 'L' : 'M'} ${x(index)} ${y(value)}`).join(' '),
+      fill: 'none',
+      stroke: colours[seriesIndex],
+      'stroke-width': 3,
+      'pointer-events': 'none',
+    });
+    line.dataset.series = String(seriesIndex);
+    line.classList.add('bp-chart-mark');
+    g.appendChild(line);
+
+    values.forEach((value, index) => {
+      const point = createSvgElement('circle', {
+        cx: x(index),
+        cy: y(value),
+        r: 5,
+        fill: colours[seriesIndex],
+        stroke: '#fff',
+        'stroke-width': 2,
+      });
+      addMarkInteraction(
+        point,
+        container,
+        tooltip,
+        seriesIndex,
+        formatTooltip(
+          data.categories[index],
+          value,
+          options,
+          seriesCount > 1 ? series.label : undefined
+        )
+      );
+      g.appendChild(point);
+    });
+  });
+
+  container.appendChild(svg);
+  if (options.showLegend ?? seriesCount > 1) {
+    renderLegend(
+      container,
+      data.series.map((series, index) => ({
+        label: series.label,
+        colour: colours[index],
+        marker: 'line',
+        series: index,
+      }))
+    );
+  }
+  if (options.showTable ?? true) renderCategoryTable(container, data, options);
+}
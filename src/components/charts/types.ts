@@ -0,0 +1,58 @@
+/**
+ * Chart data and option types
+ */
+
+/**
+ * One series of values, e.g. one colour in a stacked bar chart or one line
+ */
+export interface ChartSeries {
+  label: string;
+  values: number[]; // one per category
+  colour?: string; // defaults to the palette colour for the series' position
+}
+
+/**
+ * Values per category, for bar, stacked bar and line charts
+ */
+export interface CategoryChartData {
+  categories: string[]; // axis labels, e.g. years
+  series: ChartSeries[];
+}
+
+/**
+ * One slice of a donut chart
+ */
+export interface DonutSlice {
+  label: string;
+  value: number;
+  colour?: string; // defaults to the palette colour for the slice's position
+}
+
+/**
+ * Labelling and layout shared by every chart
+ */
+export interface ChartOptions {
+  title: string; // SVG title (read by screen readers)
+  description: string; // SVG description, summarising the data for screen readers
+  unit?: [string, string]; // singular and plural, for tooltips, e.g. ['publication', 'publications']
+  categoryLabel?: string; // data table heading for the categories (default: "Category")
+  showTable?: boolean; // data table below the chart (default: true)
+  showLegend?: boolean; // default: when there is more than one series or slice
+}
+
+export interface BarChartOptions extends ChartOptions {
+  orientation?: 'vertical' | 'horizontal'; // default: vertical; horizontal suits long labels
+}
+
+export interface StackedBarChartOptions extends BarChartOptions {
+  totalLine?: string; // legend label for a dashed line through each stack's total (vertical only)
+}
+
+/**
+ * A chart declared from data, for renderChart
+ */
+export type ChartSpec =
+  | ({ type: 'bar'; data: CategoryChartData } & BarChartOptions)
+  | ({ type: 'stacked-bar'; data: CategoryChartData } & StackedBarChartOptions)
+  | ({ type: 'line'; data: CategoryChartData } & ChartOptions)
+  | ({ type: 'donut'; data: DonutSlice[] } & ChartOptions);
@@ -0,0 +1,92 @@
+import type { PersonPublication } from '../data/publications';
+import {
+  CITATION_EXPORT_FORMATS,
+  formatCitations,
+  type CitationExportFormat,
+} from '../utils/citations';
+import { downloadTextFile, escapeHtml } from '../utils/dom';
+
+/**
+ * Options for rendering a citation export menu
+ */
+export interface CitationExportMenuOptions {
+  /** Button label (default: 'Export') */
+  label?: string;
+  /** Export a single publication instead of the page's current list */
+  publicationId?: string;
+  /** Extra classes for the toggle button (default: 'btn-outline-secondary btn-sm') */
+  buttonClass?: string;
+}
+
+/**
+ * Publications to export for a menu, and the file name to save them under (without extension)
+ */
+export interface CitationExportTarget {
+  publications: PersonPublication[];
+  fileName: string;
+}
+
+/**
+ * Renders a dropdown offering BibTeX, RIS and CSL-JSON downloads
+ * Pair with attachCitationExportHandler on a containing element.
+ * @param options - Optional configuration for the menu
+ * @returns HTML string for the dropdown
+ */
+export function renderCitationExportMenu(options: CitationExportMenuOptions = {}): string {
+  const { label = 'Export', publicationId, buttonClass = 'btn-outline-secondary btn-sm' } = options;
+  const publicationAttr = publicationId
+    ? ` data-publication-id="${escapeHtml(publicationId)}"`
+    : '';
+
+  const itemsHtml = (Object.keys(CITATION_EXPORT_FORMATS) as CitationExportFormat[])
+    .map(
+      (format) => `
+        <li>
+          <button type="button" class="dropdown-item" data-citation-format="${format}"${publicationAttr}>
+            ${CITATION_EXPORT_FORMATS[format].label} (.${CITATION_EXPORT_FORMATS[format].extension})
+          </button>
+        </li>
+      `
+    )
+    .join('');
+
+  // position-relative + z-index keep the menu clickable inside cards with a stretched link
+  return `
+    <div class="dropdown d-inline-block position-relative" style="z-index: 2;">
+      <button type="button" class="btn ${buttonClass} dropdown-toggle" data-bs-toggle="dropdown" aria-expanded="false">
+        ${escapeHtml(label)}
+      </button>
+      <ul class="dropdown-menu">
+        ${itemsHtml}
+      </ul>
+    </div>
+  `;
+}
+
+/**
+ * Handles clicks on any citation export menu inside a container
+ * Uses event delegation, so menus rendered later (e.g. after filtering) work without re-binding.
+ * @param container - Element containing the menus
+ * @param getTarget - Resolves what to export; receives the menu's publication ID, or null for list menus
+ */
+export function attachCitationExportHandler(
+  container: HTMLElement,
+  getTarget: (publicationId: string | null) => CitationExportTarget | null
+): void {
+  container.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLElement>('[data-citation-format]');
+    if (!button) return;
+    event.preventDefault();
+
+    const format = button.getAttribute('data-citation-format') as CitationExportFormat;
+    const target = getTarget(button.getAttribute('data-publication-id'));
+    if (!target || target.publications.length === 0) return;
+
+    const { extension, mimeType } = CITATION_EXPORT_FORMATS[format];
+    downloadTextFile(
+      formatCitations(target.publications, format),
+      `${target.fileName}.${extension}`,
+      mimeType
+    );
+  });
+}
@@ -0,0 +1,62 @@
+import type { PersonPublication } from '../data/publications';
+import { formatCitationsAsOf, summarizeCitations } from '../utils/citationCounts';
+import { escapeHtml } from '../utils/dom';
+import { groupPreprintVersions } from '../utils/publicationMerge';
+import { getPublicationUrl } from '../utils/publications';
+
+/**
+ * Renders aggregate citation metrics for a set of publications (total citations, cited works,
+ * h-index and the most cited work), labelled with the OpenAlex snapshot date
+ * @param publications - Publications (preprints are grouped with their published version)
+ * @returns HTML string for the summary, or empty string if no work has citation counts
+ */
+export function renderCitationSummary(publications: PersonPublication[]): string {
+  const summary = summarizeCitations(
+    groupPreprintVersions(publications).map(({ publication, preprints }) => [
+      publication,
+      ...preprints,
+    ])
+  );
+  if (!summary.asOf) {
+    return '';
+  }
+
+  const stats: [string, string][] = [
+    ['Citations', summary.total.toLocaleString()],
+    ['Cited works', summary.citedWorks.toLocaleString()],
+    ['h-index', String(summary.hIndex)],
+  ];
+  const mostCited = summary.mostCited;
+  const mostCitedHtml = mostCited
+    ? `<p class="small mb-2">
+        <span class="text-muted">Most cited:</span>
+        <a href="${escapeHtml(getPublicationUrl(mostCited.publication))}" target="_blank" rel="noopener noreferrer">${escapeHtml(mostCited.publication.title)}</a>
+        (${mostCited.count.toLocaleString()} ${mostCited.count === 1 ? 'citation' : 'citations'})
+      </p>`
+    : '';
+  const coverage =
+    summary.countedWorks < summary.works
+      ? ` Counts are available for ${summary.countedWorks} of ${summary.works} works.`
+      : '';
+
+  return `
+    <div class="bp-citation-summary border rounded p-3 mb-3">
+      <dl class="row row-cols-auto g-3 mb-2">
+        ${stats
+          .map(
+            ([label, value]) => `
+          <div class="col">
+            <dt class="small text-muted fw-normal">${label}</dt>
+            <dd class="h5 mb-0">${value}</dd>
+          </div>`
+          )
+          .join('')}
+      </dl>
+      ${mostCitedHtml}
+      <p class="text-muted small mb-0">
+        Citation counts from OpenAlex, ${escapeHtml(formatCitationsAsOf(summary.asOf))}.
+        A preprint and its published version count once, with the higher count.${coverage}
+      </p>
+    </div>
+  `;
+}
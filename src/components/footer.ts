@@ -1,23 +1,6 @@
+import type { Partner } from '../data/partners';
 import { escapeHtml } from '../utils/dom';
 
-/**
- * Partner interface for footer logos
- *
- * To add a new partner, create a Partner object with:
- * - name: The partner's display name (required for accessibility)
- * - url: Optional URL to link to the partner's website
- * - logoSrc: Optional path to logo image (e.g., '/logos/partner-name.png')
- *   If not provided, a placeholder will be shown instead.
- *
- * Logo images should be placed in the `public/logos/` directory.
- * They will be accessible at the root path (e.g., `/logos/partner-name.png`).
- */
-export interface Partner {
-  name: string;
-  url?: string;
-  logoSrc?: string; // Path to logo image, e.g., '/logos/university-logo.png'
-}
-
 /**
  * Renders the site footer with partner logos
  *
@@ -1,3 +1,5 @@
+import { attachSearchAutocomplete } from './searchAutocomplete';
+
 /**
  * Determines the active navigation link based on current pathname
  * @returns The active link identifier or null
@@ -20,6 +22,12 @@ function getActiveLink(): string | null {
   if (pathname === '/research-outputs.html') {
     return 'research-outputs';
   }
+  if (pathname === '/network.html') {
+    return 'network';
+  }
+  if (pathname === '/metrics.html') {
+    return 'metrics';
+  }
 
   return null;
 }
@@ -71,6 +79,12 @@ export function renderNavbar(container: HTMLElement): void {
               <li class="nav-item">
                 <a class="${getNavLinkClass('research-outputs')}" href="/research-outputs.html" ${getNavLinkAria('research-outputs')}>Research Outputs</a>
               </li>
+              <li class="nav-item">
+                <a class="${getNavLinkClass('network')}" href="/network.html" ${getNavLinkAria('network')}>Network</a>
+              </li>
+              <li class="nav-item">
+                <a class="${getNavLinkClass('metrics')}" href="/metrics.html" ${getNavLinkAria('metrics')}>Metrics</a>
+              </li>
             </ul>
             <form class="d-flex mb-2 mb-lg-0 bp-navbar-search-top" role="search" id="bp-search-form">
               <input
@@ -115,6 +129,8 @@ export function renderNavbar(container: HTMLElement): void {
   const searchInput = container.querySelector<HTMLInputElement>('#bp-search-input');
 
   if (searchForm && searchInput) {
+    attachSearchAutocomplete(searchForm, searchInput);
+
     searchForm.addEventListener('submit', (event) => {
       event.preventDefault();
       const query = searchInput.value.trim();
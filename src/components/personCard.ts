@@ -1,12 +1,20 @@
 import type { Person } from '../data/people';
 import { escapeHtml } from '../utils/dom';
 
+/**
+ * Options for rendering a person card
+ */
+export interface PersonCardOptions {
+  snippetHtml?: string; // pre-escaped HTML shown instead of the short bio (e.g. search match context)
+}
+
 /**
  * Renders a person card for use in grids (People page, search results, etc.)
  * @param person - The person object to render
+ * @param options - Optional rendering options
  * @returns HTML string for the person card
  */
-export function renderPersonCard(person: Person): string {
+export function renderPersonCard(person: Person, options: PersonCardOptions = {}): string {
   const href = person.slug ? `/person.html?person=${encodeURIComponent(person.slug)}` : '#';
 
   const photoHtml = person.photoUrl
@@ -43,9 +51,11 @@ export function renderPersonCard(person: Person): string {
               ${photoHtml}
             </div>
             ${
-              person.bioShort
-                ? `<p class="card-text mt-2"><small>${escapeHtml(person.bioShort)}</small></p>`
-                : ''
+              options.snippetHtml
+                ? `<p class="card-text mt-2"><small>${options.snippetHtml}</small></p>`
+                : person.bioShort
+                  ? `<p class="card-text mt-2"><small>${escapeHtml(person.bioShort)}</small></p>`
+                  : ''
             }
           </div>
         </div>
@@ -1,8 +1,19 @@
-import type { PersonPublication } from '../data/publications';
+import {
+  OPEN_ACCESS_STATUS_LABELS,
+  PUBLICATION_ORIGIN_LABELS,
+  PUBLICATION_TYPE_LABELS,
+  type PersonPublication,
+  type PublicationOrigin,
+} from '../data/publications';
 import { getPublicationUrl } from '../utils/publications';
+import { getPublicationType } from '../utils/publicationTypes';
+import { formatLicence, getBestOpenAccessStatus } from '../utils/openAccess';
+import { formatCitationDate, getWorkCitations } from '../utils/citationCounts';
 import { getPublicationAuthors } from '../utils/authorMatching';
 import { allPeople, type Person } from '../data/people';
 import { escapeHtml } from '../utils/dom';
+import type { MergedPublicationField, PublicationProvenance } from '../utils/publicationMerge';
+import { renderCitationExportMenu } from './citationExportMenu';
 
 /**
  * Options for rendering a publication card
@@ -16,6 +27,14 @@ export interface PublicationCardOptions {
   showVenue?: boolean;
   /** Whether to show year (default: true) */
   showYear?: boolean;
+  /** Whether to show a publication type badge (default: true) */
+  showType?: boolean;
+  /** Whether to show an open-access status badge, when the status is known (default: true) */
+  showOpenAccess?: boolean;
+  /** Whether to show the OpenAlex citation count and its date, when harvested (default: true) */
+  showCitations?: boolean;
+  /** Preprint versions of the work, linked below the venue (see groupPreprintVersions) */
+  preprints?: PersonPublication[];
   /** Whether to use compact styling (default: false) */
   compact?: boolean;
   /** Optional project/theme context to display */
@@ -29,6 +48,68 @@ export interface PublicationCardOptions {
   headingLevel?: 'h3' | 'h4' | 'h5' | 'h6';
   /** Whether card should have margin-bottom (default: true for research-outputs style, false otherwise) */
   withMargin?: boolean;
+  /** Whether to show a citation export menu (default: false; needs attachCitationExportHandler) */
+  showCitationExport?: boolean;
+  /** Where the publication's data came from, shown as source badges (default: not shown) */
+  provenance?: PublicationProvenance;
+}
+
+const FIELD_LABELS: Record<MergedPublicationField, string> = {
+  title: 'title',
+  year: 'year',
+  venue: 'venue',
+  doi: 'DOI',
+  openAccessUrl: 'open access link',
+  openAccessStatus: 'open-access status',
+  licence: 'licence',
+  authors: 'authors',
+  type: 'type',
+  citations: 'citation counts',
+};
+
+/**
+ * Describes which fields of a merged publication came from a source (for badge tooltips)
+ */
+function describeSourceFields(
+  provenance: PublicationProvenance,
+  origin: PublicationOrigin
+): string {
+  const fields = (Object.keys(provenance.fieldSources) as MergedPublicationField[])
+    .filter((field) => provenance.fieldSources[field] === origin)
+    .map((field) => FIELD_LABELS[field]);
+  const label = PUBLICATION_ORIGIN_LABELS[origin];
+  return fields.length > 0 ? `${label}: ${fields.join(', ')}` : `${label}: also lists this work`;
+}
+
+/**
+ * Renders the open-access badge (and licence) for a work
+ * @param versions - The work and its preprints; the most open status of any version is shown
+ * @returns Badge HTML, or an empty string if no version has a recorded status
+ */
+function renderOpenAccessBadge(versions: PersonPublication[]): string {
+  const status = getBestOpenAccessStatus(versions);
+  if (!status) return '';
+
+  const source = versions.find((version) => version.openAccessStatus === status);
+  const label =
+    status === 'closed' ? 'Closed access' : `${OPEN_ACCESS_STATUS_LABELS[status]} open access`;
+  const licenceHtml = source?.licence
+    ? `<span class="badge text-bg-light border fw-normal me-1" title="Licence">${escapeHtml(formatLicence(source.licence))}</span>`
+    : '';
+  return `<span class="badge bp-oa-badge bp-oa-${status} fw-normal me-1" title="${escapeHtml(label)}">${escapeHtml(status === 'closed' ? 'Closed' : `${OPEN_ACCESS_STATUS_LABELS[status]} OA`)}</span>${licenceHtml}`;
+}
+
+/**
+ * Renders the citation count for a work
+ * @param versions - The work and its preprints; the most-cited version's count is shown
+ * @returns Count HTML, or an empty string if no version has been counted
+ */
+function renderCitationCount(versions: PersonPublication[]): string {
+  const citations = getWorkCitations(versions);
+  if (!citations) return '';
+
+  const date = formatCitationDate(citations.asOf);
+  return `<span title="Citations recorded by OpenAlex as of ${escapeHtml(date)}">Cited by ${citations.count.toLocaleString()} (OpenAlex, ${escapeHtml(date)})</span>`;
 }
 
 /**
@@ -46,11 +127,17 @@ export function renderPublicationCard(
     showAuthorPhotos = false,
     showVenue = true,
     showYear = true,
+    showType = true,
+    showOpenAccess = true,
+    showCitations = true,
+    preprints = [],
     compact = false,
     projectContext,
     allPeopleForMatching = allPeople,
     headingLevel = 'h5',
     withMargin = false,
+    showCitationExport = false,
+    provenance,
   } = options;
 
   const title = escapeHtml(work.title);
@@ -73,19 +160,56 @@ export function renderPublicationCard(
   if (typeof year === 'number' && showYear) {
     venueYearParts.push(String(year));
   }
+  const citationCountHtml = showCitations ? renderCitationCount([work, ...preprints]) : '';
+  if (citationCountHtml) {
+    venueYearParts.push(citationCountHtml);
+  }
+
+  const typeBadgeHtml = showType
+    ? `<span class="badge bg-secondary-subtle text-secondary-emphasis fw-normal me-1">${escapeHtml(PUBLICATION_TYPE_LABELS[getPublicationType(work)])}</span>`
+    : '';
+  const badgesHtml =
+    typeBadgeHtml + (showOpenAccess ? renderOpenAccessBadge([work, ...preprints]) : '');
 
   // Determine margin for venue/year line based on what comes after
   let venueYearMargin = '0';
-  if (venueYearParts.length > 0) {
+  if (venueYearParts.length > 0 || badgesHtml) {
     if (showAuthors && authors.length > 0) {
       venueYearMargin = '2';
-    } else if (projectContext) {
+    } else if (projectContext || provenance || preprints.length > 0) {
       venueYearMargin = '2';
     }
   }
 
-  const venueYearHtml = venueYearParts.length
-    ? `<p class="card-text small text-muted mb-${venueYearMargin}">${venueYearParts.join(' • ')}</p>`
+  const venueYearHtml =
+    venueYearParts.length || badgesHtml
+      ? `<p class="card-text small text-muted mb-${venueYearMargin}">${badgesHtml}${venueYearParts.join(' • ')}</p>`
+      : '';
+
+  // Build preprint version links (raised above the card's stretched link)
+  const preprintsHtml = preprints.length
+    ? `<p class="card-text small mb-2">
+        <span class="text-muted">Preprint:</span>
+        ${preprints
+          .map((preprint) => {
+            const label = [preprint.venue ?? 'Preprint', preprint.year].filter(Boolean).join(', ');
+            return `<a href="${escapeHtml(getPublicationUrl(preprint))}" target="_blank" rel="noopener noreferrer" class="text-decoration-none position-relative z-2">${escapeHtml(label)}</a>`;
+          })
+          .join('; ')}
+      </p>`
+    : '';
+
+  // Build source badges (merged publications only)
+  const provenanceHtml = provenance
+    ? `<p class="card-text small mb-2 d-flex flex-wrap align-items-center gap-1">
+        <span class="text-muted">Sources:</span>
+        ${provenance.sources
+          .map(
+            (origin) =>
+              `<span class="badge text-bg-light border fw-normal" title="${escapeHtml(describeSourceFields(provenance, origin))}">${escapeHtml(PUBLICATION_ORIGIN_LABELS[origin])}</span>`
+          )
+          .join('')}
+      </p>`
     : '';
 
   // Build authors HTML (names only)
@@ -159,6 +283,13 @@ export function renderPublicationCard(
       </p>`
     : '';
 
+  // Build citation export menu
+  const citationExportHtml = showCitationExport
+    ? `<div class="mt-2">
+        ${renderCitationExportMenu({ label: 'Export citation', publicationId: work.id, buttonClass: 'btn-outline-secondary btn-sm py-0' })}
+      </div>`
+    : '';
+
   // Build card content - handle two layouts: with author photos vs without
   const cardContent =
     showAuthorPhotos && authors.length > 0
@@ -171,8 +302,11 @@ export function renderPublicationCard(
               </a>
             </${headingLevel}>
             ${venueYearHtml}
+            ${preprintsHtml}
+            ${provenanceHtml}
             ${authorsHtml}
             ${projectContextHtml}
+            ${citationExportHtml}
           </div>
           ${authorPhotosHtml}
         </div>
@@ -184,8 +318,11 @@ export function renderPublicationCard(
           </a>
         </${headingLevel}>
         ${venueYearHtml}
+        ${preprintsHtml}
+        ${provenanceHtml}
         ${authorsHtml}
         ${projectContextHtml}
+        ${citationExportHtml}
       `;
 
   // Determine card classes based on options
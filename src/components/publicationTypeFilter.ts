@@ -0,0 +1,149 @@
+import {
+  PUBLICATION_TYPE_LABELS,
+  type PersonPublication,
+  type PublicationType,
+} from '../data/publications';
+import { escapeHtml } from '../utils/dom';
+import { getPublicationType } from '../utils/publicationTypes';
+
+const PUBLICATION_TYPES = Object.keys(PUBLICATION_TYPE_LABELS) as PublicationType[];
+
+/**
+ * Reads the selected publication types from the URL (?types=preprint,dataset)
+ * @returns The selected types (empty: all types)
+ */
+export function getPublicationTypesFromUrl(): Set<PublicationType> {
+  const param = new URLSearchParams(window.location.search).get('types') ?? '';
+  return new Set(
+    param
+      .split(',')
+      .filter((type): type is PublicationType => Object.hasOwn(PUBLICATION_TYPE_LABELS, type))
+  );
+}
+
+/**
+ * Writes the selected publication types into URL query parameters
+ * @param params - The parameters to update
+ * @param types - The selected types
+ */
+export function setPublicationTypeParams(
+  params: URLSearchParams,
+  types: Set<PublicationType>
+): void {
+  params.delete('types');
+  if (types.size > 0) {
+    params.set('types', Array.from(types).join(','));
+  }
+}
+
+/**
+ * Updates the current URL with the selected publication types, keeping other parameters
+ * @param types - The selected types
+ */
+export function updateUrlFromPublicationTypes(types: Set<PublicationType>): void {
+  const params = new URLSearchParams(window.location.search);
+  setPublicationTypeParams(params, types);
+  const query = params.toString();
+  window.history.replaceState(
+    {},
+    '',
+    `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`
+  );
+}
+
+/**
+ * Checks whether a publication is one of the selected types
+ * @param publication - The publication
+ * @param types - The selected types (empty: all types)
+ * @returns True if the publication should be listed
+ */
+export function matchesPublicationTypes(
+  publication: PersonPublication,
+  types: Set<PublicationType>
+): boolean {
+  return types.size === 0 || types.has(getPublicationType(publication));
+}
+
+/**
+ * Renders a toggle button per publication type present, with counts
+ * Pair with attachPublicationTypeFilter on a containing element.
+ * @param publications - All publications the filter applies to
+ * @param selected - The selected types
+ * @returns HTML string for the buttons, or '' if the publications are all one type
+ */
+export function renderPublicationTypeFilter(
+  publications: PersonPublication[],
+  selected: Set<PublicationType>
+): string {
+  const counts = new Map<PublicationType, number>();
+  for (const publication of publications) {
+    const type = getPublicationType(publication);
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  }
+  if (counts.size < 2) return '';
+
+  return `
+    <div class="d-flex flex-wrap gap-2" role="group" aria-label="Filter by type">
+      ${PUBLICATION_TYPES.filter((type) => counts.has(type))
+        .map((type) => {
+          const isSelected = selected.has(type);
+          return `
+            <button
+              type="button"
+              class="btn btn-sm ${isSelected ? 'btn-secondary' : 'btn-outline-secondary'}"
+              data-publication-type="${type}"
+              aria-pressed="${isSelected}"
+            >
+              ${escapeHtml(PUBLICATION_TYPE_LABELS[type])}
+              <span class="badge text-bg-light ms-1">${counts.get(type)}</span>
+            </button>
+          `;
+        })
+        .join('')}
+    </div>
+  `;
+}
+
+/**
+ * Updates the type buttons inside a container to show the selected types
+ * @param container - Element containing the buttons
+ * @param selected - The selected types
+ */
+export function updatePublicationTypeButtons(
+  container: ParentNode,
+  selected: Set<PublicationType>
+): void {
+  container.querySelectorAll<HTMLButtonElement>('[data-publication-type]').forEach((btn) => {
+    const isSelected = selected.has(btn.getAttribute('data-publication-type') as PublicationType);
+    btn.classList.toggle('btn-secondary', isSelected);
+    btn.classList.toggle('btn-outline-secondary', !isSelected);
+    btn.setAttribute('aria-pressed', String(isSelected));
+  });
+}
+
+/**
+ * Toggles publication types when their buttons are clicked inside a container
+ * Uses event delegation, so the buttons can be re-rendered without re-binding.
+ * @param container - Element containing the buttons
+ * @param selected - The selected types (updated in place)
+ * @param onChange - Called after the selection changes
+ */
+export function attachPublicationTypeFilter(
+  container: HTMLElement,
+  selected: Set<PublicationType>,
+  onChange: () => void
+): void {
+  container.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLElement>('[data-publication-type]');
+    if (!button) return;
+
+    const type = button.getAttribute('data-publication-type') as PublicationType;
+    if (selected.has(type)) {
+      selected.delete(type);
+    } else {
+      selected.add(type);
+    }
+    updatePublicationTypeButtons(container, selected);
+    onChange();
+  });
+}
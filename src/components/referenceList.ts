@@ -0,0 +1,236 @@
+import type { PersonPublication } from '../data/publications';
+import {
+  CITATION_STYLES,
+  formatReference,
+  sortForReferenceList,
+  type CitationStyle,
+  type ReferencePart,
+} from '../utils/citations';
+import { escapeHtml } from '../utils/dom';
+
+/**
+ * How a publication list is displayed
+ */
+export type PublicationViewMode = 'cards' | 'references';
+
+/**
+ * Publication list display state (mirrored in the URL as ?view=references&style=…)
+ */
+export interface PublicationViewState {
+  mode: PublicationViewMode;
+  style: CitationStyle;
+}
+
+const DEFAULT_STYLE: CitationStyle = 'apa';
+
+/**
+ * Reads the publication view state from URL query parameters
+ * @returns The view state (cards view and APA style by default)
+ */
+export function getPublicationViewFromUrl(): PublicationViewState {
+  const params = new URLSearchParams(window.location.search);
+  const style = params.get('style');
+  return {
+    mode: params.get('view') === 'references' ? 'references' : 'cards',
+    style:
+      style && Object.hasOwn(CITATION_STYLES, style) ? (style as CitationStyle) : DEFAULT_STYLE,
+  };
+}
+
+/**
+ * Writes the publication view state into URL query parameters (defaults are omitted)
+ * @param params - The parameters to update
+ * @param state - The view state
+ */
+export function setPublicationViewParams(
+  params: URLSearchParams,
+  state: PublicationViewState
+): void {
+  params.delete('view');
+  params.delete('style');
+  if (state.mode === 'references') {
+    params.set('view', 'references');
+    if (state.style !== DEFAULT_STYLE) {
+      params.set('style', state.style);
+    }
+  }
+}
+
+/**
+ * Updates the current URL with the publication view state, keeping other parameters
+ * @param state - The view state
+ */
+export function updateUrlFromPublicationView(state: PublicationViewState): void {
+  const params = new URLSearchParams(window.location.search);
+  setPublicationViewParams(params, state);
+  const query = params.toString();
+  window.history.replaceState(
+    {},
+    '',
+    `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`
+  );
+}
+
+/**
+ * Renders reference parts as HTML (venues in <em>)
+ */
+function renderReferenceParts(parts: ReferencePart[]): string {
+  return parts
+    .map((part) => (part.italic ? `<em>${escapeHtml(part.text)}</em>` : escapeHtml(part.text)))
+    .join('');
+}
+
+/**
+ * Renders publications as a formatted reference list
+ * Vancouver lists are numbered; APA and Harvard lists are alphabetical with hanging indents.
+ * @param publications - The publications to list
+ * @param style - The citation style
+ * @returns HTML string for the reference list
+ */
+export function renderReferenceList(
+  publications: PersonPublication[],
+  style: CitationStyle
+): string {
+  const itemsHtml = sortForReferenceList(publications, style)
+    .map(
+      (publication) =>
+        `<li class="mb-2">${renderReferenceParts(formatReference(publication, style))}</li>`
+    )
+    .join('');
+
+  return style === 'vancouver'
+    ? `<ol class="bp-reference-list">${itemsHtml}</ol>`
+    : `<ul class="list-unstyled bp-reference-list bp-reference-list-hanging">${itemsHtml}</ul>`;
+}
+
+/**
+ * Formats publications as a plain-text reference list (one reference per line)
+ */
+function formatReferenceListText(publications: PersonPublication[], style: CitationStyle): string {
+  return sortForReferenceList(publications, style)
+    .map((publication, index) => {
+      const text = formatReference(publication, style)
+        .map((part) => part.text)
+        .join('');
+      return style === 'vancouver' ? `${index + 1}. ${text}` : text;
+    })
+    .join('\n');
+}
+
+/**
+ * Renders the cards / reference list toggle, citation style switcher and copy button
+ * Pair with attachPublicationViewControls on a containing element.
+ * @param state - The current view state
+ * @returns HTML string for the toolbar
+ */
+export function renderPublicationViewControls(state: PublicationViewState): string {
+  const isReferences = state.mode === 'references';
+
+  const styleOptionsHtml = (Object.keys(CITATION_STYLES) as CitationStyle[])
+    .map(
+      (style) =>
+        `<option value="${style}"${style === state.style ? ' selected' : ''}>${CITATION_STYLES[style].label}</option>`
+    )
+    .join('');
+
+  return `
+    <div class="d-flex flex-wrap align-items-center gap-2" data-publication-view-controls>
+      <div class="btn-group btn-group-sm" role="group" aria-label="Publication view">
+        <button type="button" class="btn ${isReferences ? 'btn-outline-secondary' : 'btn-secondary'}" data-publication-view="cards" aria-pressed="${!isReferences}">
+          Cards
+        </button>
+        <button type="button" class="btn ${isReferences ? 'btn-secondary' : 'btn-outline-secondary'}" data-publication-view="references" aria-pressed="${isReferences}">
+          Reference list
+        </button>
+      </div>
+      ${
+        isReferences
+          ? `
+        <select class="form-select form-select-sm w-auto" data-citation-style aria-label="Citation style">
+          ${styleOptionsHtml}
+        </select>
+        <button type="button" class="btn btn-outline-secondary btn-sm" data-copy-references>
+          Copy list
+        </button>
+      `
+          : ''
+      }
+    </div>
+  `;
+}
+
+/**
+ * Copies a reference list to the clipboard, as rich text where supported
+ */
+async function copyReferenceList(
+  publications: PersonPublication[],
+  style: CitationStyle
+): Promise<void> {
+  const text = formatReferenceListText(publications, style);
+
+  if (typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+    const html = renderReferenceList(publications, style);
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+        'text/html': new Blob([html], { type: 'text/html' }),
+      }),
+    ]);
+    return;
+  }
+
+  await navigator.clipboard.writeText(text);
+}
+
+/**
+ * Handles the view toggle, style switcher and copy button inside a container
+ * Uses event delegation, so the toolbar can be re-rendered without re-binding.
+ * @param container - Element containing the toolbar
+ * @param state - The view state (updated in place)
+ * @param options - Callbacks: the publications currently listed, and a re-render after state changes
+ */
+export function attachPublicationViewControls(
+  container: HTMLElement,
+  state: PublicationViewState,
+  options: { getPublications: () => PersonPublication[]; onChange: () => void }
+): void {
+  container.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement;
+
+    const viewButton = target.closest<HTMLElement>('[data-publication-view]');
+    if (viewButton) {
+      const mode = viewButton.getAttribute('data-publication-view') as PublicationViewMode;
+      if (mode !== state.mode) {
+        state.mode = mode;
+        options.onChange();
+      }
+      return;
+    }
+
+    const copyButton = target.closest<HTMLButtonElement>('[data-copy-references]');
+    if (copyButton) {
+      copyReferenceList(options.getPublications(), state.style)
+        .then(() => {
+          copyButton.textContent = 'Copied!';
+        })
+        .catch((error) => {
+          console.error('Error copying reference list:', error);
+          copyButton.textContent = 'Copy failed';
+        })
+        .finally(() => {
+          window.setTimeout(() => {
+            copyButton.textContent = 'Copy list';
+          }, 2000);
+        });
+    }
+  });
+
+  container.addEventListener('change', (event) => {
+    const select = (event.target as HTMLElement).closest<HTMLSelectElement>(
+      '[data-citation-style]'
+    );
+    if (!select) return;
+    state.style = select.value as CitationStyle;
+    options.onChange();
+  });
+}
@@ -0,0 +1,132 @@
+import { allPeople } from '../data/people';
+import { researchProjects } from '../data/researchProjects';
+import { RESEARCH_OUTPUT_KIND_LABELS, type ResearchOutput } from '../data/researchOutputs';
+import { escapeHtml } from '../utils/dom';
+import { getBareDoi, getDoiUrl } from '../utils/doi';
+
+/**
+ * Options for rendering a research output card
+ */
+export interface ResearchOutputCardOptions {
+  /** Heading level for the title (default: 'h5') */
+  headingLevel?: 'h3' | 'h4' | 'h5' | 'h6';
+  /** Whether to list the output's research themes (default: true) */
+  showThemes?: boolean;
+}
+
+/**
+ * Renders a link that sits above the card's stretched title link
+ */
+function renderCardLink(label: string, url: string): string {
+  return `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer" class="text-decoration-none position-relative z-2">${escapeHtml(label)}</a>`;
+}
+
+/**
+ * Renders a card for a software, dataset, workshop or talk output
+ * @param output - The research output to render
+ * @param options - Optional configuration for card rendering
+ * @returns HTML string for the card
+ */
+export function renderResearchOutputCard(
+  output: ResearchOutput,
+  options: ResearchOutputCardOptions = {}
+): string {
+  const { headingLevel = 'h5', showThemes = true } = options;
+
+  const mainUrl =
+    output.url ?? output.repositoryUrl ?? (output.doi ? getDoiUrl(output.doi) : undefined);
+  const title = escapeHtml(output.title);
+  const titleHtml = mainUrl
+    ? `<a href="${escapeHtml(mainUrl)}" target="_blank" rel="noopener noreferrer" class="text-decoration-none stretched-link">${title}</a>`
+    : title;
+
+  const kindBadgeHtml = `<span class="badge bg-info-subtle text-info-emphasis fw-normal me-1">${escapeHtml(RESEARCH_OUTPUT_KIND_LABELS[output.kind])}</span>`;
+  const venueYear = output.venue
+    ? [escapeHtml(output.venue), String(output.year)]
+    : [String(output.year)];
+
+  const descriptionHtml = output.description
+    ? `<p class="card-text small mb-2">${escapeHtml(output.description)}</p>`
+    : '';
+
+  // Website, repository and archive links, plus the licence
+  const links: string[] = [];
+  if (output.url && output.repositoryUrl) {
+    links.push(renderCardLink('Repository', output.repositoryUrl));
+  }
+  if (output.doi) {
+    links.push(renderCardLink(`DOI: ${getBareDoi(output.doi)}`, getDoiUrl(output.doi)));
+  }
+  if (output.licence) {
+    links.push(
+      `<span class="badge text-bg-light border fw-normal" title="Licence">${escapeHtml(output.licence)}</span>`
+    );
+  }
+  const linksHtml = links.length
+    ? `<p class="card-text small mb-2 d-flex flex-wrap align-items-center gap-2">${links.join('')}</p>`
+    : '';
+
+  // People directory entries link to their pages; other contributors are listed by name
+  const people = output.personSlugs
+    .map((slug) => allPeople.find((person) => person.slug === slug))
+    .filter((person) => person !== undefined);
+  const peopleParts = [
+    ...people.map(
+      (person) =>
+        `<a href="/person.html?person=${encodeURIComponent(person.slug)}" class="text-decoration-none position-relative z-2">${escapeHtml(person.name)}</a>`
+    ),
+    ...(output.contributors ?? []).map((name) => escapeHtml(name)),
+  ];
+  const peopleLabel = output.kind === 'talk' || output.kind === 'workshop' ? 'People' : 'Authors';
+  const peopleHtml = peopleParts.length
+    ? `<p class="card-text small mb-0">
+        <span class="text-muted">${peopleLabel}:</span>
+        ${peopleParts.join(', ')}
+      </p>`
+    : '';
+
+  const themes = showThemes
+    ? output.themeSlugs
+        .map((slug) => researchProjects.find((project) => project.slug === slug))
+        .filter((project) => project !== undefined)
+    : [];
+  const themesHtml = themes.length
+    ? `<p class="card-text small mb-0">
+        <span class="text-muted">${themes.length > 1 ? 'Themes' : 'Theme'}:</span>
+        ${themes
+          .map(
+            (project) =>
+              `<a href="/project.html?project=${encodeURIComponent(project.slug)}" class="text-decoration-none position-relative z-2">${escapeHtml(project.title)}</a>`
+          )
+          .join(', ')}
+      </p>`
+    : '';
+
+  return `
+    <article class="card mb-3" data-research-output="${escapeHtml(output.slug)}">
+      <div class="card-body position-relative">
+        <${headingLevel} class="card-title mb-2">
+          ${titleHtml}
+        </${headingLevel}>
+        <p class="card-text small text-muted mb-2">${kindBadgeHtml}${venueYear.join(' • ')}</p>
+        ${descriptionHtml}
+        ${linksHtml}
+        ${peopleHtml}
+        ${themesHtml}
+      </div>
+    </article>
+  `;
+}
+
+/**
+ * Renders a list of research output cards
+ * @param outputs - The outputs to render, in display order
+ * @param options - Card options
+ * @returns HTML string for the cards
+ */
+export function renderResearchOutputList(
+  outputs: ResearchOutput[],
+  options: ResearchOutputCardOptions = {}
+): string {
+  return outputs.map((output) => renderResearchOutputCard(output, options)).join('');
+}
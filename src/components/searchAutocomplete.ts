@@ -0,0 +1,274 @@
+import {
+  loadSearchIndex,
+  searchItems,
+  type SearchItem,
+  type SearchItemType,
+} from '../data/searchIndex';
+import { escapeHtml } from '../utils/dom';
+
+/**
+ * Maximum number of suggestions shown per result type
+ */
+const MAX_SUGGESTIONS_PER_TYPE = 3;
+
+/**
+ * Minimum query length before suggestions are shown
+ */
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Delay after the last keystroke before searching (ms)
+ */
+const INPUT_DEBOUNCE_MS = 150;
+
+/**
+ * Result groups in display order
+ */
+const SUGGESTION_GROUPS: { type: SearchItemType; label: string }[] = [
+  { type: 'project', label: 'Projects' },
+  { type: 'person', label: 'People' },
+  { type: 'publication', label: 'Publications' },
+  { type: 'report', label: 'Reports' },
+];
+
+/**
+ * A selectable entry in the dropdown
+ */
+interface SuggestionOption {
+  id: string; // DOM id, used for aria-activedescendant
+  url: string;
+  external: boolean; // publications link out to the publisher / DOI
+}
+
+/**
+ * Builds the search results page URL for a query
+ */
+function getSearchPageUrl(query: string): string {
+  return `/search.html?q=${encodeURIComponent(query)}`;
+}
+
+/**
+ * Picks the top suggestions for each result type, in display order
+ */
+function getGroupedSuggestions(
+  matches: SearchItem[]
+): { type: SearchItemType; label: string; items: SearchItem[] }[] {
+  return SUGGESTION_GROUPS.map((group) => ({
+    ...group,
+    items: matches.filter((item) => item.type === group.type).slice(0, MAX_SUGGESTIONS_PER_TYPE),
+  })).filter((group) => group.items.length > 0);
+}
+
+/**
+ * Attaches a search-as-you-type dropdown to the navbar search input
+ * Implements the ARIA 1.2 combobox pattern: arrow keys move through the options,
+ * Enter opens the highlighted option (or submits the form), Escape closes the list.
+ * @param form - The search form
+ * @param input - The search input inside the form
+ */
+export function attachSearchAutocomplete(form: HTMLFormElement, input: HTMLInputElement): void {
+  const listboxId = `${input.id}-suggestions`;
+
+  const listbox = document.createElement('div');
+  listbox.id = listboxId;
+  listbox.className = 'dropdown-menu bp-search-autocomplete shadow';
+  listbox.setAttribute('role', 'listbox');
+  listbox.setAttribute('aria-label', 'Search suggestions');
+
+  const status = document.createElement('div');
+  status.className = 'visually-hidden';
+  status.setAttribute('role', 'status');
+  status.setAttribute('aria-live', 'polite');
+
+  form.classList.add('position-relative');
+  form.append(listbox, status);
+
+  input.setAttribute('role', 'combobox');
+  input.setAttribute('aria-autocomplete', 'list');
+  input.setAttribute('aria-expanded', 'false');
+  input.setAttribute('aria-controls', listboxId);
+  input.setAttribute('autocomplete', 'off');
+
+  let options: SuggestionOption[] = [];
+  let activeIndex = -1;
+  let debounceTimer: number | undefined;
+  let updateGeneration = 0; // bumped by each update and by close, so stale updates stop
+
+  const setActive = (index: number): void => {
+    activeIndex = index;
+    options.forEach((option, i) => {
+      const el = document.getElementById(option.id);
+      el?.classList.toggle('active', i === index);
+      el?.setAttribute('aria-selected', i === index ? 'true' : 'false');
+    });
+
+    const active = options[index];
+    if (active) {
+      input.setAttribute('aria-activedescendant', active.id);
+      document.getElementById(active.id)?.scrollIntoView({ block: 'nearest' });
+    } else {
+      input.removeAttribute('aria-activedescendant');
+    }
+  };
+
+  const close = (): void => {
+    window.clearTimeout(debounceTimer);
+    updateGeneration++;
+    listbox.classList.remove('show');
+    listbox.innerHTML = '';
+    input.setAttribute('aria-expanded', 'false');
+    input.removeAttribute('aria-activedescendant');
+    options = [];
+    activeIndex = -1;
+  };
+
+  const openOption = (option: SuggestionOption): void => {
+    close();
+    if (option.external) {
+      window.open(option.url, '_blank', 'noopener,noreferrer');
+    } else {
+      window.location.href = option.url;
+    }
+  };
+
+  const render = (query: string, matches: SearchItem[]): void => {
+    const groups = getGroupedSuggestions(matches);
+    options = [];
+
+    const groupsHtml = groups
+      .map((group) => {
+        const headingId = `${listboxId}-${group.type}`;
+        const itemsHtml = group.items
+          .map((item) => {
+            const option: SuggestionOption = {
+              id: `${listboxId}-option-${options.length}`,
+              url: item.url,
+              external: item.type === 'publication',
+            };
+            options.push(option);
+            return `
+              <div id="${option.id}" class="dropdown-item bp-search-autocomplete-option" role="option" aria-selected="false" data-option-index="${options.length - 1}">
+                <div class="text-truncate">${escapeHtml(item.title)}</div>
+                ${item.summary ? `<div class="small text-muted text-truncate">${escapeHtml(item.summary)}</div>` : ''}
+              </div>
+            `;
+          })
+          .join('');
+
+        return `
+          <div role="group" aria-labelledby="${headingId}">
+            <div id="${headingId}" class="dropdown-header" role="presentation">${group.label}</div>
+            ${itemsHtml}
+          </div>
+        `;
+      })
+      .join('');
+
+    // Final option always leads to the full results page
+    const seeAllOption: SuggestionOption = {
+      id: `${listboxId}-option-${options.length}`,
+      url: getSearchPageUrl(query),
+      external: false,
+    };
+    options.push(seeAllOption);
+
+    listbox.innerHTML = `
+      ${groupsHtml || '<div class="dropdown-item-text small text-muted">No quick matches</div>'}
+      <div class="dropdown-divider" role="presentation"></div>
+      <div id="${seeAllOption.id}" class="dropdown-item small" role="option" aria-selected="false" data-option-index="${options.length - 1}">
+        See all results for "<strong>${escapeHtml(query)}</strong>"
+      </div>
+    `;
+
+    listbox.classList.add('show');
+    input.setAttribute('aria-expanded', 'true');
+    setActive(-1);
+
+    const count = options.length - 1;
+    status.textContent = `${count} suggestion${count !== 1 ? 's' : ''} available.`;
+  };
+
+  const update = async (): Promise<void> => {
+    const query = input.value.trim();
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      close();
+      return;
+    }
+
+    const generation = ++updateGeneration;
+    const data = await loadSearchIndex();
+    // Ignore stale responses if the user kept typing or dismissed the suggestions
+    if (generation !== updateGeneration) return;
+
+    let matches = searchItems(data, query);
+    if (matches.length === 0) {
+      matches = searchItems(data, query, undefined, { fuzzy: true });
+    }
+    render(query, matches);
+  };
+
+  input.addEventListener('input', () => {
+    window.clearTimeout(debounceTimer);
+    debounceTimer = window.setTimeout(() => {
+      update().catch((error) => {
+        console.error('Error loading search suggestions:', error);
+        close();
+      });
+    }, INPUT_DEBOUNCE_MS);
+  });
+
+  input.addEventListener('keydown', (event) => {
+    const isOpen = listbox.classList.contains('show');
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (!isOpen) {
+          update().catch(() => close());
+          return;
+        }
+        setActive(activeIndex + 1 >= options.length ? 0 : activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        if (!isOpen) return;
+        event.preventDefault();
+        setActive(activeIndex <= 0 ? options.length - 1 : activeIndex - 1);
+        break;
+      case 'Enter':
+        // Without a highlighted option, let the form submit to the results page
+        if (isOpen && options[activeIndex]) {
+          event.preventDefault();
+          openOption(options[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        if (isOpen) {
+          event.preventDefault();
+          close();
+        }
+        break;
+    }
+  });
+
+  // Keep focus in the input while clicking an option
+  listbox.addEventListener('mousedown', (event) => {
+    event.preventDefault();
+  });
+
+  listbox.addEventListener('click', (event) => {
+    const target = (event.target as HTMLElement).closest<HTMLElement>('[data-option-index]');
+    const index = Number(target?.getAttribute('data-option-index'));
+    if (target && options[index]) {
+      openOption(options[index]);
+    }
+  });
+
+  input.addEventListener('blur', () => {
+    close();
+  });
+
+  form.addEventListener('submit', () => {
+    close();
+  });
+}
@@ -0,0 +1,58 @@
+import review from './publications/author-match-review.json';
+
+/**
+ * Maintainer decisions on author → person matches
+ *
+ * `npm run review:authors` writes the author matches the matcher is unsure about to
+ * src/data/publications/author-match-review.json: low-confidence matches (initials backed
+ * only by co-authors or affiliation, or initials alone) and ambiguous authors who could be
+ * more than one person. Each entry starts as `pending`.
+ *
+ * To review a match, set `decision` to `accepted` or `rejected` in the JSON file and add a
+ * `note` saying how it was checked. The matcher in src/utils/authorMatching.ts honours
+ * decisions on every build: an accepted match is treated as certain and a rejected one is
+ * never made. Re-running the command keeps every decision and refreshes the pending entries.
+ */
+export type AuthorMatchDecision = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * Why a match was written to the review file
+ */
+export type AuthorMatchReviewReason =
+  | 'low-confidence' // the only candidate, but not matched by identifier or full name
+  | 'ambiguous'; // one of several people the author could be
+
+/**
+ * A proposed author → person match awaiting (or recording) a maintainer decision
+ */
+export interface AuthorMatchReviewEntry {
+  publicationId: string; // publication ID as shown on the site
+  doi?: string; // publication DOI, so the decision survives a change of primary record
+  title: string; // for the reviewer; not used for matching
+  year?: number;
+  authorName: string; // the author's name exactly as it appears on the publication
+  authorPosition?: number; // 1-based
+  personSlug: string;
+  confidence: number; // matcher confidence when the entry was written
+  signals: string[]; // matcher evidence when the entry was written
+  reason: AuthorMatchReviewReason;
+  decision: AuthorMatchDecision;
+  note?: string; // how the decision was checked
+}
+
+/**
+ * Contents of the review file
+ */
+export interface AuthorMatchReviewFile {
+  generatedAt: string | null; // when review:authors last wrote the file
+  entries: AuthorMatchReviewEntry[];
+}
+
+export const authorMatchReview = review as AuthorMatchReviewFile;
+
+/**
+ * Entries a maintainer has accepted or rejected
+ */
+export const authorMatchDecisions: AuthorMatchReviewEntry[] = authorMatchReview.entries.filter(
+  (entry) => entry.decision !== 'pending'
+);
@@ -9,7 +9,15 @@
  *    - url: Optional URL to link to the partner's website
  *    - logoSrc: Path to logo image (e.g., '/logos/partner-name.png')
  */
-import type { Partner } from '../components/footer';
+
+/**
+ * Partner shown in the site footer (a placeholder is shown when logoSrc is missing)
+ */
+export interface Partner {
+  name: string;
+  url?: string;
+  logoSrc?: string; // Path to logo image, e.g., '/logos/university-logo.png'
+}
 
 export const partners: Partner[] = [
   {
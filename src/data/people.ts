@@ -29,10 +29,11 @@ export interface Person {
   website?: string;
   photoUrl?: string; // Path to photo in public/photos/ (e.g., '/photos/mark-gahegan.webp')
   orcidId?: string; // ORCID identifier, e.g. "0000-0001-7209-8156"
+  openAlexIds?: string[]; // OpenAlex author IDs, e.g. "https://openalex.org/A5069438601"
+  aliases?: string[]; // other names the person publishes under, e.g. "Augustus Ellerm"
   publicationSource?: PublicationSource; // default: 'openalex' if not set
   tags?: string[];
   themeSlugs?: string[]; // Research theme slugs (project slugs) this person works on
-  [key: string]: unknown; // Allow additional fields for future expansion
 }
 
 /**
@@ -58,6 +59,7 @@ export const principalInvestigators: Person[] = [
     email: 'm.gahegan@auckland.ac.nz',
     photoUrl: '/photos/mark-gahegan.webp',
     orcidId: '0000-0001-7209-8156',
+    openAlexIds: ['https://openalex.org/A5069438601'],
     themeSlugs: [
       'live-research-articles',
       'trustworthy-explainable-ai',
@@ -92,6 +94,7 @@ export const coInvestigators: Person[] = [
     email: 'alexei@cs.auckland.ac.nz',
     photoUrl: '/photos/alexei-drummond.webp',
     orcidId: '0000-0003-4454-2576',
+    openAlexIds: ['https://openalex.org/A5079724732', 'https://openalex.org/A2126914035'],
     themeSlugs: ['genomics-data-science', 'biodiversity-ecology-biosecurity'],
     bio: "Professor Alexei Drummond is an evolutionary biologist and computational phylogeneticist at Waipapa Taumata Rau, The University of Auckland. He is widely known for co-developing the BEAST software platform and for pioneering Bayesian methods for inferring evolutionary histories and molecular clocks. Alexei holds a James Cook Research Fellowship from Royal Society Te Apārangi and leads research that integrates genomics, statistics and computation to understand how populations and pathogens evolve through time, expertise that underpins the project's phylogenetic and modelling components.",
     bioSources: [
@@ -114,6 +117,8 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/ben-adams.webp',
     email: 'benjamin.adams@canterbury.ac.nz',
     orcidId: '0000-0002-1657-9809',
+    openAlexIds: ['https://openalex.org/A5009482088'],
+    aliases: ['Benjamin Adams'],
     publicationSource: 'orcid',
     themeSlugs: [
       'live-research-articles',
@@ -142,6 +147,7 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/paul-gardner.webp',
     email: 'paul.gardner@otago.ac.nz',
     orcidId: '0000-0002-7808-1213',
+    openAlexIds: ['https://openalex.org/A5067459027'],
     publicationSource: 'orcid',
     themeSlugs: ['genomics-data-science', 'biodiversity-ecology-biosecurity'],
     bio: "Associate Professor Paul Gardner is a bioinformatician at the University of Otago whose research centres on RNA biology, comparative genomics and the development of computational methods for analysing high-throughput sequencing data. He has contributed to widely used RNA databases and tools, and works at the interface of molecular biology, statistics and computer science. Paul's experience in building and maintaining research software and data resources informs the project's approach to sustainable, reproducible computational pipelines.",
@@ -165,6 +171,8 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/phillip-wilcox.webp',
     email: 'phillip.wilcox@otago.ac.nz',
     orcidId: '0000-0001-8485-6962',
+    openAlexIds: ['https://openalex.org/A5063687930'],
+    aliases: ['Pearce Wilcox'],
     themeSlugs: [
       'genomics-data-science',
       'biodiversity-ecology-biosecurity',
@@ -195,6 +203,7 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/lara-greaves.webp',
     email: 'lara.greaves@auckland.ac.nz',
     orcidId: '0000-0003-0537-7125',
+    openAlexIds: ['https://openalex.org/A5007795454'],
     publicationSource: 'orcid',
     themeSlugs: ['maori-genomics-data-sovereignty'],
     bio: "Associate Professor Lara Greaves (Ngāpuhi, Pākehā, Tararā) is a political scientist whose work sits at the intersection of psychology, Māori politics and public policy. She holds roles at Te Herenga Waka—Victoria University of Wellington and Waipapa Taumata Rau, The University of Auckland, and is a Rutherford Discovery Fellow. Lara's research examines Māori political attitudes, participation and representation, and she is a regular commentator on Aotearoa New Zealand politics. She brings to the project deep expertise in survey design, civic engagement and the politics of data and representation.",
@@ -218,6 +227,7 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/alex-gavryushkin.webp',
     email: 'alex@biods.org',
     orcidId: '0000-0001-6299-8249',
+    openAlexIds: ['https://openalex.org/A5086499703'],
     publicationSource: 'orcid',
     themeSlugs: ['genomics-data-science', 'biodiversity-ecology-biosecurity'],
     bio: "Associate Professor Alex Gavryushkin is a data scientist whose research lies in computational genomics, algorithm design and mathematical biology. Based at the University of Canterbury, he leads the Biological Data Science lab and holds a Rutherford Discovery Fellowship. Alex's work focuses on scalable algorithms for molecular sequence data and on modelling complex evolutionary and biosecurity scenarios, making his expertise central to the project's goals around rigorous, high-dimension statistical modelling and efficient analysis pipelines.",
@@ -241,6 +251,8 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/sebastian-link.webp',
     email: 's.link@auckland.ac.nz',
     orcidId: '0000-0002-1816-2863',
+    openAlexIds: ['https://openalex.org/A5069839542'],
+    aliases: ['S. Link'],
     publicationSource: 'orcid',
     themeSlugs: ['trustworthy-explainable-ai'],
     bio: 'Professor Sebastian Link is a computer scientist at Waipapa Taumata Rau, The University of Auckland, whose research covers data management, database theory and information quality. His work on dependencies, schemas and data modelling underpins reliable, high-integrity information systems. Sebastian has contributed to both theoretical and applied aspects of data engineering, and in this project he lends expertise in formalising data structures, ensuring that research outputs and provenance records remain consistent, queryable and robust over time.',
@@ -264,6 +276,7 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/michael-witbrock.webp',
     email: 'm.witbrock@auckland.ac.nz',
     orcidId: '0000-0002-7554-0971',
+    openAlexIds: ['https://openalex.org/A5057995059'],
     publicationSource: 'orcid',
     themeSlugs: ['trustworthy-explainable-ai'],
     bio: "Professor Michael Witbrock is an artificial intelligence researcher in the School of Computer Science at Waipapa Taumata Rau, The University of Auckland, where he leads the Strong AI Lab and co-directs the NAO Institute for Natural, Artificial and Organisational Intelligence. A Carnegie Mellon–trained computer scientist and former Cycorp and IBM Watson researcher, he works on reasoning, natural language understanding and AI for social good. Michael also advises government on AI policy. His experience in large-scale AI systems and responsible innovation informs the project's approach to intelligent, trustworthy research infrastructures.",
@@ -291,6 +304,8 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/michael-black.webp',
     email: 'mik.black@otago.ac.nz',
     orcidId: '0000-0003-1174-6054',
+    openAlexIds: ['https://openalex.org/A5063087649'],
+    aliases: ['M. A. Black'],
     publicationSource: 'orcid',
     themeSlugs: ['genomics-data-science'],
     bio: "Professor Michael (Mik) Black is a biostatistician at the University of Otago whose research focuses on statistical genomics and the development of methods for analysing high-dimensional genomic data, especially in cancer and other human diseases. He co-leads the Genomics Aotearoa Bioinformatics Capability project and works extensively with collaborative, cross-disciplinary teams. Mik's experience in designing robust statistical pipelines and integrating diverse datasets supports the project's emphasis on reproducible, scalable analysis of genomic and biomedical information.",
@@ -315,6 +330,7 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/david-bryant.webp',
     email: 'david.bryant@otago.ac.nz',
     orcidId: '0000-0003-1963-5535',
+    openAlexIds: ['https://openalex.org/A5075139465'],
     publicationSource: 'orcid',
     themeSlugs: ['genomics-data-science', 'biodiversity-ecology-biosecurity'],
     bio: "Professor David Bryant is an applied mathematician in the Department of Mathematics and Statistics at the University of Otago. His research sits at the interface of mathematics, statistics and evolutionary biology, with contributions to phylogenetics, Bayesian statistics and the development of new models for evolutionary processes. David's work on tree- and network-based methods for evolutionary inference informs the project's mathematical foundations and helps ensure that its analytical tools for complex biological data are rigorous and well-grounded.",
@@ -338,6 +354,7 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/nigel-french.webp',
     email: 'N.P.French@massey.ac.nz',
     orcidId: '0000-0002-6334-0657',
+    openAlexIds: ['https://openalex.org/A5055925102'],
     publicationSource: 'orcid',
     themeSlugs: ['biodiversity-ecology-biosecurity'],
     bio: "Distinguished Professor Nigel French CNZM, FRSNZ is an infectious disease epidemiologist at Massey University. He has led major initiatives such as Te Niwha, the Infectious Diseases Research Platform, and the New Zealand Food Safety Science and Research Centre, and is internationally recognised for work on foodborne and zoonotic diseases. Nigel's expertise in one-health approaches, quantitative risk assessment and national research platforms contributes to the project's focus on robust, real-world applications of data-intensive science.",
@@ -361,6 +378,7 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/anna-santure.webp',
     email: 'a.santure@auckland.ac.nz',
     orcidId: '0000-0001-8965-1042',
+    openAlexIds: ['https://openalex.org/A5079336422'],
     themeSlugs: ['biodiversity-ecology-biosecurity'],
     bio: 'Associate Professor Anna Santure is a geneticist in the School of Biological Sciences at Waipapa Taumata Rau, The University of Auckland. Her research uses genomic, ecological and environmental data to understand how wild populations respond and adapt to rapid environmental change, including work on threatened taonga species and invasive species. Anna is a principal investigator with Te Pūnaha Matatini, and brings to the project expertise in evolutionary genomics, conservation genetics and the integration of complex biological datasets into reproducible analytical workflows.',
     bioSources: [
@@ -383,6 +401,8 @@ export const coInvestigators: Person[] = [
     photoUrl: '/photos/marti-anderson.webp',
     email: 'M.J.Anderson@massey.ac.nz',
     orcidId: '0000-0002-4018-4049',
+    openAlexIds: ['https://openalex.org/A5049228176'],
+    aliases: ['M. J. Anderson'],
     publicationSource: 'orcid',
     themeSlugs: ['biodiversity-ecology-biosecurity'],
     bio: "Distinguished Professor Marti J. Anderson is an ecological statistician whose work bridges marine ecology, biodiversity and advanced statistical methods. Based at the New Zealand Institute for Advanced Study at Massey University and director of the research and software company PRIMER-e, she is renowned for developing multivariate techniques such as PERMANOVA and for contributions to experimental design and community ecology. Marti's experience translating cutting-edge statistical methods into usable software informs the project's aim of making sophisticated analytics accessible and reproducible for domain scientists.",
@@ -448,6 +468,7 @@ export const postDocs: Person[] = [
     photoUrl: '/photos/neset-tan.webp',
     email: 'neset.tan@auckland.ac.nz',
     orcidId: '0000-0001-6201-7295',
+    openAlexIds: ['https://openalex.org/A5062975742'],
     themeSlugs: ['trustworthy-explainable-ai'],
     bio: 'Dr Neşet (Neset) Tan is a researcher in the Strong AI Lab at Waipapa Taumata Rau, The University of Auckland. With a background in mathematics and experience across academia and industry, his work focuses on natural language processing and the automation of data-science workflows. Neset contributes to the project by investigating how modern AI techniques can support live, interpretable research pipelines and by helping to bridge between statistical computing, software engineering and large-scale machine-learning systems.',
     bioSources: [
@@ -474,6 +495,8 @@ export const postDocs: Person[] = [
     photoUrl: '/photos/jo-klawitter.webp',
     email: 'jo.klawitter@auckland.ac.nz',
     orcidId: '0000-0001-8917-5269',
+    openAlexIds: ['https://openalex.org/A5077181010'],
+    aliases: ['Jonathan Klawitter'],
     publicationSource: 'orcid',
     themeSlugs: ['biodiversity-ecology-biosecurity'],
     bio: "Dr Jonathan (Jo) Klawitter is a researcher in phylogenetic theory and algorithms whose work focuses on tree- and network-based models of evolutionary history. He has developed new results on rearrangement operations and distances on phylogenetic networks, and more recently on credible sets for Bayesian phylogenetic tree topology distributions and methods for visualising geophylogenies. Jo's expertise in discrete mathematics, algorithm design and computational phylogenetics strengthens the project's capability to represent, analyse and visualise complex evolutionary scenarios within live, updateable research outputs.",
@@ -501,6 +524,8 @@ export const postDocs: Person[] = [
     roleLabel: 'Post-Doc',
     email: 'gus.ellerm@auckland.ac.nz',
     orcidId: '0000-0001-8260-231X',
+    openAlexIds: ['https://openalex.org/A5070970714'],
+    aliases: ['Augustus Ellerm', 'Augustus (Gus) Ellerm', 'A. Ellerm'],
     photoUrl: '/photos/gus-ellerm.webp',
     themeSlugs: ['live-research-articles', 'ai-research-literature'],
     bio: 'Augustus (Gus) Ellerm is a computer scientist whose research centres on research workflows, provenance and live scientific publications. Based at the University of Canterbury, he is lead author of the "Enabling LivePublication" and "LivePublication: The Science Workflow Creates and Updates the Publication" papers, which prototype systems where computational workflows directly drive and update scientific articles. Gus\'s work on integrating workflow systems, provenance standards and publication technologies underpins this project\'s vision of dynamic, reproducible and machine-actionable research outputs.',
@@ -0,0 +1,32 @@
+import type { PersonPublication } from './publications';
+
+/**
+ * Manual correction to harvested publication metadata
+ *
+ * Overrides are applied when the publication store is created, so they survive
+ * `npm run update:publications` and apply to every copy of a work (OpenAlex, ORCID and
+ * DOI records). Every override needs an audit note; scripts/check_publication_issues.ts lists
+ * them in src/data/publications/ISSUES.md.
+ *
+ * To add an override:
+ * 1. Add an entry to the publicationOverrides array below, keyed by the work's ID or DOI
+ * 2. Set `patch` to correct fields, `hide` to remove the work from the site, and/or
+ *    `themeSlugs` to list it under research themes
+ * 3. Explain why in `note`, then run `npm run validate:data`
+ *
+ * Example:
+ *   {
+ *     id: '10.1234/example',
+ *     patch: { title: 'Correct Title', year: 2023 },
+ *     note: 'OpenAlex has the preprint title and year; checked against the publisher page',
+ *   }
+ */
+export interface PublicationOverride {
+  id: string; // publication ID (OpenAlex, ORCID or custom) or DOI in any format
+  note: string; // audit note: what was wrong and how the correction was checked
+  patch?: Partial<Omit<PersonPublication, 'id'>>; // fields to replace
+  hide?: boolean; // remove the work everywhere on the site
+  themeSlugs?: string[]; // research themes (project slugs) to list the work under
+}
+
+export const publicationOverrides: PublicationOverride[] = [];
@@ -10,6 +10,72 @@ export interface PublicationAuthor {
   orcidId?: string; // ORCID ID if available (e.g., "0000-0001-7209-8156")
   openAlexId?: string; // OpenAlex author ID if available
   position?: number; // Author position in the author list (1-based)
+  affiliations?: string[]; // Institutions listed for the author on this work
+}
+
+/**
+ * Where a publication record was loaded from
+ */
+export type PublicationOrigin = 'openalex' | 'orcid' | 'doi';
+
+export const PUBLICATION_ORIGIN_LABELS: Record<PublicationOrigin, string> = {
+  openalex: 'OpenAlex',
+  orcid: 'ORCID',
+  doi: 'DOI record',
+};
+
+/**
+ * Kind of research output
+ */
+export type PublicationType =
+  | 'journal-article'
+  | 'conference-paper'
+  | 'preprint'
+  | 'book'
+  | 'book-chapter'
+  | 'thesis'
+  | 'dataset'
+  | 'software'
+  | 'report'
+  | 'other';
+
+export const PUBLICATION_TYPE_LABELS: Record<PublicationType, string> = {
+  'journal-article': 'Journal article',
+  'conference-paper': 'Conference paper',
+  preprint: 'Preprint',
+  book: 'Book',
+  'book-chapter': 'Book chapter',
+  thesis: 'Thesis',
+  dataset: 'Dataset',
+  software: 'Software',
+  report: 'Report',
+  other: 'Other',
+};
+
+/**
+ * Open-access status of a work, as classified by OpenAlex
+ * Diamond and gold works are published open access (diamond without author charges),
+ * hybrid works are openly licensed in a subscription journal, bronze works are free to read
+ * at the publisher without an open licence, and green works are free in a repository only.
+ */
+export type OpenAccessStatus = 'diamond' | 'gold' | 'hybrid' | 'bronze' | 'green' | 'closed';
+
+export const OPEN_ACCESS_STATUS_LABELS: Record<OpenAccessStatus, string> = {
+  diamond: 'Diamond',
+  gold: 'Gold',
+  hybrid: 'Hybrid',
+  bronze: 'Bronze',
+  green: 'Green',
+  closed: 'Closed',
+};
+
+/**
+ * Citation counts from OpenAlex at the time of a harvest
+ */
+export interface PublicationCitations {
+  count: number; // total citations (OpenAlex cited_by_count)
+  byYear: { year: number; count: number }[]; // citations received per year, oldest first (recent years only)
+  asOf: string; // snapshot date the counts were harvested (YYYY-MM-DD)
 }
 
 export interface PersonPublication {
@@ -19,6 +85,10 @@ export interface PersonPublication {
   venue?: string; // journal / conference / source name
   doi?: string;
   openAccessUrl?: string; // best available public URL, if any
+  openAccessStatus?: OpenAccessStatus; // set by the OpenAlex harvests; unknown for other records
+  licence?: string; // licence of the best open-access version, as an OpenAlex licence ID (e.g. "cc-by")
+  type?: PublicationType; // set by the harvest scripts; see utils/publicationTypes for untyped records
+  citations?: PublicationCitations; // set by the OpenAlex harvests
   authors?: PublicationAuthor[]; // List of authors for this publication
 }
 
@@ -0,0 +1,246 @@
+/**
+ * Research outputs other than publications: software, datasets, workshops and talks
+ *
+ * Publications are harvested (see src/data/publications.ts); these outputs are curated by
+ * hand, mostly from the annual reports. They are listed alongside publications on the
+ * Research Outputs page, and on the person and theme pages they are linked to.
+ *
+ * To add an output:
+ * 1. Add a new object to the researchOutputs array below with a unique slug and its kind
+ * 2. Link the people directory entries (personSlugs) and research themes (themeSlugs);
+ *    name anyone not in the people directory in `contributors`
+ * 3. Add whichever links apply (website, repository, archived DOI), then run
+ *    `npm run validate:data`
+ */
+
+/**
+ * Kind of non-publication research output
+ */
+export type ResearchOutputKind = 'software' | 'dataset' | 'workshop' | 'talk';
+
+/**
+ * Display labels for research output kinds (in display order)
+ */
+export const RESEARCH_OUTPUT_KIND_LABELS: Record<ResearchOutputKind, string> = {
+  software: 'Software',
+  dataset: 'Dataset',
+  workshop: 'Workshop',
+  talk: 'Talk',
+};
+
+/**
+ * Research output data model
+ */
+export interface ResearchOutput {
+  slug: string; // unique, URL-safe identifier (lowercase, hyphen-separated)
+  kind: ResearchOutputKind;
+  title: string;
+  description?: string; // 1–2 sentences shown on the card
+  year: number; // release year, or the year the event took place
+  venue?: string; // workshops and talks: event name and place, e.g. "NZ eResearch Conference"
+  url?: string; // project website, event page or recording
+  repositoryUrl?: string; // source code or data repository, e.g. on GitHub
+  doi?: string; // archived release, e.g. a Zenodo DOI (any format)
+  licence?: string; // SPDX licence identifier, e.g. "MIT" or "CC-BY-4.0"
+  personSlugs: string[]; // people directory entries who created or presented the output
+  contributors?: string[]; // names of contributors who are not in the people directory
+  themeSlugs: string[]; // research themes (project slugs) the output belongs to
+}
+
+/**
+ * Research outputs database
+ */
+export const researchOutputs: ResearchOutput[] = [
+  {
+    slug: 'coastsat-livepublication',
+    kind: 'software',
+    title: 'CoastSat LivePublication',
+    description:
+      'The first public deployment of the LivePublication framework: a live article on shoreline change in New Zealand built on the CoastSat coastline monitoring system, with companion interface, micropublication and shoreline publication repositories.',
+    year: 2025,
+    url: 'https://coastsat.livepublication.org/',
+    repositoryUrl: 'https://github.com/GusEllerm/CoastSat/tree/livepublication',
+    personSlugs: ['gus-ellerm', 'mark-gahegan', 'ben-adams'],
+    themeSlugs: ['live-research-articles'],
+  },
+  {
+    slug: 'kea-explain',
+    kind: 'software',
+    title: 'KEA Explain: hallucination explanation with graph kernel analysis',
+    description:
+      'Kernel-Enriched AI (KEA) Explain, a neurosymbolic technique for detecting hallucinations in large language models and explaining why a response may be unreliable.',
+    year: 2025,
+    repositoryUrl: 'https://github.com/Reih02/hallucination_explanation_graph_kernel_analysis',
+    personSlugs: ['ben-adams'],
+    contributors: ['Reilly Haskins'],
+    themeSlugs: ['trustworthy-explainable-ai'],
+  },
+  {
+    slug: 'calibrated-coalescent-point-process',
+    kind: 'software',
+    title: 'Calibrated coalescent point process',
+    description:
+      'An implementation of the calibrated coalescent point process tree prior, with a companion BEAST 2 package (CalibratedCPP_BEAST).',
+    year: 2025,
+    repositoryUrl: 'https://github.com/moverwater/calibrated_cpp',
+    personSlugs: [],
+    contributors: ['moverwater (GitHub)'], // the 2024–2025 report names only the repository owner
+    themeSlugs: ['genomics-data-science'],
+  },
+  {
+    slug: 'calibrated-cpp-beast',
+    kind: 'software',
+    title: 'CalibratedCPP_BEAST',
+    description:
+      'A BEAST 2 package for the calibrated coalescent point process tree prior, for use in Bayesian phylogenetic analyses.',
+    year: 2025,
+    repositoryUrl: 'https://github.com/moverwater/CalibratedCPP_BEAST',
+    personSlugs: [],
+    contributors: ['moverwater (GitHub)'],
+    themeSlugs: ['genomics-data-science'],
+  },
+  {
+    slug: 'variant-calling-experiments',
+    kind: 'software',
+    title: 'Single-cell DNA sequencing variant calling simulation pipeline',
+    description:
+      'A simulation pipeline for single-cell DNA sequencing variant calling, used to assess Bayesian phylogenetic inference.',
+    year: 2025,
+    repositoryUrl: 'https://github.com/EvaLiyt/VariantCallingExperiments',
+    personSlugs: [],
+    contributors: ['Eva (Yutong) Li'],
+    themeSlugs: ['genomics-data-science'],
+  },
+  {
+    slug: 'protein-coding-prediction-benchmark',
+    kind: 'software',
+    title: 'Protein-coding prediction benchmark (PCPBFull)',
+    description:
+      'The complete scripts and data for benchmarking computational tools that detect protein-coding sequences.',
+    year: 2024,
+    repositoryUrl: 'https://github.com/Gardner-BinfLab/PCPBFull',
+    personSlugs: ['paul-gardner', 'michael-black'],
+    themeSlugs: ['genomics-data-science'],
+  },
+  {
+    slug: 'protein-coding-prediction-benchmark-data',
+    kind: 'dataset',
+    title: 'Protein-coding prediction benchmark scores and control datasets (PCPBSlim)',
+    description:
+      'Tool scores and control datasets from the protein-coding prediction benchmark, without the full pipeline.',
+    year: 2024,
+    repositoryUrl: 'https://github.com/Gardner-BinfLab/PCPBSlim',
+    personSlugs: ['paul-gardner', 'michael-black'],
+    themeSlugs: ['genomics-data-science'],
+  },
+  {
+    slug: 'resbaz-2022',
+    kind: 'workshop',
+    title: 'ResBaz Aotearoa 2022',
+    description:
+      'The Research Bazaar digital skills festival, with a Data Science track of 25 hands-on workshops for researchers across the country.',
+    year: 2022,
+    venue: 'Research Bazaar Aotearoa',
+    url: 'https://resbaz.auckland.ac.nz/sessions/',
+    personSlugs: ['mark-gahegan'],
+    contributors: ['Laura Armstrong'],
+    themeSlugs: ['digital-research-skills'],
+  },
+  {
+    slug: 'resbaz-2025',
+    kind: 'workshop',
+    title: 'ResBaz Aotearoa 2025',
+    description:
+      'Hands-on data science training attended by over 2300 researchers from all of Aotearoa’s universities, most Crown Research Institutes, government and the private sector.',
+    year: 2025,
+    venue: 'Research Bazaar Aotearoa',
+    url: 'https://resbaz.auckland.ac.nz/schedule/',
+    personSlugs: ['mark-gahegan'],
+    themeSlugs: ['digital-research-skills'],
+  },
+  {
+    slug: 'from-static-to-dynamic-eresearch-2025',
+    kind: 'talk',
+    title:
+      'From Static to Dynamic: Live Publication and the Quest for Reproducible, Living Articles',
+    year: 2025,
+    venue: 'NZ eResearch Conference',
+    personSlugs: ['gus-ellerm', 'mark-gahegan', 'ben-adams'],
+    themeSlugs: ['live-research-articles'],
+  },
+  {
+    slug: 'bioinformatic-tool-accuracy-eresearch-2025',
+    kind: 'talk',
+    title: 'What drives bioinformatic tool accuracy?',
+    year: 2025,
+    venue: 'NZ eResearch Conference',
+    url: 'https://www.youtube.com/watch?v=Z-eIFn5muJU',
+    personSlugs: ['paul-gardner'],
+    themeSlugs: ['genomics-data-science'],
+  },
+  {
+    slug: 'hihi-inbreeding-load-gsa-2025',
+    kind: 'talk',
+    title:
+      'Inbreeding load in a small and managed population: two decades of Hihi/Stitchbird genomics',
+    description: 'Awarded best talk at the conference.',
+    year: 2025,
+    venue: 'Genetics Society of Australasia Conference, Auckland',
+    personSlugs: [],
+    contributors: ['Hui Zhen Tan'],
+    themeSlugs: ['biodiversity-ecology-biosecurity'],
+  },
+  {
+    slug: 'population-simulator-gsa-2025',
+    kind: 'talk',
+    title:
+      'Development of a Population Simulator to Optimise Study Designs and Estimate Polygenic Disease Risk/Resilience in Aotearoa Māori Populations',
+    description:
+      'Also presented at the Maurice Wilkins Centre Symposium and the NZ eResearch Conference (February 2025) and at GeneMappers (August 2024).',
+    year: 2025,
+    venue: 'Genetics Society of Australasia Conference, Auckland',
+    personSlugs: ['phillip-wilcox'],
+    themeSlugs: ['maori-genomics-data-sovereignty'],
+  },
+  {
+    slug: 'ai-for-evaluating-scientific-claims-sca-2025',
+    kind: 'talk',
+    title: 'AI for evaluating scientific claims',
+    description: 'Invited talk to the Trillion Parameters Consortium Special Interest Group.',
+    year: 2025,
+    venue: 'Supercomputing Asia 2025',
+    personSlugs: ['mark-gahegan'],
+    themeSlugs: ['ai-research-literature'],
+  },
+];
+
+/**
+ * Sorts research outputs newest first, then by title
+ * @param outputs - The outputs to sort
+ * @returns A new sorted array
+ */
+export function sortResearchOutputs(outputs: ResearchOutput[]): ResearchOutput[] {
+  return [...outputs].sort((a, b) => b.year - a.year || a.title.localeCompare(b.title));
+}
+
+/**
+ * Gets the research outputs linked to a person
+ * @param personSlug - The person's slug
+ * @returns The person's outputs, newest first
+ */
+export function getResearchOutputsForPerson(personSlug: string): ResearchOutput[] {
+  return sortResearchOutputs(
+    researchOutputs.filter((output) => output.personSlugs.includes(personSlug))
+  );
+}
+
+/**
+ * Gets the research outputs belonging to a research theme
+ * @param themeSlug - The theme's project slug
+ * @returns The theme's outputs, newest first
+ */
+export function getResearchOutputsForTheme(themeSlug: string): ResearchOutput[] {
+  return sortResearchOutputs(
+    researchOutputs.filter((output) => output.themeSlugs.includes(themeSlug))
+  );
+}
@@ -53,7 +53,6 @@ export interface ResearchProject {
   tags?: string[];
   imageUrl?: string;
   publicationDate?: string;
-  [key: string]: unknown; // Allow additional fields for future expansion
 }
 
 // Legacy type alias for backward compatibility during migration
@@ -86,8 +85,7 @@ export const researchProjects: ResearchProject[] = [
           'A poster demonstrating the LivePublication framework and its applications to scientific research.',
         description:
           'LivePublication is a prototype that treats a research article as part of a live computational system rather than a static PDF. It connects an experiment infrastructure (running workflows on Sentinel-2 satellite data), an interface that collects results and provenance, and a web-based “LivePaper” that updates its figures and text as new computations are run. The poster shows how this approach supports reproducibility, transparency, and ongoing data-driven updates to the publication.',
-        showcaseKind: 'pdf',
-        showcaseSource: 'projects/live-research-articles/livepub-early-poster.pdf',
+        // No showcase until the poster PDF (livepub-early-poster.pdf) is added to public/
         publicationIds: [
           'https://openalex.org/W4312933824',
           'https://openalex.org/W4387005217',
@@ -223,7 +221,7 @@ export const researchProjects: ResearchProject[] = [
       },
     ],
     publicationIds: [
-      'https://doi.org/10.1111/1755-0998.1386',
+      'https://doi.org/10.1111/1755-0998.13866',
       'https://doi.org/10.6084/m9.figshare.28537430.v1',
       'https://openalex.org/W3092360857',
       'https://openalex.org/W3097588841',
@@ -422,7 +420,7 @@ export const researchProjects: ResearchProject[] = [
       },
     ],
     publicationIds: [
-      'https://doi.org/10.1111/1755-0998.1386',
+      'https://doi.org/10.1111/1755-0998.13866',
       'https://openalex.org/W4391652876',
       'https://openalex.org/W4392026818',
     ],
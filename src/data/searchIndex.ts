@@ -1,50 +1,79 @@
 import { researchProjects } from './researchProjects';
 import { allPeople } from './people';
-import type { PersonPublication, PersonPublicationsSnapshot } from './publications';
-import { createPublicationLookup } from '../utils/publications';
+import type { PublicationOrigin } from './publications';
+import { currentForwardPlan, reports } from './reports';
+import { getNameAliasesForPerson, getPublicationAuthors } from '../utils/authorMatching';
+import {
+  buildInvertedIndex,
+  queryInvertedIndex,
+  suggestQuery,
+  type InvertedIndex,
+  type SearchField,
+} from '../utils/searchEngine';
+import { addHeadingAnchors, splitHtmlByHeading } from '../utils/htmlSections';
+import { getDoiUrl } from '../utils/doi';
+import type { PublicationStore } from '../utils/publicationStore';
 
 /**
  * Search item type discriminator
  */
-export type SearchItemType = 'project' | 'person' | 'publication';
+export type SearchItemType = 'project' | 'person' | 'publication' | 'report';
 
 /**
  * Unified search item interface
- * Represents both projects and people in the search index
+ * Represents projects, people, publications and report sections in the search index
  */
 export interface SearchItem {
-  id: string; // slug for project or person
+  id: string; // slug for project or person (report sections: report slug + heading anchor)
   type: SearchItemType;
   title: string; // project title or person name
   summary: string; // card text / short bio
   url: string; // link to detail page
+  tags?: string[]; // keywords, indexed separately from the text blob
+  snippetSources?: string[]; // longer text shown as match context in result cards, in priority order
+  // Facet values used to filter search results
+  themeSlugs?: string[]; // research themes (project slugs) the item belongs to
+  year?: number; // publication year (reports: final year of the reporting period)
+  authorSlugs?: string[]; // people who authored a publication, or the person themselves
+  sources?: PublicationOrigin[]; // publication records a publication was found in
+}
+
+/**
+ * Search item with the text blob it is indexed by
+ * The blob is only needed at build time and is not shipped to the browser.
+ */
+interface IndexableSearchItem extends SearchItem {
   searchableText: string; // blob of text we search against
+  aliases?: string[]; // alternative names for a person (Person.aliases)
 }
 
-// Load all publication snapshots
-const publicationModules = import.meta.glob('./publications/*.json', {
-  eager: true,
-}) as Record<string, { default: PersonPublicationsSnapshot }>;
+/**
+ * Prebuilt search index, generated at build time and served as a static JSON asset
+ */
+export interface SearchIndexData {
+  generatedAt: string; // ISO timestamp when the index was built
+  items: SearchItem[]; // hit indexes refer to positions in this array
+  index: InvertedIndex;
+}
 
 /**
- * Gets publications for a person by their slug
- * @param slug - The person slug
- * @returns Array of publications or empty array if not found
+ * Data needed to build the search index
+ * Passed in by the build step, which reads the publication JSON and content partials from disk.
  */
-function getPublicationsForSlug(slug: string): PersonPublication[] {
-  for (const [path, mod] of Object.entries(publicationModules)) {
-    // path example: "./publications/mark-gahegan.json"
-    if (path.endsWith(`/publications/${slug}.json`)) {
-      return mod.default.works ?? [];
-    }
-  }
-  return [];
+export interface SearchIndexSources {
+  publicationStore: PublicationStore;
+  getContentPartial: (htmlPartialPath: string) => string | undefined; // e.g. '/content/reports/2024-2025.html'
 }
 
+/**
+ * URL of the prebuilt search index asset
+ */
+export const SEARCH_INDEX_URL = '/search-index.json';
+
 /**
  * Index projects (excluding unassigned-publications)
  */
-const projectItems: SearchItem[] = researchProjects
+const projectItems: IndexableSearchItem[] = researchProjects
   .filter((project) => project.slug !== 'unassigned-publications')
   .map((project) => ({
     id: project.slug,
@@ -52,6 +81,13 @@ const projectItems: SearchItem[] = researchProjects
     title: project.title,
     summary: project.shortDescription,
     url: `/project.html?project=${project.slug}`,
+    tags: project.tags ?? [],
+    snippetSources: [
+      project.shortDescription,
+      project.longDescription,
+      ...(project.keyQuestions ?? []),
+    ].filter((text): text is string => Boolean(text)),
+    themeSlugs: [project.slug],
     searchableText: [
       project.title,
       project.shortDescription,
@@ -66,84 +102,77 @@ const projectItems: SearchItem[] = researchProjects
 /**
  * Index people with their publication metadata
  */
-const personItems: SearchItem[] = allPeople.map((person) => {
-  const pubs = getPublicationsForSlug(person.slug);
-  const pubText = pubs.map((w) => `${w.title ?? ''} ${w.venue ?? ''}`).join(' \n ');
+function buildPersonItems(sources: SearchIndexSources): IndexableSearchItem[] {
+  return allPeople.map((person) => {
+    const pubs = sources.publicationStore.getForPerson(person);
+    const pubText = pubs.map((w) => `${w.title ?? ''} ${w.venue ?? ''}`).join(' \n ');
 
-  const rolePart = person.roleLabel ?? '';
-  const orgPart = person.affiliation ?? '';
+    const rolePart = person.roleLabel ?? '';
+    const orgPart = person.affiliation ?? '';
 
-  return {
-    id: person.slug,
-    type: 'person' as const,
-    title: person.name,
-    summary:
-      rolePart && orgPart
-        ? `${rolePart} · ${orgPart}`
-        : rolePart || orgPart || 'Beyond Prediction researcher',
-    url: `/person.html?person=${person.slug}`,
-    searchableText: [
-      person.name,
-      person.roleLabel,
-      person.affiliation,
-      person.bioShort,
-      person.bioLong,
-      (person.tags ?? []).join(' '),
-      pubText, // publication titles + venues
-    ]
-      .filter(Boolean)
-      .join(' \n '),
-  };
-});
+    return {
+      id: person.slug,
+      type: 'person' as const,
+      title: person.name,
+      summary:
+        rolePart && orgPart
+          ? `${rolePart} · ${orgPart}`
+          : rolePart || orgPart || 'Beyond Prediction researcher',
+      url: `/person.html?person=${person.slug}`,
+      tags: person.tags ?? [],
+      snippetSources: [
+        person.bioShort,
+        person.bioLong,
+        ...pubs.map((w) => w.title), // so a match on a publication title shows which one
+      ].filter((text): text is string => Boolean(text)),
+      themeSlugs: person.themeSlugs ?? [],
+      authorSlugs: [person.slug],
+      aliases: getNameAliasesForPerson(person),
+      searchableText: [
+        person.name,
+        person.roleLabel,
+        person.affiliation,
+        person.bioShort,
+        person.bioLong,
+        (person.tags ?? []).join(' '),
+        pubText, // publication titles + venues
+      ]
+        .filter(Boolean)
+        .join(' \n '),
+    };
+  });
+}
 
 /**
  * Index publications from all projects
  * Deduplicates publications while aggregating all associated projects
  */
-const publicationItems: SearchItem[] = (() => {
-  const lookup = createPublicationLookup();
-  const publicationEntriesById = new Map<
-    string,
-    {
-      pub: PersonPublication;
-      projectSlugs: string[];
-      projectTitles: string[];
-    }
-  >();
-
-  // Aggregate all projects for each publication
-  for (const project of researchProjects) {
-    if (project.publicationIds && project.publicationIds.length > 0) {
-      for (const pubId of project.publicationIds) {
-        const pub = lookup.get(pubId);
-        if (!pub || !pub.id || !pub.title) continue;
-
-        const existing = publicationEntriesById.get(pub.id);
-        if (existing) {
-          // Publication already exists, add this project if not already present
-          if (!existing.projectSlugs.includes(project.slug)) {
-            existing.projectSlugs.push(project.slug);
-            existing.projectTitles.push(project.title);
-          }
-        } else {
-          // First time seeing this publication
-          publicationEntriesById.set(pub.id, {
-            pub,
-            projectSlugs: [project.slug],
-            projectTitles: [project.title],
-          });
-        }
-      }
-    }
-  }
+function buildPublicationItems(sources: SearchIndexSources): IndexableSearchItem[] {
+  const store = sources.publicationStore;
+  const projectTitlesBySlug = new Map(
+    researchProjects.map((project) => [project.slug, project.title])
+  );
+
+  // Each publication once, with every project that lists it
+  const publicationEntries = store
+    .getThemed()
+    .filter((pub) => pub.id && pub.title)
+    .map((pub) => {
+      const projectSlugs = store.getThemeSlugs(pub);
+      return {
+        pub,
+        projectSlugs,
+        projectTitles: projectSlugs.map((slug) => projectTitlesBySlug.get(slug) ?? slug),
+      };
+    });
 
   // Convert to search items
-  const items: SearchItem[] = [];
-  for (const entry of publicationEntriesById.values()) {
-    const { pub, projectTitles } = entry;
+  const items: IndexableSearchItem[] = [];
+  for (const entry of publicationEntries) {
+    const { pub, projectSlugs, projectTitles } = entry;
     // Use publication ID as unique identifier (remove https:// prefix for cleaner slug-like ID)
     const pubSlug = pub.id.replace(/^https?:\/\//, '').replace(/\//g, '-');
-    const pubUrl = pub.openAccessUrl || (pub.doi ? `https://doi.org/${pub.doi}` : pub.id);
+    const pubUrl = pub.openAccessUrl || (pub.doi ? getDoiUrl(pub.doi) : pub.id);
 
     // Build searchable text including all project titles
     const authorNames =
@@ -159,6 +188,14 @@ const publicationItems: SearchItem[] = (() => {
           ? `(${pub.year})`
           : '',
       url: pubUrl,
+      snippetSources: [
+        pub.authors?.map((a) => (typeof a === 'string' ? a : a.name)).join(', ') ?? '',
+        ...projectTitles,
+      ].filter(Boolean),
+      themeSlugs: projectSlugs,
+      year: pub.year,
+      authorSlugs: getPublicationAuthors(pub).map((person) => person.slug),
+      sources: store.getOrigins(pub),
       searchableText: [
         pub.title,
         pub.venue,
@@ -173,30 +210,139 @@ const publicationItems: SearchItem[] = (() => {
   }
 
   return items;
-})();
+}
+
+/**
+ * Index the annual reports and current forward plan, one item per heading section
+ * Each item deep-links to its section's heading anchor.
+ */
+function buildReportItems(sources: SearchIndexSources): IndexableSearchItem[] {
+  const reportDocuments = [
+    ...reports.map((report) => ({
+      slug: report.slug,
+      title: report.title,
+      year: report.toYear,
+      htmlPartialPath: report.htmlPartialPath,
+      url: `/report.html?report=${encodeURIComponent(report.slug)}`,
+    })),
+    {
+      slug: `forward-plan-${currentForwardPlan.slug}`,
+      title: currentForwardPlan.title,
+      year: currentForwardPlan.toYear,
+      htmlPartialPath: currentForwardPlan.htmlPartialPath,
+      url: '/forward-plan.html',
+    },
+  ];
+
+  const items: IndexableSearchItem[] = [];
+  for (const reportDocument of reportDocuments) {
+    const html = reportDocument.htmlPartialPath
+      ? sources.getContentPartial(reportDocument.htmlPartialPath)
+      : undefined;
+    if (!html) continue;
+
+    splitHtmlByHeading(addHeadingAnchors(html)).forEach((section, sectionIndex) => {
+      const anchor = section.anchorId ? `#${encodeURIComponent(section.anchorId)}` : '';
+      items.push({
+        id: `${reportDocument.slug}-${section.anchorId ?? sectionIndex}`,
+        type: 'report' as const,
+        title: section.heading || reportDocument.title,
+        summary: reportDocument.title,
+        url: `${reportDocument.url}${anchor}`,
+        snippetSources: [section.text],
+        year: reportDocument.year,
+        searchableText: [section.heading, section.text, reportDocument.title]
+          .filter(Boolean)
+          .join(' \n '),
+      });
+    });
+  }
+
+  return items;
+}
 
 /**
- * Unified search index containing projects, people, and publications
+ * Fields indexed for ranking, in descending order of weight
+ * Title matches count most, then summary and tags, then the full text blob.
+ * Titles, person name aliases and tags also feed the typo-tolerant vocabulary.
  */
-export const searchIndex: SearchItem[] = [...projectItems, ...personItems, ...publicationItems];
+const searchFields: SearchField<IndexableSearchItem>[] = [
+  { name: 'title', weight: 3, fuzzy: true, getText: (item) => item.title },
+  { name: 'aliases', weight: 2, fuzzy: true, getText: (item) => item.aliases },
+  { name: 'summary', weight: 1.5, getText: (item) => item.summary },
+  { name: 'tags', weight: 1.5, fuzzy: true, getText: (item) => item.tags },
+  { name: 'text', weight: 1, getText: (item) => item.searchableText },
+];
 
 /**
- * Simple search function that filters items based on query
+ * Builds the unified search index containing projects, people, publications and reports
+ * Runs at build time (see scripts/search_index_plugin.ts); the result is serialised to JSON.
+ * @param sources - Publication data loaded by the build step
+ * @returns The search index data
+ */
+export function buildSearchIndexData(sources: SearchIndexSources): SearchIndexData {
+  const indexableItems = [
+    ...projectItems,
+    ...buildPersonItems(sources),
+    ...buildPublicationItems(sources),
+    ...buildReportItems(sources),
+  ];
+
+  return {
+    generatedAt: new Date().toISOString(),
+    items: indexableItems.map(
+      ({ searchableText: _searchableText, aliases: _aliases, ...item }) => item
+    ),
+    index: buildInvertedIndex(indexableItems, searchFields),
+  };
+}
+
+let searchIndexPromise: Promise<SearchIndexData> | null = null;
+
+/**
+ * Fetches the prebuilt search index (once per page; later calls reuse the same request)
+ * @returns Promise resolving to the search index data
+ */
+export function loadSearchIndex(): Promise<SearchIndexData> {
+  if (!searchIndexPromise) {
+    searchIndexPromise = fetch(SEARCH_INDEX_URL)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load search index: ${response.status}`);
+        }
+        return response.json() as Promise<SearchIndexData>;
+      })
+      .catch((error: unknown) => {
+        // Allow a retry on the next call
+        searchIndexPromise = null;
+        throw error;
+      });
+  }
+  return searchIndexPromise;
+}
+
+/**
+ * Ranked search over projects, people, publications and report sections
+ * Terms are AND-ed by default; separate alternatives with "OR" (e.g. "genome OR ecology").
+ * @param data - The loaded search index
  * @param query - The search query string
- * @param typeFilter - Optional type filter ('project' or 'person')
- * @returns Array of matching SearchItem items
+ * @param typeFilter - Optional type filter ('project', 'person', 'publication' or 'report')
+ * @param options - Optional search options; `fuzzy` tolerates typos such as "phylogentic"
+ * @returns Array of matching SearchItem items, most relevant first
  */
-export function searchItems(query: string, typeFilter?: SearchItemType): SearchItem[] {
-  const q = query.trim().toLowerCase();
+export function searchItems(
+  data: SearchIndexData,
+  query: string,
+  typeFilter?: SearchItemType,
+  options: { fuzzy?: boolean } = {}
+): SearchItem[] {
+  const q = query.trim();
   if (!q) {
     // If no query, return all items (optionally filtered by type)
-    return typeFilter ? searchIndex.filter((item) => item.type === typeFilter) : searchIndex;
+    return typeFilter ? data.items.filter((item) => item.type === typeFilter) : data.items;
   }
 
-  const matches = searchIndex.filter((item) => {
-    const haystack = item.searchableText.toLowerCase();
-    return haystack.includes(q);
-  });
+  const matches = queryInvertedIndex(data.index, q, options).map((hit) => data.items[hit.index]);
 
   // Apply type filter if provided
   if (typeFilter) {
@@ -205,3 +351,13 @@ export function searchItems(query: string, typeFilter?: SearchItemType): SearchI
 
   return matches;
 }
+
+/**
+ * Builds a "Did you mean …?" suggestion from the closest indexed titles, names and tags
+ * @param data - The loaded search index
+ * @param query - The search query string
+ * @returns The corrected query, or null if nothing close was found
+ */
+export function getQuerySuggestion(data: SearchIndexData, query: string): string | null {
+  return suggestQuery(data.index, query);
+}
@@ -17,7 +17,8 @@ import { partners } from './data/partners';
 import { currentForwardPlan } from './data/reports';
 
 // Import utilities
-import { escapeHtml } from './utils/dom';
+import { escapeHtml, scrollToUrlHash } from './utils/dom';
+import { addHeadingAnchors } from './utils/htmlSections';
 
 const navbarContainer = document.querySelector<HTMLElement>('#navbar');
 const main = document.querySelector<HTMLElement>('#bp-main');
@@ -41,7 +42,8 @@ async function loadHtmlPartial(path: string): Promise<string> {
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}`);
     }
-    return await response.text();
+    // Same heading ids as the search index uses for deep links
+    return addHeadingAnchors(await response.text());
   } catch (error) {
     console.error('Error loading forward plan partial:', error);
     return `
@@ -102,6 +104,9 @@ async function initForwardPlanPage(): Promise<void> {
       </section>
     </div>
   `;
+
+  // Jump to a deep-linked section (e.g. from site search)
+  scrollToUrlHash();
 }
 
 // Initialize the page when DOM is ready
@@ -0,0 +1,438 @@
+// Import Bootstrap CSS
+import 'bootstrap/dist/css/bootstrap.min.css';
+
+// Import Bootstrap JS (for navbar toggle and other interactive components)
+import 'bootstrap/dist/js/bootstrap.bundle.min.js';
+
+// Import custom styles
+import './styles.css';
+
+// Import components
+import { renderNavbar } from './components/navbar';
+import { renderFooter } from './components/footer';
+import { renderStackedBarChart, type ChartSeries } from './components/charts';
+
+// Import data
+import { partners } from './data/partners';
+import { allPeople } from './data/people';
+import { currentForwardPlan, reports } from './data/reports';
+import { researchProjects } from './data/researchProjects';
+
+// Import utilities
+import { downloadTextFile, escapeHtml } from './utils/dom';
+import { formatCsv, renderCsvTableHtml, type CsvTable } from './utils/csv';
+import { getPublicationStore } from './utils/publications';
+import {
+  countPublications,
+  getPeopleByInstitution,
+  getProgrammePublications,
+  getPublicationsByPeriod,
+  getPublicationsByTheme,
+  getPublicationsByYear,
+  getReportingPeriodForYear,
+  getReportingPeriods,
+  getThemePairCounts,
+  getThemeProjects,
+  type ProgrammePublication,
+  type PublicationCounts,
+  type ReportingPeriod,
+} from './utils/programmeMetrics';
+
+const navbarContainer = document.querySelector<HTMLElement>('#navbar');
+const main = document.querySelector<HTMLElement>('#bp-main');
+const footerContainer = document.querySelector<HTMLElement>('#footer');
+
+if (!navbarContainer || !main || !footerContainer) {
+  throw new Error('Layout containers not found on Metrics page');
+}
+
+renderNavbar(navbarContainer);
+footerContainer.innerHTML = renderFooter(partners);
+
+const OPEN_ACCESS_COLOUR = '#198754'; // green
+const CLOSED_COLOUR = '#adb5bd'; // light gray
+const PEOPLE_COLOUR = '#1e1e8c'; // --bp-primary-blue
+
+/**
+ * A downloadable table, keyed by the id its download button refers to
+ */
+interface MetricsTable extends CsvTable {
+  fileName: string;
+}
+
+/**
+ * Global state
+ */
+let programmePublications: ProgrammePublication[] = [];
+let periods: ReportingPeriod[] = [];
+let selectedPeriod: ReportingPeriod | null = null;
+const tables = new Map<string, MetricsTable>();
+
+/**
+ * Gets the open-access and other series for a list of publication counts
+ */
+function getOpenAccessSeries(counts: PublicationCounts[]): ChartSeries[] {
+  return [
+    {
+      label: 'Open access',
+      colour: OPEN_ACCESS_COLOUR,
+      values: counts.map((count) => count.openAccess),
+    },
+    {
+      label: 'No open-access version',
+      colour: CLOSED_COLOUR,
+      values: counts.map((count) => count.total - count.openAccess),
+    },
+  ];
+}
+
+/**
+ * Formats a share as a percentage
+ */
+function formatPercent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : '–';
+}
+
+/**
+ * Gets the standard table rows for publication counts
+ */
+function getCountColumns(counts: PublicationCounts): (string | number)[] {
+  return [
+    counts.total,
+    counts.openAccess,
+    formatPercent(counts.openAccess, counts.total),
+    counts.crossTheme,
+  ];
+}
+
+const COUNT_HEADERS = ['Publications', 'Open access', 'Open access share', 'Cross-theme'];
+
+/**
+ * Registers a downloadable table and renders it with its download button
+ * @param id - Table id, used by the download button
+ * @param table - Headers, rows and download file name
+ */
+function renderTable(id: string, table: MetricsTable): string {
+  tables.set(id, table);
+
+  return `
+    <details class="mt-3">
+      <summary class="small">Data table</summary>
+      <div class="mt-2">${renderCsvTableHtml(table)}</div>
+    </details>
+    <button type="button" class="btn btn-outline-secondary btn-sm mt-2" data-download-table="${escapeHtml(id)}">
+      Download CSV
+    </button>
+  `;
+}
+
+/**
+ * Renders a dashboard section with a chart placeholder and its table
+ */
+function renderSection(
+  id: string,
+  heading: string,
+  description: string,
+  table: MetricsTable,
+  hasChart = true
+): string {
+  return `
+    <section class="mb-5" id="bp-metrics-${escapeHtml(id)}">
+      <h2 class="h4">${escapeHtml(heading)}</h2>
+      <p class="text-muted">${description}</p>
+      ${hasChart ? `<div data-chart="${escapeHtml(id)}"></div>` : ''}
+      ${renderTable(id, table)}
+    </section>
+  `;
+}
+
+/**
+ * Renders the headline figures
+ */
+function renderHeadlines(publications: ProgrammePublication[]): string {
+  const counts = countPublications(publications);
+  const institutions = getPeopleByInstitution(allPeople);
+  const figures = [
+    { value: String(counts.total), label: 'Publications' },
+    { value: formatPercent(counts.openAccess, counts.total), label: 'Open access' },
+    { value: String(counts.crossTheme), label: 'Cross-theme publications' },
+    { value: String(allPeople.length), label: 'People' },
+    { value: String(institutions.length), label: 'Institutions' },
+    { value: String(getThemeProjects(researchProjects).length), label: 'Research themes' },
+  ];
+
+  return `
+    <div class="row g-3 mb-5">
+      ${figures
+        .map(
+          (figure) => `
+        <div class="col-6 col-md-4 col-lg-2">
+          <div class="card h-100 text-center">
+            <div class="card-body">
+              <div class="fs-3 fw-semibold">${escapeHtml(figure.value)}</div>
+              <div class="small text-muted">${escapeHtml(figure.label)}</div>
+            </div>
+          </div>
+        </div>`
+        )
+        .join('')}
+    </div>
+  `;
+}
+
+/**
+ * Renders the dashboard for the selected reporting period
+ */
+function renderDashboard(): void {
+  const content = document.getElementById('bp-metrics-content');
+  if (!content) return;
+  tables.clear();
+
+  // Theme, cross-theme and headline figures follow the selected period
+  const periodPublications = selectedPeriod
+    ? programmePublications.filter(
+        (entry) => getReportingPeriodForYear(entry.publication.year, periods) === selectedPeriod
+      )
+    : programmePublications;
+  const periodLabel = selectedPeriod ? ` (${selectedPeriod.label})` : '';
+  const fileSuffix = selectedPeriod ? `-${selectedPeriod.slug}` : '';
+
+  const byYear = getPublicationsByYear(programmePublications);
+  const byPeriod = getPublicationsByPeriod(programmePublications, periods);
+  const themes = getThemeProjects(researchProjects);
+  const byTheme = [
+    ...getPublicationsByTheme(periodPublications, themes).map(({ project, counts }) => ({
+      label: project.title,
+      counts,
+    })),
+    {
+      label: 'Not assigned to a theme',
+      counts: countPublications(periodPublications.filter((entry) => !entry.themeSlugs.length)),
+    },
+  ];
+  const themePairs = getThemePairCounts(periodPublications, themes);
+  const byInstitution = getPeopleByInstitution(allPeople);
+
+  content.innerHTML = `
+    ${renderHeadlines(periodPublications)}
+    ${renderSection(
+      'years',
+      'Publications per year',
+      'Programme publications by publication year, split by whether an open-access version is available.',
+      {
+        headers: ['Year', ...COUNT_HEADERS],
+        rows: byYear.map(({ year, counts }) => [year, ...getCountColumns(counts)]),
+        fileName: 'publications-per-year',
+      }
+    )}
+    ${renderSection(
+      'periods',
+      'Publications per reporting period',
+      'Reporting periods follow the annual reports, with the current forward plan period last. Publications only record a year, so each is counted in the period ending in its publication year; publications from before the first period are only counted per year.',
+      {
+        headers: ['Reporting period', ...COUNT_HEADERS],
+        rows: byPeriod.map(({ period, counts }) => [
+          period.isCurrent ? `${period.label} (current)` : period.label,
+          ...getCountColumns(counts),
+        ]),
+        fileName: 'publications-per-reporting-period',
+      }
+    )}
+    ${renderSection(
+      'themes',
+      `Publications per theme${periodLabel}`,
+      'Publications listed by each research theme. Cross-theme publications are listed by more than one theme, so they count towards each of them.',
+      {
+        headers: ['Theme', ...COUNT_HEADERS],
+        rows: byTheme.map(({ label, counts }) => [label, ...getCountColumns(counts)]),
+        fileName: `publications-per-theme${fileSuffix}`,
+      }
+    )}
+    ${renderSection(
+      'cross-theme',
+      `Cross-theme publications${periodLabel}`,
+      themePairs.length
+        ? 'Pairs of research themes that list the same publications.'
+        : 'No publications are listed by more than one theme.',
+      {
+        headers: ['Theme', 'Theme', 'Shared publications'],
+        rows: themePairs.map(({ themes, count }) => [themes[0].title, themes[1].title, count]),
+        fileName: `cross-theme-publications${fileSuffix}`,
+      },
+      false
+    )}
+    ${renderSection(
+      'institutions',
+      'People per institution',
+      'People in the programme directory by affiliation.',
+      {
+        headers: ['Institution', 'People', 'Names'],
+        rows: byInstitution.map(({ institution, people }) => [
+          institution,
+          people.length,
+          people.map((person) => person.name).join('; '),
+        ]),
+        fileName: 'people-per-institution',
+      }
+    )}
+  `;
+
+  const chart = (id: string): HTMLElement | null =>
+    content.querySelector<HTMLElement>(`[data-chart="${id}"]`);
+
+  // Each section renders its own data table with a CSV download, so the charts skip theirs
+  const yearChart = chart('years');
+  if (yearChart) {
+    renderStackedBarChart(
+      yearChart,
+      {
+        categories: byYear.map(({ year }) => String(year)),
+        series: getOpenAccessSeries(byYear.map(({ counts }) => counts)),
+      },
+      {
+        title: 'Publications per year',
+        description: byYear
+          .map(({ year, counts }) => `${year}: ${counts.total} (${counts.openAccess} open access)`)
+          .join('; '),
+        unit: ['publication', 'publications'],
+        showTable: false,
+      }
+    );
+  }
+
+  const periodChart = chart('periods');
+  if (periodChart) {
+    renderStackedBarChart(
+      periodChart,
+      {
+        categories: byPeriod.map(({ period }) => period.label),
+        series: getOpenAccessSeries(byPeriod.map(({ counts }) => counts)),
+      },
+      {
+        title: 'Publications per reporting period',
+        description: byPeriod
+          .map(
+            ({ period, counts }) =>
+              `${period.label}: ${counts.total} (${counts.openAccess} open access)`
+          )
+          .join('; '),
+        unit: ['publication', 'publications'],
+        showTable: false,
+      }
+    );
+  }
+
+  const themeChart = chart('themes');
+  if (themeChart) {
+    renderStackedBarChart(
+      themeChart,
+      {
+        categories: byTheme.map(({ label }) => label),
+        series: getOpenAccessSeries(byTheme.map(({ counts }) => counts)),
+      },
+      {
+        title: `Publications per theme${periodLabel}`,
+        description: byTheme.map(({ label, counts }) => `${label}: ${counts.total}`).join('; '),
+        unit: ['publication', 'publications'],
+        orientation: 'horizontal',
+        showTable: false,
+      }
+    );
+  }
+
+  const institutionChart = chart('institutions');
+  if (institutionChart) {
+    renderStackedBarChart(
+      institutionChart,
+      {
+        categories: byInstitution.map(({ institution }) => institution),
+        series: [
+          {
+            label: 'People',
+            colour: PEOPLE_COLOUR,
+            values: byInstitution.map(({ people }) => people.length),
+          },
+        ],
+      },
+      {
+        title: 'People per institution',
+        description: byInstitution
+          .map(({ institution, people }) => `${institution}: ${people.length}`)
+          .join('; '),
+        unit: ['person', 'people'],
+        orientation: 'horizontal',
+        showTable: false,
+      }
+    );
+  }
+}
+
+/**
+ * Renders the page structure
+ */
+function renderMetricsPage(): void {
+  if (!main) return;
+
+  const periodOptions = periods
+    .map(
+      (period) =>
+        `<option value="${escapeHtml(period.slug)}" ${selectedPeriod === period ? 'selected' : ''}>${escapeHtml(period.isCurrent ? `${period.label} (current)` : period.label)}</option>`
+    )
+    .join('');
+
+  main.innerHTML = `
+    <div class="container py-5">
+      <header class="mb-4">
+        <h1 class="mb-3">Programme Metrics</h1>
+        <p class="text-muted">
+          Figures for the Beyond Prediction programme, computed from the research themes, the
+          people directory and the publication data behind this site. Programme publications are
+          the publications listed by a research theme; a preprint and its published version count
+          once. Every table can be downloaded as CSV.
+        </p>
+        <div class="d-flex flex-wrap align-items-center gap-2">
+          <label for="bp-metrics-period" class="form-label fw-semibold mb-0">Reporting period</label>
+          <select id="bp-metrics-period" class="form-select form-select-sm w-auto">
+            <option value="">All years</option>
+            ${periodOptions}
+          </select>
+        </div>
+      </header>
+      <div id="bp-metrics-content"></div>
+    </div>
+  `;
+
+  const periodSelect = document.getElementById('bp-metrics-period') as HTMLSelectElement | null;
+  periodSelect?.addEventListener('change', () => {
+    selectedPeriod = periods.find((period) => period.slug === periodSelect.value) ?? null;
+    const params = new URLSearchParams();
+    if (selectedPeriod) params.set('period', selectedPeriod.slug);
+    const newUrl = `${window.location.pathname}${params.toString() ? `?${params.toString()}` : ''}`;
+    window.history.replaceState({}, '', newUrl);
+    renderDashboard();
+  });
+
+  // CSV downloads (buttons are re-rendered with the dashboard)
+  main.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLElement>('[data-download-table]');
+    const table = button && tables.get(button.getAttribute('data-download-table') ?? '');
+    if (!table) return;
+    downloadTextFile(formatCsv(table), `beyond-prediction-${table.fileName}.csv`, 'text/csv');
+  });
+}
+
+/**
+ * Initializes the Metrics page
+ */
+function initMetricsPage(): void {
+  programmePublications = getProgrammePublications(getPublicationStore());
+  periods = getReportingPeriods(reports, currentForwardPlan);
+
+  const periodParam = new URLSearchParams(window.location.search).get('period');
+  selectedPeriod = periods.find((period) => period.slug === periodParam) ?? null;
+
+  renderMetricsPage();
+  renderDashboard();
+}
+
+initMetricsPage();
@@ -0,0 +1,667 @@
+// Import Bootstrap CSS
+import 'bootstrap/dist/css/bootstrap.min.css';
+
+// Import Bootstrap JS (for navbar toggle and other interactive components)
+import 'bootstrap/dist/js/bootstrap.bundle.min.js';
+
+// Import noUiSlider JS (CSS is imported in styles.css)
+// Import from the CommonJS build which Vite can handle
+import noUiSlider from 'nouislider/dist/nouislider.js';
+
+// Import custom styles
+import './styles.css';
+
+// Import components
+import { renderNavbar } from './components/navbar';
+import { renderFooter } from './components/footer';
+
+// Import data
+import { partners } from './data/partners';
+import { allPeople, type Person } from './data/people';
+import { researchProjects } from './data/researchProjects';
+
+// Import utilities
+import { escapeHtml } from './utils/dom';
+import { createPublicationToAuthorsMap } from './utils/authorMatching';
+import {
+  buildCoauthorNetwork,
+  layoutCoauthorNetwork,
+  type CoauthorNetwork,
+  type NodePosition,
+} from './utils/coauthorNetwork';
+import { getPublicationStore, type PersonPublication } from './utils/publications';
+
+const navbarContainer = document.querySelector<HTMLElement>('#navbar');
+const main = document.querySelector<HTMLElement>('#bp-main');
+const footerContainer = document.querySelector<HTMLElement>('#footer');
+
+if (!navbarContainer || !main || !footerContainer) {
+  throw new Error('Layout containers not found on Network page');
+}
+
+renderNavbar(navbarContainer);
+footerContainer.innerHTML = renderFooter(partners);
+
+/**
+ * What node colours represent
+ */
+type ColourBy = 'role' | 'theme';
+
+/**
+ * Filter and display state
+ */
+interface NetworkFilters {
+  theme: string | null; // only people working on this theme (project slug)
+  minYear: number | null;
+  maxYear: number | null;
+  colourBy: ColourBy;
+}
+
+// Layout size in SVG units; the drawing scales to the container width
+const LAYOUT_WIDTH = 800;
+const LAYOUT_HEIGHT = 560;
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 6;
+
+const ROLE_COLOURS: Record<string, string> = {
+  'Principal Investigator': '#0d6efd', // blue
+  'Co-PI': '#6f42c1', // purple
+  'Co-Investigator': '#198754', // green
+  'Industry Partner': '#fd7e14', // orange
+  'Post-Doc': '#0dcaf0', // cyan
+};
+
+// Theme colours in research project order
+const THEME_PALETTE = [
+  '#0d6efd',
+  '#dc3545',
+  '#198754',
+  '#fd7e14',
+  '#6f42c1',
+  '#20c997',
+  '#d63384',
+  '#ffc107',
+];
+
+const OTHER_COLOUR = '#adb5bd';
+
+/**
+ * Global state
+ */
+let publications: PersonPublication[] = [];
+let publicationToAuthors = new Map<string, Person[]>();
+const filters: NetworkFilters = {
+  theme: null,
+  minYear: null,
+  maxYear: null,
+  colourBy: 'role',
+};
+let yearSlider: ReturnType<typeof noUiSlider.create> | null = null;
+
+/**
+ * Pan/zoom state: the visible part of the layout, as an SVG viewBox
+ */
+let view = { x: 0, y: 0, width: LAYOUT_WIDTH, height: LAYOUT_HEIGHT };
+
+/**
+ * Gets the years of publications with at least one matched person (sorted ascending)
+ */
+function getPublicationYears(): number[] {
+  const years = new Set<number>();
+  for (const publication of publications) {
+    if (publication.year) years.add(publication.year);
+  }
+  return Array.from(years).sort((a, b) => a - b);
+}
+
+/**
+ * Gets a node's colour and legend label for the current colour mode
+ */
+function getNodeColour(person: Person): { colour: string; label: string } {
+  if (filters.colourBy === 'role') {
+    const role = person.roleLabel ?? 'Other';
+    return { colour: ROLE_COLOURS[role] ?? OTHER_COLOUR, label: role };
+  }
+
+  // Colour by the person's first listed theme
+  const themeSlug = person.themeSlugs?.[0];
+  const index = researchProjects.findIndex((project) => project.slug === themeSlug);
+  if (index === -1) return { colour: OTHER_COLOUR, label: 'No theme' };
+  return {
+    colour: THEME_PALETTE[index % THEME_PALETTE.length],
+    label: researchProjects[index].title,
+  };
+}
+
+/**
+ * Builds the network for the current filters
+ */
+function getFilteredNetwork(): CoauthorNetwork {
+  const people = filters.theme
+    ? allPeople.filter((person) => person.themeSlugs?.includes(filters.theme ?? ''))
+    : allPeople;
+  const inRange = publications.filter((publication) => {
+    if (filters.minYear === null && filters.maxYear === null) return true;
+    if (!publication.year) return false;
+    if (filters.minYear !== null && publication.year < filters.minYear) return false;
+    if (filters.maxYear !== null && publication.year > filters.maxYear) return false;
+    return true;
+  });
+  return buildCoauthorNetwork(inRange, publicationToAuthors, people);
+}
+
+/**
+ * Gets a node's radius from its publication count
+ */
+function getNodeRadius(publicationCount: number): number {
+  return Math.min(22, 7 + 2 * Math.sqrt(publicationCount));
+}
+
+/**
+ * Renders the network as SVG
+ */
+function renderNetworkSvg(network: CoauthorNetwork, positions: Map<string, NodePosition>): string {
+  const maxWeight = Math.max(1, ...network.edges.map((edge) => edge.weight));
+  const namesBySlug = new Map(network.nodes.map((node) => [node.person.slug, node.person.name]));
+
+  const edgesSvg = network.edges
+    .map((edge) => {
+      const source = positions.get(edge.source);
+      const target = positions.get(edge.target);
+      if (!source || !target) return '';
+      const width = 1 + (5 * edge.weight) / maxWeight;
+      const label = `${namesBySlug.get(edge.source)} and ${namesBySlug.get(edge.target)}: ${edge.weight} shared publication${edge.weight === 1 ? '' : 's'}`;
+      return `
+        <line class="bp-network-edge" data-source="${escapeHtml(edge.source)}" data-target="${escapeHtml(edge.target)}"
+          x1="${source.x.toFixed(1)}" y1="${source.y.toFixed(1)}" x2="${target.x.toFixed(1)}" y2="${target.y.toFixed(1)}"
+          stroke-width="${width.toFixed(1)}">
+          <title>${escapeHtml(label)}</title>
+        </line>`;
+    })
+    .join('');
+
+  const nodesSvg = network.nodes
+    .map(({ person, publicationCount }) => {
+      const position = positions.get(person.slug);
+      if (!position) return '';
+      const radius = getNodeRadius(publicationCount);
+      const { colour, label } = getNodeColour(person);
+      const tooltip = `${person.name} (${label}): ${publicationCount} publication${publicationCount === 1 ? '' : 's'}`;
+      return `
+        <a class="bp-network-node" data-person="${escapeHtml(person.slug)}"
+          href="/person.html?person=${encodeURIComponent(person.slug)}" aria-label="${escapeHtml(tooltip)}">
+          <title>${escapeHtml(tooltip)}</title>
+          <circle cx="${position.x.toFixed(1)}" cy="${position.y.toFixed(1)}" r="${radius.toFixed(1)}" fill="${colour}" />
+          <text x="${position.x.toFixed(1)}" y="${(position.y + radius + 13).toFixed(1)}" text-anchor="middle">${escapeHtml(person.name)}</text>
+        </a>`;
+    })
+    .join('');
+
+  return `
+    <svg class="bp-network-svg" viewBox="${view.x} ${view.y} ${view.width} ${view.height}"
+      role="group" aria-label="Co-authorship network of Beyond Prediction people">
+      <g>${edgesSvg}</g>
+      <g>${nodesSvg}</g>
+    </svg>
+  `;
+}
+
+/**
+ * Renders the colour legend for the people in the network
+ */
+function renderLegend(network: CoauthorNetwork): string {
+  const entries = new Map<string, string>();
+  for (const { person } of network.nodes) {
+    const { colour, label } = getNodeColour(person);
+    entries.set(label, colour);
+  }
+
+  return Array.from(entries)
+    .map(
+      ([label, colour]) => `
+        <span class="d-inline-flex align-items-center me-3 mb-1 small">
+          <span class="bp-network-swatch me-1" style="background-color: ${colour}"></span>
+          ${escapeHtml(label)}
+        </span>`
+    )
+    .join('');
+}
+
+/**
+ * Renders the table of collaborations (the network's links, strongest first)
+ */
+function renderCollaborationTable(network: CoauthorNetwork): string {
+  if (network.edges.length === 0) {
+    return '<p class="text-muted">No co-authored publications match the current filters.</p>';
+  }
+
+  const personLink = (slug: string): string => {
+    const person = network.nodes.find((node) => node.person.slug === slug)?.person;
+    return person
+      ? `<a href="/person.html?person=${encodeURIComponent(slug)}" class="text-decoration-none">${escapeHtml(person.name)}</a>`
+      : escapeHtml(slug);
+  };
+
+  return `
+    <div class="table-responsive">
+      <table class="table table-sm align-middle">
+        <thead>
+          <tr>
+            <th scope="col">Co-authors</th>
+            <th scope="col" class="text-end">Shared publications</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${network.edges
+            .map(
+              (edge) => `
+            <tr>
+              <td>${personLink(edge.source)} &amp; ${personLink(edge.target)}</td>
+              <td class="text-end">${edge.weight}</td>
+            </tr>`
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+/**
+ * Updates the SVG viewBox from the pan/zoom state
+ */
+function applyView(svg: SVGSVGElement): void {
+  svg.setAttribute('viewBox', `${view.x} ${view.y} ${view.width} ${view.height}`);
+}
+
+/**
+ * Zooms around a point in layout coordinates
+ * @param factor - Values above 1 zoom in
+ */
+function zoomAt(svg: SVGSVGElement, factor: number, centerX: number, centerY: number): void {
+  const width = Math.min(
+    LAYOUT_WIDTH / MIN_ZOOM,
+    Math.max(LAYOUT_WIDTH / MAX_ZOOM, view.width / factor)
+  );
+  const scale = width / view.width;
+  view = {
+    x: centerX - (centerX - view.x) * scale,
+    y: centerY - (centerY - view.y) * scale,
+    width,
+    height: view.height * scale,
+  };
+  applyView(svg);
+}
+
+/**
+ * Converts a pointer position to layout coordinates
+ */
+function toLayoutPoint(svg: SVGSVGElement, clientX: number, clientY: number): NodePosition {
+  const bounds = svg.getBoundingClientRect();
+  return {
+    x: view.x + ((clientX - bounds.left) / bounds.width) * view.width,
+    y: view.y + ((clientY - bounds.top) / bounds.height) * view.height,
+  };
+}
+
+/**
+ * Attaches pan (drag), wheel zoom and hover highlighting to the network drawing
+ */
+function attachNetworkInteractions(svg: SVGSVGElement): void {
+  svg.addEventListener(
+    'wheel',
+    (event) => {
+      event.preventDefault();
+      const point = toLayoutPoint(svg, event.clientX, event.clientY);
+      zoomAt(svg, event.deltaY < 0 ? 1.15 : 1 / 1.15, point.x, point.y);
+    },
+    { passive: false }
+  );
+
+  // Drag to pan; a drag that starts on a person must not also open their page
+  let drag: { clientX: number; clientY: number; viewX: number; viewY: number } | null = null;
+  let moved = false;
+  svg.addEventListener('pointerdown', (event) => {
+    if (event.button !== 0) return;
+    drag = { clientX: event.clientX, clientY: event.clientY, viewX: view.x, viewY: view.y };
+    moved = false;
+  });
+  svg.addEventListener('pointermove', (event) => {
+    if (!drag) return;
+    const dx = event.clientX - drag.clientX;
+    const dy = event.clientY - drag.clientY;
+    if (!moved && Math.hypot(dx, dy) < 4) return;
+    if (!moved) {
+      moved = true;
+      svg.setPointerCapture(event.pointerId);
+      svg.classList.add('is-panning');
+    }
+    const bounds = svg.getBoundingClientRect();
+    view.x = drag.viewX - (dx / bounds.width) * view.width;
+    view.y = drag.viewY - (dy / bounds.height) * view.height;
+    applyView(svg);
+  });
+  const endDrag = (): void => {
+    drag = null;
+    svg.classList.remove('is-panning');
+  };
+  svg.addEventListener('pointerup', endDrag);
+  svg.addEventListener('pointercancel', endDrag);
+  svg.addEventListener(
+    'click',
+    (event) => {
+      if (moved) {
+        event.preventDefault();
+        moved = false;
+      }
+    },
+    true
+  );
+
+  // Highlight a person's links on hover or keyboard focus
+  const highlight = (slug: string | null): void => {
+    svg.classList.toggle('has-highlight', slug !== null);
+    svg.querySelectorAll<SVGLineElement>('.bp-network-edge').forEach((edge) => {
+      const isLinked =
+        slug !== null &&
+        (edge.getAttribute('data-source') === slug || edge.getAttribute('data-target') === slug);
+      edge.classList.toggle('is-highlighted', isLinked);
+    });
+    svg.querySelectorAll<SVGAElement>('.bp-network-node').forEach((node) => {
+      const nodeSlug = node.getAttribute('data-person');
+      const isLinked =
+        slug !== null &&
+        (nodeSlug === slug ||
+          svg.querySelector(
+            `.bp-network-edge.is-highlighted[data-source="${nodeSlug}"], .bp-network-edge.is-highlighted[data-target="${nodeSlug}"]`
+          ) !== null);
+      node.classList.toggle('is-highlighted', isLinked);
+    });
+  };
+  svg.querySelectorAll<SVGAElement>('.bp-network-node').forEach((node) => {
+    const slug = node.getAttribute('data-person');
+    node.addEventListener('mouseenter', () => highlight(slug));
+    node.addEventListener('mouseleave', () => highlight(null));
+    node.addEventListener('focus', () => highlight(slug));
+    node.addEventListener('blur', () => highlight(null));
+  });
+}
+
+/**
+ * Renders the network, legend and collaboration table for the current filters
+ */
+function renderNetwork(): void {
+  const network = getFilteredNetwork();
+  const positions = layoutCoauthorNetwork(network, LAYOUT_WIDTH, LAYOUT_HEIGHT);
+  const sharedPublications = new Set(network.edges.flatMap((edge) => edge.publicationIds));
+
+  const graphContainer = document.getElementById('bp-network-graph');
+  if (graphContainer) {
+    view = { x: 0, y: 0, width: LAYOUT_WIDTH, height: LAYOUT_HEIGHT };
+    graphContainer.innerHTML = renderNetworkSvg(network, positions);
+    const svg = graphContainer.querySelector<SVGSVGElement>('svg');
+    if (svg) attachNetworkInteractions(svg);
+  }
+
+  const summary = document.getElementById('bp-network-summary');
+  if (summary) {
+    summary.textContent = `${network.nodes.length} people, ${network.edges.length} collaboration${network.edges.length === 1 ? '' : 's'}, ${sharedPublications.size} co-authored publication${sharedPublications.size === 1 ? '' : 's'}`;
+  }
+
+  const legend = document.getElementById('bp-network-legend');
+  if (legend) {
+    legend.innerHTML = renderLegend(network);
+  }
+
+  const table = document.getElementById('bp-network-collaborations');
+  if (table) {
+    table.innerHTML = renderCollaborationTable(network);
+  }
+}
+
+/**
+ * Updates URL from current filters
+ */
+function updateUrlFromFilters(): void {
+  const params = new URLSearchParams();
+  if (filters.theme) {
+    params.set('theme', filters.theme);
+  }
+  if (filters.minYear !== null || filters.maxYear !== null) {
+    params.set('years', `${filters.minYear ?? ''}-${filters.maxYear ?? ''}`);
+  }
+  if (filters.colourBy !== 'role') {
+    params.set('colour', filters.colourBy);
+  }
+
+  const newUrl = `${window.location.pathname}${params.toString() ? `?${params.toString()}` : ''}`;
+  window.history.replaceState({}, '', newUrl);
+}
+
+/**
+ * Initializes filters from URL parameters
+ */
+function initFiltersFromUrl(): void {
+  const params = new URLSearchParams(window.location.search);
+
+  const themeParam = params.get('theme');
+  filters.theme = researchProjects.some((project) => project.slug === themeParam)
+    ? themeParam
+    : null;
+
+  // Year range format: "min-max", "min-" or "-max"
+  const yearMatch = (params.get('years') ?? '').match(/^(\d+)?-(\d+)?$/);
+  filters.minYear = yearMatch?.[1] ? Number.parseInt(yearMatch[1], 10) : null;
+  filters.maxYear = yearMatch?.[2] ? Number.parseInt(yearMatch[2], 10) : null;
+
+  filters.colourBy = params.get('colour') === 'theme' ? 'theme' : 'role';
+}
+
+/**
+ * Renders the page structure
+ */
+function renderNetworkPage(): void {
+  if (!main) return;
+
+  const years = getPublicationYears();
+  const minYear = filters.minYear ?? years[0] ?? '';
+  const maxYear = filters.maxYear ?? years[years.length - 1] ?? '';
+
+  const themeOptions = researchProjects
+    .map(
+      (project) =>
+        `<option value="${escapeHtml(project.slug)}" ${filters.theme === project.slug ? 'selected' : ''}>${escapeHtml(project.title)}</option>`
+    )
+    .join('');
+
+  const colourOptions = (['role', 'theme'] as const)
+    .map(
+      (colourBy) => `
+        <input type="radio" class="btn-check" name="bp-network-colour" id="bp-network-colour-${colourBy}"
+          value="${colourBy}" autocomplete="off" ${filters.colourBy === colourBy ? 'checked' : ''} />
+        <label class="btn btn-outline-primary btn-sm" for="bp-network-colour-${colourBy}">
+          ${colourBy === 'role' ? 'Role' : 'Main theme'}
+        </label>`
+    )
+    .join('');
+
+  main.innerHTML = `
+    <div class="container py-5">
+      <header class="mb-4">
+        <h1 class="mb-3">Co-authorship Network</h1>
+        <p class="text-muted">
+          Who publishes with whom across the Beyond Prediction programme. Each circle is a person,
+          sized by their number of publications; lines join people who have published together,
+          and thicker lines mean more shared publications. Drag to pan, scroll or use the buttons
+          to zoom, and select a person to open their page.
+        </p>
+      </header>
+
+      <div class="row g-4">
+        <aside class="col-lg-3">
+          <div class="bg-light rounded p-3">
+            <h2 class="h6 mb-3">Filters</h2>
+            <div class="mb-3">
+              <label for="bp-network-theme" class="form-label fw-semibold mb-2">Theme</label>
+              <select id="bp-network-theme" class="form-select form-select-sm">
+                <option value="">All themes</option>
+                ${themeOptions}
+              </select>
+            </div>
+            <div class="mb-3">
+              <label class="form-label fw-semibold mb-2">Publication Years</label>
+              <div id="bp-year-slider"></div>
+              <div class="d-flex justify-content-between small text-muted mt-1">
+                <span id="bp-year-min">${minYear}</span>
+                <span id="bp-year-max">${maxYear}</span>
+              </div>
+            </div>
+            <div class="mb-3">
+              <span class="form-label fw-semibold mb-2 d-block">Colour by</span>
+              <div class="btn-group" role="group" aria-label="Colour people by">
+                ${colourOptions}
+              </div>
+            </div>
+            <button id="clear-filters" class="btn btn-outline-secondary btn-sm w-100">
+              Clear All Filters
+            </button>
+          </div>
+        </aside>
+
+        <div class="col-lg-9">
+          <section id="bp-network" class="mb-4">
+            <div class="d-flex flex-wrap justify-content-between align-items-center mb-2 gap-2">
+              <p id="bp-network-summary" class="text-muted small mb-0"></p>
+              <div class="btn-group btn-group-sm" role="group" aria-label="Zoom">
+                <button type="button" class="btn btn-outline-secondary" data-network-zoom="in" aria-label="Zoom in">+</button>
+                <button type="button" class="btn btn-outline-secondary" data-network-zoom="out" aria-label="Zoom out">&minus;</button>
+                <button type="button" class="btn btn-outline-secondary" data-network-zoom="reset">Reset</button>
+              </div>
+            </div>
+            <div id="bp-network-graph" class="bp-network border rounded"></div>
+            <div id="bp-network-legend" class="mt-2"></div>
+          </section>
+
+          <section>
+            <h2 class="h4 mb-3">Collaborations</h2>
+            <div id="bp-network-collaborations"></div>
+          </section>
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Initializes filter control event listeners
+ */
+function initFilterControls(): void {
+  // Zoom buttons (the drawing itself is replaced on every render)
+  document.querySelectorAll<HTMLButtonElement>('[data-network-zoom]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const svg = document.querySelector<SVGSVGElement>('#bp-network-graph svg');
+      if (!svg) return;
+      const action = button.getAttribute('data-network-zoom');
+      const centerX = view.x + view.width / 2;
+      const centerY = view.y + view.height / 2;
+      if (action === 'in') {
+        zoomAt(svg, 1.4, centerX, centerY);
+      } else if (action === 'out') {
+        zoomAt(svg, 1 / 1.4, centerX, centerY);
+      } else {
+        view = { x: 0, y: 0, width: LAYOUT_WIDTH, height: LAYOUT_HEIGHT };
+        applyView(svg);
+      }
+    });
+  });
+
+  const themeSelect = document.getElementById('bp-network-theme') as HTMLSelectElement | null;
+  themeSelect?.addEventListener('change', () => {
+    filters.theme = themeSelect.value || null;
+    updateUrlFromFilters();
+    renderNetwork();
+  });
+
+  document
+    .querySelectorAll<HTMLInputElement>('input[name="bp-network-colour"]')
+    .forEach((input) => {
+      input.addEventListener('change', () => {
+        filters.colourBy = input.value === 'theme' ? 'theme' : 'role';
+        updateUrlFromFilters();
+        renderNetwork();
+      });
+    });
+
+  const years = getPublicationYears();
+  const sliderElement = document.getElementById('bp-year-slider');
+  if (sliderElement && years.length > 1) {
+    const minYear = years[0];
+    const maxYear = years[years.length - 1];
+
+    yearSlider = noUiSlider.create(sliderElement, {
+      start: [filters.minYear ?? minYear, filters.maxYear ?? maxYear],
+      connect: true,
+      range: { min: minYear, max: maxYear },
+      step: 1,
+      tooltips: [
+        { to: (value: number) => Math.round(value).toString() },
+        { to: (value: number) => Math.round(value).toString() },
+      ],
+      format: {
+        to: (value: number) => Math.round(value).toString(),
+        from: (value: string) => Number.parseFloat(value),
+      },
+    });
+
+    // Update labels while dragging; filter only when the handle is released
+    yearSlider.on('update', (values: (string | number)[]) => {
+      const minLabel = document.getElementById('bp-year-min');
+      const maxLabel = document.getElementById('bp-year-max');
+      if (minLabel) minLabel.textContent = Math.round(Number(values[0])).toString();
+      if (maxLabel) maxLabel.textContent = Math.round(Number(values[1])).toString();
+    });
+    yearSlider.on('end', (values: (string | number)[]) => {
+      const min = Math.round(Number(values[0]));
+      const max = Math.round(Number(values[1]));
+      filters.minYear = min > minYear ? min : null;
+      filters.maxYear = max < maxYear ? max : null;
+      updateUrlFromFilters();
+      renderNetwork();
+    });
+  }
+
+  document.getElementById('clear-filters')?.addEventListener('click', () => {
+    filters.theme = null;
+    filters.minYear = null;
+    filters.maxYear = null;
+    filters.colourBy = 'role';
+    if (themeSelect) themeSelect.value = '';
+    const roleInput = document.getElementById('bp-network-colour-role') as HTMLInputElement | null;
+    if (roleInput) roleInput.checked = true;
+    if (yearSlider && years.length > 1) {
+      yearSlider.set([years[0], years[years.length - 1]]);
+    }
+    updateUrlFromFilters();
+    renderNetwork();
+  });
+}
+
+/**
+ * Initializes the Network page
+ */
+function initNetworkPage(): void {
+  // 1. Match authors once; filters only change which publications are counted
+  const allPublications = getPublicationStore().getAll();
+  publicationToAuthors = createPublicationToAuthorsMap(allPublications, allPeople);
+  publications = allPublications.filter((publication) => publicationToAuthors.has(publication.id));
+
+  // 2. Initialize filters from URL (before rendering so UI reflects state)
+  initFiltersFromUrl();
+
+  // 3. Render the page structure, controls and network
+  renderNetworkPage();
+  initFilterControls();
+  renderNetwork();
+}
+
+initNetworkPage();
@@ -15,12 +15,35 @@ import { renderBreadcrumb } from './components/breadcrumb';
 // Import data
 import { partners } from './data/partners';
 import { allPeople, type Person, type PublicationSource } from './data/people';
-import type { PersonPublication, PersonPublicationsSnapshot } from './data/publications';
+import { PUBLICATION_ORIGIN_LABELS, type PublicationType } from './data/publications';
 import { researchProjects, type ResearchProject } from './data/researchProjects';
+import { getResearchOutputsForPerson, type ResearchOutput } from './data/researchOutputs';
 
 // Import utilities
 import { escapeHtml } from './utils/dom';
 import { renderPublicationCard } from './components/publicationCard';
+import { renderCitationSummary } from './components/citationSummary';
+import { renderResearchOutputList } from './components/researchOutputCard';
+import {
+  attachPublicationTypeFilter,
+  getPublicationTypesFromUrl,
+  matchesPublicationTypes,
+  renderPublicationTypeFilter,
+  setPublicationTypeParams,
+} from './components/publicationTypeFilter';
+import {
+  attachPublicationViewControls,
+  getPublicationViewFromUrl,
+  renderPublicationViewControls,
+  renderReferenceList,
+  setPublicationViewParams,
+} from './components/referenceList';
+import { getPublicationStore } from './utils/publications';
+import {
+  groupPreprintVersions,
+  type MergedPublication,
+  type PublicationVersionGroup,
+} from './utils/publicationMerge';
 
 const navbarContainer = document.querySelector<HTMLElement>('#navbar');
 const main = document.querySelector<HTMLElement>('#bp-main');
@@ -33,74 +56,184 @@ if (!navbarContainer || !main || !footerContainer) {
 renderNavbar(navbarContainer);
 footerContainer.innerHTML = renderFooter(partners);
 
-// Load all publication snapshots from both sources
-const openAlexSnapshots = import.meta.glob('./data/publications/openalex/*.json', {
-  eager: true,
-}) as Record<string, { default: PersonPublicationsSnapshot }>;
+/**
+ * Sort orders for a person's publication list
+ */
+type PublicationSort = 'year-desc' | 'year-asc' | 'title';
 
-const orcidSnapshots = import.meta.glob('./data/publications/orcid/*.json', {
-  eager: true,
-}) as Record<string, { default: PersonPublicationsSnapshot }>;
+const PUBLICATION_SORT_LABELS: Record<PublicationSort, string> = {
+  'year-desc': 'Newest first',
+  'year-asc': 'Oldest first',
+  title: 'Title (A–Z)',
+};
 
 /**
- * Gets publications snapshot for a person based on their publicationSource
- * @param person - The person object
- * @returns The publications snapshot or null if not found
+ * Filter and sort state for a person's publication list (mirrored in the URL)
  */
-function getSnapshotForPerson(person: Person): PersonPublicationsSnapshot | null {
-  const source: PublicationSource = person.publicationSource ?? 'openalex';
+interface PersonPublicationFilters {
+  titleQuery: string;
+  minYear: number | null;
+  maxYear: number | null;
+  themes: Set<string>;
+  types: Set<PublicationType>;
+  sort: PublicationSort;
+}
 
-  const modules = source === 'orcid' ? orcidSnapshots : openAlexSnapshots;
+/**
+ * Number of publications shown initially, and added by each "Show more"
+ */
+const PUBLICATIONS_PAGE_SIZE = 10;
 
-  const targetSuffix = `/${person.slug}.json`;
-  for (const [path, mod] of Object.entries(modules)) {
-    if (path.endsWith(targetSuffix)) {
-      const data =
-        mod && typeof mod === 'object' && 'default' in mod
-          ? (mod as { default: PersonPublicationsSnapshot }).default
-          : (mod as PersonPublicationsSnapshot);
-      return data as PersonPublicationsSnapshot;
-    }
+/**
+ * Global state
+ */
+let personPublications: MergedPublication[] = [];
+let filteredPublications: MergedPublication[] = [];
+let visibleCount = PUBLICATIONS_PAGE_SIZE;
+const publicationFilters: PersonPublicationFilters = {
+  titleQuery: '',
+  minYear: null,
+  maxYear: null,
+  themes: new Set(),
+  types: new Set(),
+  sort: 'year-desc',
+};
+const publicationView = getPublicationViewFromUrl();
+
+/**
+ * Gets the research themes a publication belongs to
+ */
+function getPublicationThemeSlugs(publication: MergedPublication): string[] {
+  return getPublicationStore().getThemeSlugs(publication);
+}
+
+/**
+ * Initializes the publication filters from URL parameters
+ */
+function initPublicationFiltersFromUrl(): void {
+  const params = new URLSearchParams(window.location.search);
+
+  // Year range format: "min-max", "min-", or "-max"
+  const yearMatch = (params.get('years') ?? '').match(/^(\d+)?-(\d+)?$/);
+  publicationFilters.minYear = yearMatch?.[1] ? Number.parseInt(yearMatch[1], 10) : null;
+  publicationFilters.maxYear = yearMatch?.[2] ? Number.parseInt(yearMatch[2], 10) : null;
+
+  const themesParam = params.get('themes');
+  publicationFilters.themes = new Set(themesParam ? themesParam.split(',') : []);
+  publicationFilters.types = getPublicationTypesFromUrl();
+  publicationFilters.titleQuery = params.get('title') ?? '';
+
+  const sortParam = params.get('sort');
+  publicationFilters.sort =
+    sortParam && Object.hasOwn(PUBLICATION_SORT_LABELS, sortParam)
+      ? (sortParam as PublicationSort)
+      : 'year-desc';
+
+  const showParam = Number.parseInt(params.get('show') ?? '', 10);
+  visibleCount = Number.isFinite(showParam)
+    ? Math.max(PUBLICATIONS_PAGE_SIZE, showParam)
+    : PUBLICATIONS_PAGE_SIZE;
+}
+
+/**
+ * Updates URL from the publication filters, keeping the person slug and view parameters
+ */
+function updateUrlFromPublicationFilters(): void {
+  const params = new URLSearchParams(window.location.search);
+  for (const name of ['years', 'themes', 'title', 'sort', 'show']) {
+    params.delete(name);
   }
 
-  return null;
+  const { minYear, maxYear, themes, types, titleQuery, sort } = publicationFilters;
+  if (minYear !== null || maxYear !== null) {
+    params.set('years', `${minYear ?? ''}-${maxYear ?? ''}`);
+  }
+  if (themes.size > 0) {
+    params.set('themes', Array.from(themes).join(','));
+  }
+  setPublicationTypeParams(params, types);
+  if (titleQuery.trim()) {
+    params.set('title', titleQuery.trim());
+  }
+  if (sort !== 'year-desc') {
+    params.set('sort', sort);
+  }
+  if (visibleCount > PUBLICATIONS_PAGE_SIZE) {
+    params.set('show', String(visibleCount));
+  }
+  setPublicationViewParams(params, publicationView);
+
+  window.history.replaceState({}, '', `${window.location.pathname}?${params.toString()}`);
 }
 
 /**
- * Gets publications for a person
- * @param person - The person object
- * @returns Array of publications or null if not found
+ * Checks if a publication matches the current filters
  */
-function getPublicationsForPerson(person: Person): PersonPublication[] | null {
-  const snapshot = getSnapshotForPerson(person);
-  return snapshot?.works ?? null;
+function matchesPublicationFilters(publication: MergedPublication): boolean {
+  const { minYear, maxYear, themes, types, titleQuery } = publicationFilters;
+
+  if (minYear !== null || maxYear !== null) {
+    if (!publication.year) return false;
+    if (minYear !== null && publication.year < minYear) return false;
+    if (maxYear !== null && publication.year > maxYear) return false;
+  }
+
+  if (themes.size > 0 && !getPublicationThemeSlugs(publication).some((slug) => themes.has(slug))) {
+    return false;
+  }
+
+  if (!matchesPublicationTypes(publication, types)) {
+    return false;
+  }
+
+  // Title search: case-insensitive substring match
+  const query = titleQuery.trim().toLowerCase();
+  if (query && !publication.title.toLowerCase().includes(query)) {
+    return false;
+  }
+
+  return true;
 }
 
 /**
- * Renders the publications section HTML as Bootstrap cards
- * @param person - The person object (to determine source)
- * @param publications - Array of publications or null
- * @returns HTML string for the publications section
+ * Sorts publications by the current sort order (undated works go last when sorting by year)
  */
-function renderPublicationsSection(
-  person: Person,
-  publications: PersonPublication[] | null
-): string {
-  const source: PublicationSource = person.publicationSource ?? 'openalex';
-  const sourceLabel = source === 'orcid' ? 'ORCID' : 'OpenAlex';
+function sortPublications(publications: MergedPublication[]): MergedPublication[] {
+  const { sort } = publicationFilters;
+  return [...publications].sort((a, b) => {
+    if (sort !== 'title' && a.year !== b.year) {
+      if (!a.year) return 1;
+      if (!b.year) return -1;
+      return sort === 'year-desc' ? b.year - a.year : a.year - b.year;
+    }
+    return a.title.localeCompare(b.title);
+  });
+}
 
-  if (!publications || publications.length === 0) {
+/**
+ * Renders the listed publications as cards or as a formatted reference list
+ * Cards show preprints under their published version; the reference list lists every version.
+ * @param groups - Publications to show, grouped with their preprints
+ * @returns HTML string for the list
+ */
+function renderPublicationList(groups: PublicationVersionGroup<MergedPublication>[]): string {
+  if (groups.length === 0) {
     return `
-      <section class="mt-4" aria-labelledby="recent-publications-heading">
-        <h2 id="recent-publications-heading" class="h5 mb-2">Recent publications (${sourceLabel})</h2>
-        <p class="text-muted mb-0">No publications found.</p>
-      </section>
+      <div class="alert alert-info mb-0" role="alert">
+        No publications match the selected filters.
+      </div>
     `;
   }
 
-  const cardsHtml = publications
-    .slice(0, 10) // show up to 10
-    .map((work) => {
+  if (publicationView.mode === 'references') {
+    return renderReferenceList(
+      groups.flatMap((group) => [group.publication, ...group.preprints]),
+      publicationView.style
+    );
+  }
+
+  const cardsHtml = groups
+    .map(({ publication: work, preprints }) => {
       const cardHtml = renderPublicationCard(work, {
         showAuthors: true,
         showAuthorPhotos: true,
@@ -109,25 +242,283 @@ function renderPublicationsSection(
         compact: false,
         headingLevel: 'h5',
         withMargin: true,
+        provenance: work,
+        preprints,
       });
       // Wrap in column div for grid layout
       return `<div class="col">${cardHtml}</div>`;
     })
     .join('');
 
+  return `<div class="row row-cols-1 g-3">${cardsHtml}</div>`;
+}
+
+/**
+ * Renders the filter and sort controls for a person's publications
+ * @param publications - All of the person's publications
+ * @returns HTML string for the controls
+ */
+function renderPublicationControls(publications: MergedPublication[]): string {
+  const years = Array.from(
+    new Set(publications.map((pub) => pub.year).filter((year): year is number => Boolean(year)))
+  ).sort((a, b) => b - a);
+
+  const themeSlugs = new Set(publications.flatMap(getPublicationThemeSlugs));
+  const themes = researchProjects
+    .filter((project) => themeSlugs.has(project.slug))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const yearOptions = (selected: number | null): string =>
+    years
+      .map(
+        (year) => `<option value="${year}"${year === selected ? ' selected' : ''}>${year}</option>`
+      )
+      .join('');
+
+  const sortOptionsHtml = (Object.keys(PUBLICATION_SORT_LABELS) as PublicationSort[])
+    .map(
+      (sort) =>
+        `<option value="${sort}"${sort === publicationFilters.sort ? ' selected' : ''}>${PUBLICATION_SORT_LABELS[sort]}</option>`
+    )
+    .join('');
+
+  const themeButtonsHtml = themes.length
+    ? `
+      <div class="d-flex flex-wrap gap-2 mt-2" role="group" aria-label="Filter by theme">
+        ${themes
+          .map((project) => {
+            const isSelected = publicationFilters.themes.has(project.slug);
+            return `
+              <button
+                type="button"
+                class="btn btn-sm ${isSelected ? 'btn-primary' : 'btn-outline-primary'}"
+                data-publication-theme="${escapeHtml(project.slug)}"
+                aria-pressed="${isSelected}"
+              >
+                ${escapeHtml(project.title)}
+              </button>
+            `;
+          })
+          .join('')}
+      </div>
+    `
+    : '';
+
+  const typeFilterHtml = renderPublicationTypeFilter(publications, publicationFilters.types);
+
+  return `
+    <div class="bg-light rounded p-3 mb-3" id="person-publication-controls">
+      <div class="row g-2 align-items-end">
+        <div class="col-md-5">
+          <label for="person-publication-search" class="form-label small fw-semibold mb-1">Search by title</label>
+          <input
+            type="search"
+            id="person-publication-search"
+            class="form-control form-control-sm"
+            placeholder="Search by title..."
+            value="${escapeHtml(publicationFilters.titleQuery)}"
+          />
+        </div>
+        <div class="col-6 col-md-2">
+          <label for="person-publication-year-min" class="form-label small fw-semibold mb-1">From</label>
+          <select id="person-publication-year-min" class="form-select form-select-sm">
+            <option value="">Any</option>
+            ${yearOptions(publicationFilters.minYear)}
+          </select>
+        </div>
+        <div class="col-6 col-md-2">
+          <label for="person-publication-year-max" class="form-label small fw-semibold mb-1">To</label>
+          <select id="person-publication-year-max" class="form-select form-select-sm">
+            <option value="">Any</option>
+            ${yearOptions(publicationFilters.maxYear)}
+          </select>
+        </div>
+        <div class="col-md-3">
+          <label for="person-publication-sort" class="form-label small fw-semibold mb-1">Sort</label>
+          <select id="person-publication-sort" class="form-select form-select-sm">
+            ${sortOptionsHtml}
+          </select>
+        </div>
+      </div>
+      ${themeButtonsHtml}
+      ${typeFilterHtml ? `<div class="mt-2">${typeFilterHtml}</div>` : ''}
+    </div>
+  `;
+}
+
+/**
+ * Applies the filters and re-renders the publication list, count and "Show more" button
+ */
+function applyPublicationFiltersAndRender(): void {
+  filteredPublications = sortPublications(personPublications.filter(matchesPublicationFilters));
+  // Page through works, so a preprint is never separated from its published version
+  const groups = groupPreprintVersions(filteredPublications);
+  const shown = groups.slice(0, visibleCount);
+
+  const list = document.getElementById('person-publications-list');
+  if (list) list.innerHTML = renderPublicationList(shown);
+
+  const count = document.getElementById('person-publications-count');
+  if (count) {
+    // Both numbers count works, with preprints grouped with their published version
+    const totalWorks = groupPreprintVersions(personPublications).length;
+    count.textContent = `Showing ${shown.length} of ${groups.length} publication${groups.length !== 1 ? 's' : ''}${
+      groups.length !== totalWorks ? ` (${totalWorks} in total)` : ''
+    }`;
+  }
+
+  const showMore = document.getElementById('person-publications-more');
+  if (showMore) {
+    const remaining = groups.length - shown.length;
+    showMore.classList.toggle('d-none', remaining <= 0);
+    showMore.textContent = `Show ${Math.min(remaining, PUBLICATIONS_PAGE_SIZE)} more`;
+  }
+
+  document.querySelectorAll<HTMLButtonElement>('[data-publication-theme]').forEach((btn) => {
+    const isSelected = publicationFilters.themes.has(
+      btn.getAttribute('data-publication-theme') ?? ''
+    );
+    btn.classList.toggle('btn-primary', isSelected);
+    btn.classList.toggle('btn-outline-primary', !isSelected);
+    btn.setAttribute('aria-pressed', String(isSelected));
+  });
+
+  const controls = document.getElementById('person-publications-view-controls');
+  if (controls) controls.innerHTML = renderPublicationViewControls(publicationView);
+
+  updateUrlFromPublicationFilters();
+}
+
+/**
+ * Resets paging and re-renders after a filter or sort change
+ */
+function onPublicationFiltersChanged(): void {
+  visibleCount = PUBLICATIONS_PAGE_SIZE;
+  applyPublicationFiltersAndRender();
+}
+
+/**
+ * Initializes the publication filter, sort, paging and view controls
+ * @param container - Element containing the publications section
+ */
+function initPublicationControls(container: HTMLElement): void {
+  const searchInput = document.getElementById(
+    'person-publication-search'
+  ) as HTMLInputElement | null;
+  let searchTimeout: number | undefined;
+  searchInput?.addEventListener('input', () => {
+    window.clearTimeout(searchTimeout);
+    searchTimeout = window.setTimeout(() => {
+      publicationFilters.titleQuery = searchInput.value;
+      onPublicationFiltersChanged();
+    }, 250);
+  });
+
+  const bindYearSelect = (id: string, key: 'minYear' | 'maxYear'): void => {
+    const select = document.getElementById(id) as HTMLSelectElement | null;
+    select?.addEventListener('change', () => {
+      publicationFilters[key] = select.value ? Number.parseInt(select.value, 10) : null;
+      onPublicationFiltersChanged();
+    });
+  };
+  bindYearSelect('person-publication-year-min', 'minYear');
+  bindYearSelect('person-publication-year-max', 'maxYear');
+
+  const sortSelect = document.getElementById('person-publication-sort') as HTMLSelectElement | null;
+  sortSelect?.addEventListener('change', () => {
+    publicationFilters.sort = sortSelect.value as PublicationSort;
+    onPublicationFiltersChanged();
+  });
+
+  document.querySelectorAll<HTMLButtonElement>('[data-publication-theme]').forEach((btn) => {
+    btn.addEventListener('click', () => {
+      const slug = btn.getAttribute('data-publication-theme') ?? '';
+      if (publicationFilters.themes.has(slug)) {
+        publicationFilters.themes.delete(slug);
+      } else {
+        publicationFilters.themes.add(slug);
+      }
+      onPublicationFiltersChanged();
+    });
+  });
+
+  const controls = document.getElementById('person-publication-controls');
+  if (controls) {
+    attachPublicationTypeFilter(controls, publicationFilters.types, onPublicationFiltersChanged);
+  }
+
+  document.getElementById('person-publications-more')?.addEventListener('click', () => {
+    visibleCount += PUBLICATIONS_PAGE_SIZE;
+    applyPublicationFiltersAndRender();
+  });
+
+  attachPublicationViewControls(container, publicationView, {
+    getPublications: () => filteredPublications,
+    onChange: applyPublicationFiltersAndRender,
+  });
+}
+
+/**
+ * Renders the publications section HTML (controls, list and "Show more" button)
+ * The list itself is filled in by applyPublicationFiltersAndRender.
+ * @param person - The person object (to determine the preferred source)
+ * @param publications - The person's merged publications
+ * @returns HTML string for the publications section
+ */
+function renderPublicationsSection(person: Person, publications: MergedPublication[]): string {
+  const source: PublicationSource = person.publicationSource ?? 'openalex';
+  const sourceLabel = PUBLICATION_ORIGIN_LABELS[source];
+
+  if (publications.length === 0) {
+    return `
+      <section class="mt-4" aria-labelledby="recent-publications-heading">
+        <h2 id="recent-publications-heading" class="h5 mb-2">Publications</h2>
+        <p class="text-muted mb-0">No publications found.</p>
+      </section>
+    `;
+  }
+
   return `
     <section class="mt-4" aria-labelledby="recent-publications-heading">
-      <h2 id="recent-publications-heading" class="h5 mb-3">Recent publications (${sourceLabel})</h2>
-      <div class="row row-cols-1 g-3">
-        ${cardsHtml}
+      <div class="d-flex flex-wrap justify-content-between align-items-center gap-2 mb-3">
+        <h2 id="recent-publications-heading" class="h5 mb-0">Publications</h2>
+        <div id="person-publications-view-controls">
+          ${renderPublicationViewControls(publicationView)}
+        </div>
       </div>
+      ${renderCitationSummary(publications)}
+      ${renderPublicationControls(publications)}
+      <p class="text-muted small mb-2" id="person-publications-count" aria-live="polite"></p>
+      <div id="person-publications-list"></div>
+      <button type="button" class="btn btn-outline-primary btn-sm mt-3 d-none" id="person-publications-more">
+        Show more
+      </button>
       <p class="text-muted small mt-2 mb-0">
-        Publications retrieved from the ${sourceLabel} API (snapshot updated periodically).
+        Merged from OpenAlex, ORCID and curated DOI records (snapshots updated periodically).
+        Where sources disagree, ${sourceLabel} is preferred; hover a source badge to see what it supplied.
       </p>
     </section>
   `;
 }
 
+/**
+ * Renders the person's software, datasets, workshops and talks
+ * @param outputs - The person's non-publication research outputs
+ * @returns HTML string for the section, or empty string if there are none
+ */
+function renderResearchOutputsSection(outputs: ResearchOutput[]): string {
+  if (outputs.length === 0) {
+    return '';
+  }
+
+  return `
+    <section class="mt-4" aria-labelledby="person-research-outputs-heading">
+      <h2 id="person-research-outputs-heading" class="h5 mb-3">Software, Data &amp; Events</h2>
+      ${renderResearchOutputList(outputs, { headingLevel: 'h3' })}
+    </section>
+  `;
+}
+
 /**
  * Gets research projects/themes associated with a person
  * @param person - The person object
@@ -404,8 +795,11 @@ function renderPersonDetailBody(p: Person): string {
   const themesSectionHtml = renderPersonThemesSection(personProjects);
 
   // Get publications for this person
-  const publications = getPublicationsForPerson(p);
+  const publications = getPublicationStore().getForPerson(p);
   const publicationsSectionHtml = renderPublicationsSection(p, publications);
+  const researchOutputsSectionHtml = renderResearchOutputsSection(
+    getResearchOutputsForPerson(p.slug)
+  );
 
   const mainColumn = `
     <section class="col-md-8 col-lg-9 mb-4">
@@ -414,6 +808,7 @@ function renderPersonDetailBody(p: Person): string {
       ${biographySectionHtml}
       ${themesSectionHtml}
       ${publicationsSectionHtml}
+      ${researchOutputsSectionHtml}
     </section>
   `;
 
@@ -459,10 +854,18 @@ const pageHeaderHtml = person
     </header>
   `;
 
+initPublicationFiltersFromUrl();
+
 if (!person) {
   const notFoundBody = renderPersonNotFoundBody();
   main.innerHTML = pageHeaderHtml + notFoundBody;
 } else {
   const bodyHtml = renderPersonDetailBody(person);
   main.innerHTML = pageHeaderHtml + bodyHtml;
+
+  personPublications = getPublicationStore().getForPerson(person);
+  if (personPublications.length > 0) {
+    initPublicationControls(main);
+    applyPublicationFiltersAndRender();
+  }
 }
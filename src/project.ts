@@ -15,10 +15,28 @@ import { partners } from './data/partners';
 
 // Import project data
 import { findProjectDetail } from './data/researchProjects';
+import { getResearchOutputsForTheme } from './data/researchOutputs';
 import type { ProjectExtensionMount } from './projects/extensions';
 import { getPeopleForTheme } from './data/peopleByTheme';
 import { renderPersonCard } from './components/personCard';
-import { getPublicationsByIds, renderPublicationsSection } from './utils/publications';
+import { renderResearchOutputList } from './components/researchOutputCard';
+import {
+  getPublicationsByIds,
+  renderPublicationList,
+  renderPublicationsSection,
+} from './utils/publications';
+import {
+  attachPublicationViewControls,
+  getPublicationViewFromUrl,
+  renderPublicationViewControls,
+  updateUrlFromPublicationView,
+} from './components/referenceList';
+import {
+  attachPublicationTypeFilter,
+  getPublicationTypesFromUrl,
+  matchesPublicationTypes,
+  updateUrlFromPublicationTypes,
+} from './components/publicationTypeFilter';
 
 // Import utilities
 import { escapeHtml } from './utils/dom';
@@ -213,7 +231,26 @@ function initProjectPage(): void {
         return b.year - a.year;
       })
     : [];
-  const publicationsHtml = renderPublicationsSection(publications);
+  const publicationView = getPublicationViewFromUrl();
+  const publicationTypes = getPublicationTypesFromUrl();
+  const getListedPublications = () =>
+    publications.filter((publication) => matchesPublicationTypes(publication, publicationTypes));
+  const publicationsHtml = renderPublicationsSection(
+    publications,
+    publicationView,
+    publicationTypes
+  );
+
+  // Software, datasets, workshops and talks for this theme
+  const researchOutputs = getResearchOutputsForTheme(project.slug);
+  const researchOutputsHtml = researchOutputs.length
+    ? `
+      <section class="mt-5">
+        <h2 class="h4 mb-3">Software, Data &amp; Events</h2>
+        ${renderResearchOutputList(researchOutputs, { headingLevel: 'h3', showThemes: false })}
+      </section>
+    `
+    : '';
 
   // Build project page sections
   const questionsCardHtml =
@@ -307,7 +344,7 @@ function initProjectPage(): void {
         <section class="mt-5">
           <h2 class="h4 mb-2">People</h2>
           <div class="row g-3">
-            ${themePeople.map(renderPersonCard).join('')}
+            ${themePeople.map((person) => renderPersonCard(person)).join('')}
           </div>
         </section>
       `;
@@ -351,6 +388,17 @@ function initProjectPage(): void {
       `
           : ''
       }
+      ${
+        researchOutputsHtml
+          ? `
+        <div class="row">
+          <div class="col-12">
+            ${researchOutputsHtml}
+          </div>
+        </div>
+      `
+          : ''
+      }
       <div class="row">
         <div class="col-lg-10 col-xl-8">
           ${extraSectionsHtml}
@@ -372,6 +420,32 @@ function initProjectPage(): void {
 
   main.innerHTML = pageHeaderHtml + bodyHtml;
 
+  // Cards / reference list toggle and type filter for the research outputs section
+  if (publications.length > 0) {
+    const renderListedPublications = () => {
+      const list = document.getElementById('bp-publications-list');
+      if (list) list.innerHTML = renderPublicationList(getListedPublications(), publicationView);
+    };
+
+    attachPublicationViewControls(main, publicationView, {
+      getPublications: getListedPublications,
+      onChange: () => {
+        const controls = document.getElementById('bp-publications-view-controls');
+        if (controls) controls.innerHTML = renderPublicationViewControls(publicationView);
+        renderListedPublications();
+        updateUrlFromPublicationView(publicationView);
+      },
+    });
+
+    const typeFilter = document.getElementById('bp-publications-type-filter');
+    if (typeFilter) {
+      attachPublicationTypeFilter(typeFilter, publicationTypes, () => {
+        renderListedPublications();
+        updateUrlFromPublicationTypes(publicationTypes);
+      });
+    }
+  }
+
   // Initialise key question spotlight
   if (project.keyQuestions && project.keyQuestions.length > 0) {
     setupKeyQuestionSpotlight(project.keyQuestions);
@@ -17,12 +17,55 @@ import { renderFooter } from './components/footer';
 import { partners } from './data/partners';
 import { researchProjects } from './data/researchProjects';
 import { allPeople } from './data/people';
-import { createPublicationLookup, type PersonPublication } from './utils/publications';
+import {
+  OPEN_ACCESS_STATUS_LABELS,
+  PUBLICATION_TYPE_LABELS,
+  type OpenAccessStatus,
+  type PublicationType,
+} from './data/publications';
+import {
+  researchOutputs,
+  sortResearchOutputs,
+  type ResearchOutput,
+  type ResearchOutputKind,
+} from './data/researchOutputs';
+import { getPublicationStore, type PersonPublication } from './utils/publications';
 import { getPublicationAuthors } from './utils/authorMatching';
+import { groupPreprintVersions } from './utils/publicationMerge';
+import {
+  OPEN_ACCESS_STATUSES,
+  getBestOpenAccessStatus,
+  summarizeOpenAccess,
+  type OpenAccessSummary,
+} from './utils/openAccess';
+import { getWorkCitations } from './utils/citationCounts';
 
 // Import utilities
-import { escapeHtml } from './utils/dom';
+import { downloadTextFile, escapeHtml } from './utils/dom';
+import { formatCsv, renderCsvTableHtml, type CsvTable } from './utils/csv';
 import { renderPublicationCard as renderPubCard } from './components/publicationCard';
+import { renderResearchOutputCard } from './components/researchOutputCard';
+import {
+  attachPublicationTypeFilter,
+  getPublicationTypesFromUrl,
+  matchesPublicationTypes,
+  renderPublicationTypeFilter,
+  setPublicationTypeParams,
+  updatePublicationTypeButtons,
+} from './components/publicationTypeFilter';
+import {
+  attachCitationExportHandler,
+  renderCitationExportMenu,
+} from './components/citationExportMenu';
+import {
+  attachPublicationViewControls,
+  getPublicationViewFromUrl,
+  renderPublicationViewControls,
+  renderReferenceList,
+  setPublicationViewParams,
+  type PublicationViewState,
+} from './components/referenceList';
+import { getCitationKey } from './utils/citations';
 
 const navbarContainer = document.querySelector<HTMLElement>('#navbar');
 const main = document.querySelector<HTMLElement>('#bp-main');
@@ -42,8 +85,42 @@ footerContainer.innerHTML = renderFooter(partners);
 interface PublicationWithProject extends PersonPublication {
   projectSlugs: string[]; // all projects/themes this publication belongs to
   projectTitles: string[]; // human-readable project/theme titles (same order as projectSlugs)
+  workOpenAccessStatus?: OpenAccessStatus; // most open status of any version of the work
 }
 
+/**
+ * Kind of output listed on the page: publications or one of the curated non-publication kinds
+ */
+type OutputKind = 'publication' | ResearchOutputKind;
+
+const OUTPUT_KIND_LABELS: Record<OutputKind, string> = {
+  publication: 'Publications',
+  software: 'Software',
+  dataset: 'Datasets',
+  workshop: 'Workshops',
+  talk: 'Talks',
+};
+
+/**
+ * Open-access filter value: a status, or no recorded status
+ */
+type OpenAccessFilter = OpenAccessStatus | 'unknown';
+
+const OPEN_ACCESS_FILTER_LABELS: Record<OpenAccessFilter, string> = {
+  ...OPEN_ACCESS_STATUS_LABELS,
+  unknown: 'Not recorded',
+};
+
+/**
+ * Order of the cards: newest first, or most cited publications first
+ */
+type OutputSort = 'newest' | 'citations';
+
+const OUTPUT_SORT_LABELS: Record<OutputSort, string> = {
+  newest: 'Newest first',
+  citations: 'Most cited (OpenAlex)',
+};
+
 /**
  * Filter state interface
  */
@@ -52,6 +129,9 @@ interface ResearchOutputFilters {
   maxYear: number | null;
   themes: Set<string>;
   authors: Set<string>;
+  kinds: Set<OutputKind>;
+  types: Set<PublicationType>; // publication types (narrows publications only)
+  openAccess: Set<OpenAccessFilter>; // open-access statuses (narrows publications only)
   titleQuery: string;
 }
 
@@ -59,11 +139,20 @@ interface ResearchOutputFilters {
  * Global state
  */
 let allOutputs: PublicationWithProject[] = [];
+let filteredOutputs: PublicationWithProject[] = [];
+let allOtherOutputs: ResearchOutput[] = [];
+let filteredOtherOutputs: ResearchOutput[] = [];
+let publicationView: PublicationViewState = { mode: 'cards', style: 'apa' };
+let outputSort: OutputSort = 'newest';
+let openAccessSummaryTable: CsvTable | null = null;
 const filters: ResearchOutputFilters = {
   minYear: null,
   maxYear: null,
   themes: new Set(),
   authors: new Set(),
+  kinds: new Set(),
+  types: new Set(),
+  openAccess: new Set(),
   titleQuery: '',
 };
 let yearSlider: ReturnType<typeof noUiSlider.create> | null = null;
@@ -85,36 +174,29 @@ function debounce<F extends (...args: unknown[]) => void>(fn: F, delay: number):
  * Aggregates multiple projects per publication
  */
 function loadResearchOutputsData(): PublicationWithProject[] {
-  const lookup = createPublicationLookup();
-  const publicationsById = new Map<string, PublicationWithProject>();
-
-  for (const project of researchProjects) {
-    if (project.publicationIds && project.publicationIds.length > 0) {
-      for (const pubId of project.publicationIds) {
-        const pub = lookup.get(pubId);
-        if (!pub) continue;
-
-        const existing = publicationsById.get(pub.id);
-        if (existing) {
-          // Publication already exists, add this project if not already present
-          if (!existing.projectSlugs.includes(project.slug)) {
-            existing.projectSlugs.push(project.slug);
-            existing.projectTitles.push(project.title);
-          }
-        } else {
-          // First time seeing this publication
-          publicationsById.set(pub.id, {
-            ...pub,
-            projectSlugs: [project.slug],
-            projectTitles: [project.title],
-          });
-        }
-      }
+  const store = getPublicationStore();
+  const projectTitlesBySlug = new Map(
+    researchProjects.map((project) => [project.slug, project.title])
+  );
+
+  const publications: PublicationWithProject[] = store.getThemed().map((pub) => {
+    const projectSlugs = store.getThemeSlugs(pub);
+    return {
+      ...pub,
+      projectSlugs,
+      projectTitles: projectSlugs.map((slug) => projectTitlesBySlug.get(slug) ?? slug),
+    };
+  });
+
+  // A work is as open as its most open version (e.g. a green preprint of a closed article)
+  for (const { publication, preprints } of groupPreprintVersions(publications)) {
+    const status = getBestOpenAccessStatus([publication, ...preprints]);
+    for (const version of [publication, ...preprints]) {
+      version.workOpenAccessStatus = status;
     }
   }
 
-  // Convert map to array and sort by year (newest first), then by title
-  const publications = Array.from(publicationsById.values());
+  // Sort by year (newest first), then by title
   return publications.sort((a, b) => {
     if (a.year !== b.year) {
       if (!a.year) return 1;
@@ -129,6 +211,11 @@ function loadResearchOutputsData(): PublicationWithProject[] {
  * Pure filtering function - checks if an output matches the current filters
  */
 function matchesFilters(output: PublicationWithProject, filters: ResearchOutputFilters): boolean {
+  // Kinds: if any kinds selected, require publications to be one of them
+  if (filters.kinds.size > 0 && !filters.kinds.has('publication')) {
+    return false;
+  }
+
   // Years: if range is set, require output.year to be within the range
   if (filters.minYear !== null || filters.maxYear !== null) {
     if (!output.year) {
@@ -159,6 +246,19 @@ function matchesFilters(output: PublicationWithProject, filters: ResearchOutputF
     }
   }
 
+  // Types: if any types selected, require one of them
+  if (!matchesPublicationTypes(output, filters.types)) {
+    return false;
+  }
+
+  // Open access: if any statuses selected, require the work to have one of them
+  if (
+    filters.openAccess.size > 0 &&
+    !filters.openAccess.has(output.workOpenAccessStatus ?? 'unknown')
+  ) {
+    return false;
+  }
+
   // Title search: case-insensitive substring match
   const query = filters.titleQuery.trim().toLowerCase();
   if (query) {
@@ -172,13 +272,53 @@ function matchesFilters(output: PublicationWithProject, filters: ResearchOutputF
 }
 
 /**
- * Gets unique years from publications (sorted descending)
+ * Checks if a non-publication output matches the current filters
  */
-function getUniqueYears(publications: PublicationWithProject[]): number[] {
+function matchesOtherOutputFilters(
+  output: ResearchOutput,
+  filters: ResearchOutputFilters
+): boolean {
+  if (filters.kinds.size > 0 && !filters.kinds.has(output.kind)) {
+    return false;
+  }
+
+  // Publication types and open-access statuses only apply to publications, so selecting any
+  // hides other outputs
+  if (filters.types.size > 0 || filters.openAccess.size > 0) {
+    return false;
+  }
+
+  if (filters.minYear !== null && output.year < filters.minYear) {
+    return false;
+  }
+  if (filters.maxYear !== null && output.year > filters.maxYear) {
+    return false;
+  }
+
+  if (filters.themes.size > 0 && !output.themeSlugs.some((slug) => filters.themes.has(slug))) {
+    return false;
+  }
+
+  if (filters.authors.size > 0 && !output.personSlugs.some((slug) => filters.authors.has(slug))) {
+    return false;
+  }
+
+  const query = filters.titleQuery.trim().toLowerCase();
+  if (query && !output.title.toLowerCase().includes(query)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Gets unique years from publications and other outputs (sorted descending)
+ */
+function getUniqueYears(): number[] {
   const years = new Set<number>();
-  for (const pub of publications) {
-    if (pub.year) {
-      years.add(pub.year);
+  for (const output of [...allOutputs, ...allOtherOutputs]) {
+    if (output.year) {
+      years.add(output.year);
     }
   }
   return Array.from(years).sort((a, b) => b - a);
@@ -186,8 +326,13 @@ function getUniqueYears(publications: PublicationWithProject[]): number[] {
 
 /**
  * Renders a single publication card with multiple project associations
+ * @param pub - The publication
+ * @param preprints - Preprint versions of the publication
  */
-function renderPublicationCard(pub: PublicationWithProject): string {
+function renderPublicationCard(
+  pub: PublicationWithProject,
+  preprints: PublicationWithProject[] = []
+): string {
   // Build themes/projects links - show all associated projects
   const themesLinks =
     pub.projectTitles.length > 0
@@ -208,6 +353,8 @@ function renderPublicationCard(pub: PublicationWithProject): string {
     withMargin: true,
     projectContext: undefined, // We'll add custom themes display below
     allPeopleForMatching: allPeople,
+    showCitationExport: true,
+    preprints,
   });
 
   // Add themes/projects line before closing card-body div
@@ -233,27 +380,180 @@ function renderPublicationCard(pub: PublicationWithProject): string {
 }
 
 /**
- * Renders the publications list
+ * Renders the publications list, with the non-publication outputs alongside
  */
-function renderOutputsList(outputs: PublicationWithProject[]): void {
+function renderOutputsList(
+  outputs: PublicationWithProject[],
+  otherOutputs: ResearchOutput[]
+): void {
   const listContainer = document.getElementById('publications-list');
   if (!listContainer) return;
 
+  // Cards show preprints under their published version, so count works rather than records
+  const groups = groupPreprintVersions(outputs);
   const countContainer = document.getElementById('publications-count');
   if (countContainer) {
-    countContainer.textContent = `Showing ${outputs.length} of ${allOutputs.length} publication${allOutputs.length !== 1 ? 's' : ''}`;
+    const shown = groups.length + otherOutputs.length;
+    const total = groupPreprintVersions(allOutputs).length + allOtherOutputs.length;
+    countContainer.textContent = `Showing ${shown} of ${total} output${total !== 1 ? 's' : ''}`;
+  }
+
+  // Only offer export when there is something to export
+  const exportContainer = document.getElementById('publications-export');
+  if (exportContainer) {
+    exportContainer.classList.toggle('d-none', outputs.length === 0);
   }
 
-  if (outputs.length === 0) {
+  if (outputs.length === 0 && otherOutputs.length === 0) {
     listContainer.innerHTML = `
       <div class="alert alert-info" role="alert">
-        No publications found matching the selected filters.
+        No research outputs found matching the selected filters.
       </div>
     `;
     return;
   }
 
-  listContainer.innerHTML = outputs.map(renderPublicationCard).join('');
+  // The reference list is for publications, in its citation style's order (the sort control
+  // is disabled); other outputs follow it as cards
+  if (publicationView.mode === 'references') {
+    const otherOutputsHtml = otherOutputs.length
+      ? `
+        <h2 class="h6 text-muted mt-4 mb-3">Software, data and events</h2>
+        ${otherOutputs.map((output) => renderResearchOutputCard(output)).join('')}
+      `
+      : '';
+    listContainer.innerHTML =
+      (outputs.length > 0 ? renderReferenceList(outputs, publicationView.style) : '') +
+      otherOutputsHtml;
+    return;
+  }
+
+  // Cards: interleave publications and other outputs, newest first; sorted by citations,
+  // counted works come first and the rest keep their newest-first order
+  const cards = [
+    ...groups.map(({ publication, preprints }) => ({
+      year: publication.year,
+      citations: getWorkCitations([publication, ...preprints])?.count ?? -1,
+      html: renderPublicationCard(publication, preprints),
+    })),
+    ...otherOutputs.map((output) => ({
+      year: output.year,
+      citations: -1,
+      html: renderResearchOutputCard(output),
+    })),
+  ];
+  listContainer.innerHTML = cards
+    .sort(
+      (a, b) =>
+        (outputSort === 'citations' ? b.citations - a.citations : 0) ||
+        (b.year ?? 0) - (a.year ?? 0)
+    )
+    .map((card) => card.html)
+    .join('');
+}
+
+/**
+ * Formats the open-access share of the works with a recorded status
+ */
+function formatOpenAccessShare(summary: OpenAccessSummary): string {
+  const recorded = summary.total - summary.unknown;
+  return recorded > 0 ? `${Math.round((summary.openAccess / recorded) * 100)}%` : '–';
+}
+
+/**
+ * Builds the per-theme open-access table for a set of publications
+ * Each work (preprints grouped with their published version) counts once under every theme
+ * that lists any of its versions.
+ */
+function getOpenAccessSummaryTable(outputs: PublicationWithProject[]): CsvTable {
+  const works = groupPreprintVersions(outputs).map(({ publication, preprints }) => [
+    publication,
+    ...preprints,
+  ]);
+  const summaries = researchProjects
+    .map((project) => ({
+      label: project.title,
+      summary: summarizeOpenAccess(
+        works.filter((versions) =>
+          versions.some((version) => version.projectSlugs.includes(project.slug))
+        )
+      ),
+    }))
+    .filter(({ summary }) => summary.total > 0);
+  summaries.push({ label: 'All publications', summary: summarizeOpenAccess(works) });
+
+  return {
+    headers: [
+      'Theme',
+      'Publications',
+      ...OPEN_ACCESS_STATUSES.map((status) => OPEN_ACCESS_STATUS_LABELS[status]),
+      'Not recorded',
+      'Open access share',
+      'Openly licensed',
+    ],
+    rows: summaries.map(({ label, summary }) => [
+      label,
+      summary.total,
+      ...OPEN_ACCESS_STATUSES.map((status) => summary.byStatus[status]),
+      summary.unknown,
+      formatOpenAccessShare(summary),
+      summary.openLicence,
+    ]),
+  };
+}
+
+/**
+ * Renders the per-theme open-access summary for the publications shown
+ */
+function renderOpenAccessSummary(outputs: PublicationWithProject[]): void {
+  const container = document.getElementById('bp-oa-summary');
+  if (!container) return;
+
+  openAccessSummaryTable = getOpenAccessSummaryTable(outputs);
+  container.classList.toggle('d-none', outputs.length === 0);
+  container.innerHTML = `
+    <summary class="small fw-semibold">Open-access summary by theme</summary>
+    <p class="small text-muted mt-2 mb-2">
+      Publications matching the current filters, by open-access status from OpenAlex. Works listed
+      by more than one theme count towards each of them. "Not recorded" works have no status yet
+      (they have not been harvested from OpenAlex since statuses were recorded), so the open-access
+      share is of works with a recorded status. Openly licensed works are open access under a
+      Creative Commons or public domain licence.
+    </p>
+    ${renderCsvTableHtml(openAccessSummaryTable)}
+    <button type="button" class="btn btn-outline-secondary btn-sm" data-download-oa-summary>
+      Download CSV
+    </button>
+  `;
+}
+
+/**
+ * Renders the cards / reference list toolbar
+ */
+function renderViewControls(): void {
+  const controlsContainer = document.getElementById('publications-view-controls');
+  if (controlsContainer) {
+    controlsContainer.innerHTML = renderPublicationViewControls(publicationView);
+  }
+
+  // The reference list is ordered by its citation style, so the sort is disabled there
+  const sortContainer = document.getElementById('publications-sort');
+  if (sortContainer) {
+    const isReferences = publicationView.mode === 'references';
+    const optionsHtml = isReferences
+      ? '<option selected>Citation style order</option>'
+      : (Object.keys(OUTPUT_SORT_LABELS) as OutputSort[])
+          .map(
+            (sort) =>
+              `<option value="${sort}"${sort === outputSort ? ' selected' : ''}>${OUTPUT_SORT_LABELS[sort]}</option>`
+          )
+          .join('');
+    sortContainer.innerHTML = `
+      <select class="form-select form-select-sm w-auto" data-output-sort aria-label="Sort outputs"${isReferences ? ' disabled' : ''} title="${isReferences ? 'Reference lists are ordered by their citation style' : 'Citation counts are from OpenAlex, as of the date shown on each card'}">
+        ${optionsHtml}
+      </select>
+    `;
+  }
 }
 
 /**
@@ -269,6 +569,9 @@ function renderActiveFilterTags(): void {
     (hasYearFilter ? 1 : 0) +
     filters.themes.size +
     filters.authors.size +
+    filters.kinds.size +
+    filters.types.size +
+    filters.openAccess.size +
     (filters.titleQuery.trim() ? 1 : 0);
 
   if (totalActiveFilters === 0) {
@@ -326,6 +629,39 @@ function renderActiveFilterTags(): void {
     `);
   });
 
+  // Output kind tags
+  Array.from(filters.kinds).forEach((kind) => {
+    const kindName = OUTPUT_KIND_LABELS[kind];
+    tags.push(`
+      <span class="badge rounded-pill text-bg-primary me-1 mb-1 d-inline-flex align-items-center">
+        ${escapeHtml(kindName)}
+        <button type="button" class="btn-close btn-close-white btn-sm ms-1" style="font-size: 0.65rem;" aria-label="Remove ${escapeHtml(kindName)} filter" data-filter-type="kind" data-filter-value="${kind}"></button>
+      </span>
+    `);
+  });
+
+  // Type tags
+  Array.from(filters.types).forEach((type) => {
+    const typeName = PUBLICATION_TYPE_LABELS[type];
+    tags.push(`
+      <span class="badge rounded-pill text-bg-primary me-1 mb-1 d-inline-flex align-items-center">
+        ${escapeHtml(typeName)}
+        <button type="button" class="btn-close btn-close-white btn-sm ms-1" style="font-size: 0.65rem;" aria-label="Remove type ${escapeHtml(typeName)}" data-filter-type="type" data-filter-value="${type}"></button>
+      </span>
+    `);
+  });
+
+  // Open-access tags
+  Array.from(filters.openAccess).forEach((status) => {
+    const statusName = `${OPEN_ACCESS_FILTER_LABELS[status]} OA`;
+    tags.push(`
+      <span class="badge rounded-pill text-bg-primary me-1 mb-1 d-inline-flex align-items-center">
+        ${escapeHtml(statusName)}
+        <button type="button" class="btn-close btn-close-white btn-sm ms-1" style="font-size: 0.65rem;" aria-label="Remove open access ${escapeHtml(OPEN_ACCESS_FILTER_LABELS[status])} filter" data-filter-type="oa" data-filter-value="${status}"></button>
+      </span>
+    `);
+  });
+
   // Title search tag
   if (filters.titleQuery.trim()) {
     const query = filters.titleQuery;
@@ -366,6 +702,12 @@ function renderActiveFilterTags(): void {
         filters.themes.delete(filterValue);
       } else if (filterType === 'author' && filterValue) {
         filters.authors.delete(filterValue);
+      } else if (filterType === 'kind' && filterValue) {
+        filters.kinds.delete(filterValue as OutputKind);
+      } else if (filterType === 'type' && filterValue) {
+        filters.types.delete(filterValue as PublicationType);
+      } else if (filterType === 'oa' && filterValue) {
+        filters.openAccess.delete(filterValue as OpenAccessFilter);
       } else if (filterType === 'title') {
         filters.titleQuery = '';
         const searchInput = document.getElementById('bp-title-search') as HTMLInputElement | null;
@@ -409,9 +751,20 @@ function updateUrlFromFilters(): void {
   if (filters.authors.size > 0) {
     params.set('authors', Array.from(filters.authors).join(','));
   }
+  if (filters.kinds.size > 0) {
+    params.set('outputs', Array.from(filters.kinds).join(','));
+  }
+  setPublicationTypeParams(params, filters.types);
+  if (filters.openAccess.size > 0) {
+    params.set('oa', Array.from(filters.openAccess).join(','));
+  }
   if (filters.titleQuery.trim()) {
     params.set('title', filters.titleQuery.trim());
   }
+  setPublicationViewParams(params, publicationView);
+  if (outputSort !== 'newest') {
+    params.set('sort', outputSort);
+  }
 
   const newUrl = `${window.location.pathname}${params.toString() ? `?${params.toString()}` : ''}`;
   window.history.replaceState({}, '', newUrl);
@@ -426,6 +779,8 @@ function initFiltersFromUrl(): void {
   const yearsParam = params.get('years');
   const themesParam = params.get('themes');
   const authorsParam = params.get('authors');
+  const outputsParam = params.get('outputs');
+  const openAccessParam = params.get('oa');
   const titleParam = params.get('title');
 
   // Parse year range from URL (format: "min-max", "min-", or "-max")
@@ -452,15 +807,33 @@ function initFiltersFromUrl(): void {
 
   filters.themes = new Set(themesParam ? themesParam.split(',') : []);
   filters.authors = new Set(authorsParam ? authorsParam.split(',') : []);
+  filters.kinds = new Set(
+    (outputsParam ?? '')
+      .split(',')
+      .filter((kind): kind is OutputKind => Object.hasOwn(OUTPUT_KIND_LABELS, kind))
+  );
+  filters.types = getPublicationTypesFromUrl();
+  filters.openAccess = new Set(
+    (openAccessParam ?? '')
+      .split(',')
+      .filter((status): status is OpenAccessFilter =>
+        Object.hasOwn(OPEN_ACCESS_FILTER_LABELS, status)
+      )
+  );
   filters.titleQuery = titleParam ?? '';
+  publicationView = getPublicationViewFromUrl();
+  outputSort = params.get('sort') === 'citations' ? 'citations' : 'newest';
 }
 
 /**
  * Applies filters and renders the results
  */
 function applyFiltersAndRender(): void {
-  const filtered = allOutputs.filter((o) => matchesFilters(o, filters));
-  renderOutputsList(filtered);
+  filteredOutputs = allOutputs.filter((o) => matchesFilters(o, filters));
+  filteredOtherOutputs = allOtherOutputs.filter((o) => matchesOtherOutputFilters(o, filters));
+  renderOutputsList(filteredOutputs, filteredOtherOutputs);
+  renderOpenAccessSummary(filteredOutputs);
+  renderViewControls();
   renderActiveFilterTags();
   updateUrlFromFilters();
 }
@@ -471,7 +844,7 @@ function applyFiltersAndRender(): void {
 function updateFilterUI(): void {
   // Update year slider
   if (yearSlider) {
-    const uniqueYears = getUniqueYears(allOutputs);
+    const uniqueYears = getUniqueYears();
     if (uniqueYears.length > 0) {
       const minAvailable = uniqueYears[uniqueYears.length - 1];
       const maxAvailable = uniqueYears[0];
@@ -509,6 +882,30 @@ function updateFilterUI(): void {
     }
   });
 
+  // Update output kind buttons
+  document.querySelectorAll<HTMLButtonElement>('[data-filter-kind]').forEach((btn) => {
+    const isSelected = filters.kinds.has(btn.getAttribute('data-filter-kind') as OutputKind);
+    btn.classList.toggle('btn-secondary', isSelected);
+    btn.classList.toggle('btn-outline-secondary', !isSelected);
+    btn.setAttribute('aria-pressed', String(isSelected));
+  });
+
+  // Update open-access buttons
+  document.querySelectorAll<HTMLButtonElement>('[data-filter-oa]').forEach((btn) => {
+    const isSelected = filters.openAccess.has(
+      btn.getAttribute('data-filter-oa') as OpenAccessFilter
+    );
+    btn.classList.toggle('btn-secondary', isSelected);
+    btn.classList.toggle('btn-outline-secondary', !isSelected);
+    btn.setAttribute('aria-pressed', String(isSelected));
+  });
+
+  // Update type buttons
+  const typeFilter = document.getElementById('bp-type-filter');
+  if (typeFilter) {
+    updatePublicationTypeButtons(typeFilter, filters.types);
+  }
+
   // Update search input
   const searchInput = document.getElementById('bp-title-search') as HTMLInputElement | null;
   if (searchInput) {
@@ -536,6 +933,26 @@ function toggleAuthor(authorSlug: string): void {
   applyFiltersAndRender();
 }
 
+function toggleOpenAccess(status: OpenAccessFilter): void {
+  if (filters.openAccess.has(status)) {
+    filters.openAccess.delete(status);
+  } else {
+    filters.openAccess.add(status);
+  }
+  updateFilterUI();
+  applyFiltersAndRender();
+}
+
+function toggleKind(kind: OutputKind): void {
+  if (filters.kinds.has(kind)) {
+    filters.kinds.delete(kind);
+  } else {
+    filters.kinds.add(kind);
+  }
+  updateFilterUI();
+  applyFiltersAndRender();
+}
+
 /**
  * Clears all filters
  */
@@ -544,6 +961,9 @@ function clearAllFilters(): void {
   filters.maxYear = null;
   filters.themes.clear();
   filters.authors.clear();
+  filters.kinds.clear();
+  filters.types.clear();
+  filters.openAccess.clear();
   filters.titleQuery = '';
 
   const searchInput = document.getElementById('bp-title-search') as HTMLInputElement | null;
@@ -559,23 +979,62 @@ function clearAllFilters(): void {
  * Renders the filter controls
  */
 function renderFilterControls(): string {
-  const uniqueYears = getUniqueYears(allOutputs);
+  const uniqueYears = getUniqueYears();
 
-  // Get people who have publications
+  // Get people who have publications or other outputs
   const peopleWithPublications = allPeople
     .filter((person) => {
-      return allOutputs.some((pub) => {
-        const authors = getPublicationAuthors(pub, allPeople);
-        return authors.some((author) => author.slug === person.slug);
-      });
+      return (
+        allOtherOutputs.some((output) => output.personSlugs.includes(person.slug)) ||
+        allOutputs.some((pub) => {
+          const authors = getPublicationAuthors(pub, allPeople);
+          return authors.some((author) => author.slug === person.slug);
+        })
+      );
     })
     .sort((a, b) => a.name.localeCompare(b.name));
 
-  // Get projects with publications
+  // Get projects with publications or other outputs
   const projectsWithPublications = researchProjects
-    .filter((p) => p.publicationIds && p.publicationIds.length > 0)
+    .filter(
+      (p) =>
+        (p.publicationIds && p.publicationIds.length > 0) ||
+        allOtherOutputs.some((output) => output.themeSlugs.includes(p.slug))
+    )
     .sort((a, b) => a.title.localeCompare(b.title));
 
+  // Output kind filter buttons (publications, then each non-publication kind present)
+  const kindCounts = new Map<OutputKind, number>([
+    ['publication', groupPreprintVersions(allOutputs).length],
+  ]);
+  for (const output of allOtherOutputs) {
+    kindCounts.set(output.kind, (kindCounts.get(output.kind) ?? 0) + 1);
+  }
+  const kindFilterHtml = `
+    <div class="mb-3">
+      <label class="form-label fw-semibold mb-2">Filter by Output</label>
+      <div class="d-flex flex-wrap gap-2" role="group" aria-label="Filter by output">
+        ${(Object.keys(OUTPUT_KIND_LABELS) as OutputKind[])
+          .filter((kind) => kindCounts.get(kind))
+          .map((kind) => {
+            const isSelected = filters.kinds.has(kind);
+            return `
+          <button
+            type="button"
+            class="btn btn-sm ${isSelected ? 'btn-secondary' : 'btn-outline-secondary'}"
+            data-filter-kind="${kind}"
+            aria-pressed="${isSelected}"
+          >
+            ${escapeHtml(OUTPUT_KIND_LABELS[kind])}
+            <span class="badge text-bg-light ms-1">${kindCounts.get(kind)}</span>
+          </button>
+        `;
+          })
+          .join('')}
+      </div>
+    </div>
+  `;
+
   // Year filter slider
   const minYear =
     uniqueYears.length > 0 ? uniqueYears[uniqueYears.length - 1] : new Date().getFullYear();
@@ -637,6 +1096,51 @@ function renderFilterControls(): string {
     </div>
   `;
 
+  // Type filter buttons (only if outputs are of more than one type)
+  const typeButtonsHtml = renderPublicationTypeFilter(allOutputs, filters.types);
+  const typeFilterHtml = typeButtonsHtml
+    ? `
+    <div class="mb-3" id="bp-type-filter">
+      <label class="form-label fw-semibold mb-2">Filter by Publication Type</label>
+      ${typeButtonsHtml}
+    </div>
+  `
+    : '';
+
+  // Open-access filter buttons (only if works have more than one status)
+  const openAccessCounts = new Map<OpenAccessFilter, number>();
+  for (const { publication } of groupPreprintVersions(allOutputs)) {
+    const status = publication.workOpenAccessStatus ?? 'unknown';
+    openAccessCounts.set(status, (openAccessCounts.get(status) ?? 0) + 1);
+  }
+  const openAccessFilterHtml =
+    openAccessCounts.size > 1
+      ? `
+    <div class="mb-3">
+      <label class="form-label fw-semibold mb-2">Filter by Open Access</label>
+      <div class="d-flex flex-wrap gap-2" role="group" aria-label="Filter by open access">
+        ${(Object.keys(OPEN_ACCESS_FILTER_LABELS) as OpenAccessFilter[])
+          .filter((status) => openAccessCounts.get(status))
+          .map((status) => {
+            const isSelected = filters.openAccess.has(status);
+            return `
+          <button
+            type="button"
+            class="btn btn-sm ${isSelected ? 'btn-secondary' : 'btn-outline-secondary'}"
+            data-filter-oa="${status}"
+            aria-pressed="${isSelected}"
+          >
+            ${escapeHtml(OPEN_ACCESS_FILTER_LABELS[status])}
+            <span class="badge text-bg-light ms-1">${openAccessCounts.get(status)}</span>
+          </button>
+        `;
+          })
+          .join('')}
+      </div>
+    </div>
+  `
+      : '';
+
   // Title search
   const titleSearchHtml = `
     <div class="mb-3">
@@ -657,6 +1161,9 @@ function renderFilterControls(): string {
       <div id="bp-active-filters"></div>
       ${titleSearchHtml}
       ${yearFilterHtml}
+      ${kindFilterHtml}
+      ${typeFilterHtml}
+      ${openAccessFilterHtml}
       ${themeFilterHtml}
       ${authorFilterHtml}
       <button id="clear-filters" class="btn btn-outline-secondary btn-sm w-100">
@@ -673,7 +1180,7 @@ function initFilterControls(): void {
   // Year filter slider
   const sliderElement = document.getElementById('bp-year-slider');
   if (sliderElement) {
-    const uniqueYears = getUniqueYears(allOutputs);
+    const uniqueYears = getUniqueYears();
     if (uniqueYears.length > 0) {
       const minYear = uniqueYears[uniqueYears.length - 1];
       const maxYear = uniqueYears[0];
@@ -732,7 +1239,7 @@ function initFilterControls(): void {
           const min = Math.round(Number(values[0]));
           const max = Math.round(Number(values[1]));
           // Update filters and render only after user releases the handle
-          const uniqueYears = getUniqueYears(allOutputs);
+          const uniqueYears = getUniqueYears();
           if (uniqueYears.length > 0) {
             const minAvailable = uniqueYears[uniqueYears.length - 1];
             const maxAvailable = uniqueYears[0];
@@ -769,6 +1276,26 @@ function initFilterControls(): void {
     });
   });
 
+  // Output kind filter buttons
+  document.querySelectorAll<HTMLButtonElement>('[data-filter-kind]').forEach((btn) => {
+    btn.addEventListener('click', () => {
+      toggleKind(btn.getAttribute('data-filter-kind') as OutputKind);
+    });
+  });
+
+  // Open-access filter buttons
+  document.querySelectorAll<HTMLButtonElement>('[data-filter-oa]').forEach((btn) => {
+    btn.addEventListener('click', () => {
+      toggleOpenAccess(btn.getAttribute('data-filter-oa') as OpenAccessFilter);
+    });
+  });
+
+  // Type filter buttons
+  const typeFilter = document.getElementById('bp-type-filter');
+  if (typeFilter) {
+    attachPublicationTypeFilter(typeFilter, filters.types, applyFiltersAndRender);
+  }
+
   // Title search input
   const searchInput = document.getElementById('bp-title-search') as HTMLInputElement | null;
   if (searchInput) {
@@ -811,11 +1338,19 @@ function renderResearchOutputsPage(): void {
         </div>
 
         <div class="col-lg-9">
-          <div class="d-flex justify-content-between align-items-center mb-3">
+          <div class="d-flex flex-wrap justify-content-between align-items-center gap-2 mb-3">
             <p class="text-muted small mb-0" id="publications-count">
               Loading...
             </p>
+            <div class="d-flex flex-wrap align-items-center gap-2">
+              <div id="publications-sort"></div>
+              <div id="publications-view-controls"></div>
+              <div id="publications-export" title="Download the publications currently shown">
+                ${renderCitationExportMenu({ label: 'Export list' })}
+              </div>
+            </div>
           </div>
+          <details class="mb-3" id="bp-oa-summary"></details>
           <div id="publications-list" class="bp-publications-container">
             Loading...
           </div>
@@ -833,6 +1368,7 @@ function renderResearchOutputsPage(): void {
 function initResearchOutputsPage(): void {
   // 1. Load all outputs
   allOutputs = loadResearchOutputsData();
+  allOtherOutputs = sortResearchOutputs(researchOutputs);
 
   // 2. Initialize filters from URL (before rendering so UI reflects state)
   initFiltersFromUrl();
@@ -843,6 +1379,43 @@ function initResearchOutputsPage(): void {
   // 4. Set up filter UI event listeners
   initFilterControls();
 
+  // Citation export: list menu exports the filtered set, card menus a single publication
+  if (main) {
+    attachCitationExportHandler(main, (publicationId) => {
+      if (!publicationId) {
+        return { publications: filteredOutputs, fileName: 'beyond-prediction-research-outputs' };
+      }
+      const publication = allOutputs.find((pub) => pub.id === publicationId);
+      return publication
+        ? { publications: [publication], fileName: getCitationKey(publication) }
+        : null;
+    });
+
+    main.addEventListener('click', (event) => {
+      const button = (event.target as HTMLElement).closest('[data-download-oa-summary]');
+      if (button && openAccessSummaryTable) {
+        downloadTextFile(
+          formatCsv(openAccessSummaryTable),
+          'beyond-prediction-open-access-by-theme.csv',
+          'text/csv'
+        );
+      }
+    });
+
+    main.addEventListener('change', (event) => {
+      const select = (event.target as HTMLElement).closest<HTMLSelectElement>('[data-output-sort]');
+      if (select && publicationView.mode === 'cards') {
+        outputSort = select.value === 'citations' ? 'citations' : 'newest';
+        applyFiltersAndRender();
+      }
+    });
+
+    attachPublicationViewControls(main, publicationView, {
+      getPublications: () => filteredOutputs,
+      onChange: applyFiltersAndRender,
+    });
+  }
+
   // 5. Update filter UI to reflect URL state (buttons should already be correct, but ensure)
   updateFilterUI();
 
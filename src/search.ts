@@ -4,6 +4,10 @@ import 'bootstrap/dist/css/bootstrap.min.css';
 // Import Bootstrap JS (for navbar toggle and other interactive components)
 import 'bootstrap/dist/js/bootstrap.bundle.min.js';
 
+// Import noUiSlider JS (CSS is imported in styles.css)
+// Import from the CommonJS build which Vite can handle
+import noUiSlider from 'nouislider/dist/nouislider.js';
+
 // Import custom styles
 import './styles.css';
 
@@ -14,34 +18,524 @@ import { renderPersonCard } from './components/personCard';
 import { partners } from './data/partners';
 
 // Import search utilities
-import { searchItems, type SearchItem, type SearchItemType } from './data/searchIndex';
+import {
+  getQuerySuggestion,
+  loadSearchIndex,
+  searchItems,
+  type SearchIndexData,
+  type SearchItem,
+  type SearchItemType,
+} from './data/searchIndex';
+import { extractSnippet, highlightText, type TextSegment } from './utils/searchEngine';
 import { allPeople, type Person } from './data/people';
-import { createPublicationLookup } from './utils/publications';
 import { getPublicationAuthors } from './utils/authorMatching';
 import { researchProjects } from './data/researchProjects';
-import type { PersonPublication } from './data/publications';
+import {
+  PUBLICATION_ORIGIN_LABELS,
+  type PersonPublication,
+  type PublicationOrigin,
+} from './data/publications';
 
 // Import utilities
 import { escapeHtml } from './utils/dom';
-import { renderPublicationCard } from './components/publicationCard';
+import type { PublicationStore } from './utils/publicationStore';
+
+/**
+ * Facet filter state, mirrored in the URL so filtered searches can be shared
+ */
+interface SearchFilters {
+  types: Set<SearchItemType>;
+  themes: Set<string>;
+  minYear: number | null;
+  maxYear: number | null;
+  authors: Set<string>;
+  sources: Set<PublicationOrigin>;
+}
+
+/**
+ * Facets rendered as lists of toggle buttons
+ */
+type ListFacet = 'type' | 'theme' | 'author' | 'source';
+
+/**
+ * URL values for the type facet (kept compatible with existing ?type= links)
+ */
+const TYPE_PARAM_VALUES: Record<SearchItemType, string> = {
+  project: 'projects',
+  person: 'people',
+  publication: 'publications',
+  report: 'reports',
+};
+
+const TYPE_LABELS: Record<SearchItemType, string> = {
+  project: 'Projects',
+  person: 'People',
+  publication: 'Publications',
+  report: 'Reports',
+};
+
+/**
+ * Global state
+ */
+let searchQuery = '';
+let matchedItems: SearchItem[] = [];
+let querySuggestion: string | null = null;
+let isFuzzyMatch = false;
+const filters: SearchFilters = {
+  types: new Set(),
+  themes: new Set(),
+  minYear: null,
+  maxYear: null,
+  authors: new Set(),
+  sources: new Set(),
+};
+let yearSlider: ReturnType<typeof noUiSlider.create> | null = null;
+let renderToken = 0;
+
+/**
+ * Parses a comma-separated URL parameter into a list of values
+ */
+function parseListParam(params: URLSearchParams, name: string): string[] {
+  const value = params.get(name);
+  return value ? value.split(',').filter(Boolean) : [];
+}
 
 /**
- * Parses the search query and type filter from URL query parameters
- * @returns Object with query string and optional type filter
+ * Parses the search query and facet filters from URL query parameters
+ * @returns The search query string
  */
-function getSearchParamsFromUrl(): { query: string; typeFilter?: SearchItemType } {
+function initSearchStateFromUrl(): string {
   const params = new URLSearchParams(window.location.search);
-  const query = (params.get('q') ?? '').trim();
-  const typeParam = params.get('type');
-  const typeFilter: SearchItemType | undefined =
-    typeParam === 'people'
-      ? 'person'
-      : typeParam === 'projects'
-        ? 'project'
-        : typeParam === 'publications'
-          ? 'publication'
-          : undefined;
-  return { query, typeFilter };
+
+  const typeByParam = new Map(
+    (Object.entries(TYPE_PARAM_VALUES) as [SearchItemType, string][]).map(([type, value]) => [
+      value,
+      type,
+    ])
+  );
+  filters.types = new Set(
+    parseListParam(params, 'type')
+      .map((value) => typeByParam.get(value))
+      .filter((type): type is SearchItemType => type !== undefined)
+  );
+  filters.themes = new Set(parseListParam(params, 'themes'));
+  filters.authors = new Set(parseListParam(params, 'authors'));
+  filters.sources = new Set(
+    parseListParam(params, 'sources').filter((value): value is PublicationOrigin =>
+      Object.hasOwn(PUBLICATION_ORIGIN_LABELS, value)
+    )
+  );
+
+  // Year range format: "min-max", "min-", or "-max"
+  const yearMatch = (params.get('years') ?? '').match(/^(\d+)?-(\d+)?$/);
+  filters.minYear = yearMatch?.[1] ? Number.parseInt(yearMatch[1], 10) : null;
+  filters.maxYear = yearMatch?.[2] ? Number.parseInt(yearMatch[2], 10) : null;
+
+  return (params.get('q') ?? '').trim();
+}
+
+/**
+ * Builds the URL query string for the current search and filters
+ * @param query - The search query to encode
+ */
+function buildSearchParams(query: string): URLSearchParams {
+  const params = new URLSearchParams({ q: query });
+
+  if (filters.types.size > 0) {
+    params.set('type', Array.from(filters.types, (type) => TYPE_PARAM_VALUES[type]).join(','));
+  }
+  if (filters.themes.size > 0) {
+    params.set('themes', Array.from(filters.themes).join(','));
+  }
+  if (filters.minYear !== null || filters.maxYear !== null) {
+    params.set('years', `${filters.minYear ?? ''}-${filters.maxYear ?? ''}`);
+  }
+  if (filters.authors.size > 0) {
+    params.set('authors', Array.from(filters.authors).join(','));
+  }
+  if (filters.sources.size > 0) {
+    params.set('sources', Array.from(filters.sources).join(','));
+  }
+
+  return params;
+}
+
+/**
+ * Updates URL from current search and filters
+ */
+function updateUrlFromFilters(): void {
+  window.history.replaceState(
+    {},
+    '',
+    `${window.location.pathname}?${buildSearchParams(searchQuery)}`
+  );
+}
+
+/**
+ * Checks if a search item matches the current filters
+ * @param item - The search item
+ * @param skip - A facet to ignore, so its own values can be counted against the other filters
+ */
+function matchesFilters(item: SearchItem, skip?: ListFacet | 'year'): boolean {
+  if (skip !== 'type' && filters.types.size > 0 && !filters.types.has(item.type)) {
+    return false;
+  }
+
+  if (
+    skip !== 'theme' &&
+    filters.themes.size > 0 &&
+    !(item.themeSlugs ?? []).some((slug) => filters.themes.has(slug))
+  ) {
+    return false;
+  }
+
+  // Years: if range is set, require item.year to be within the range
+  if (skip !== 'year' && (filters.minYear !== null || filters.maxYear !== null)) {
+    if (!item.year) return false;
+    if (filters.minYear !== null && item.year < filters.minYear) return false;
+    if (filters.maxYear !== null && item.year > filters.maxYear) return false;
+  }
+
+  if (
+    skip !== 'author' &&
+    filters.authors.size > 0 &&
+    !(item.authorSlugs ?? []).some((slug) => filters.authors.has(slug))
+  ) {
+    return false;
+  }
+
+  if (
+    skip !== 'source' &&
+    filters.sources.size > 0 &&
+    !(item.sources ?? []).some((source) => filters.sources.has(source))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Gets the values of a list facet for a search item
+ */
+function getFacetValues(item: SearchItem, facet: ListFacet): string[] {
+  switch (facet) {
+    case 'type':
+      return [item.type];
+    case 'theme':
+      return item.themeSlugs ?? [];
+    case 'author':
+      return item.authorSlugs ?? [];
+    case 'source':
+      return item.sources ?? [];
+  }
+}
+
+/**
+ * Gets the selected values of a list facet
+ */
+function getSelectedValues(facet: ListFacet): Set<string> {
+  switch (facet) {
+    case 'type':
+      return filters.types;
+    case 'theme':
+      return filters.themes;
+    case 'author':
+      return filters.authors;
+    case 'source':
+      return filters.sources;
+  }
+}
+
+/**
+ * Counts results per facet value, applying every filter except the facet's own
+ * (so selecting a value never hides its alternatives)
+ */
+function countFacetValues(facet: ListFacet): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of matchedItems) {
+    if (!matchesFilters(item, facet)) continue;
+    for (const value of new Set(getFacetValues(item, facet))) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Gets unique years from the matched items (sorted ascending)
+ */
+function getMatchedYears(): number[] {
+  const years = new Set<number>();
+  for (const item of matchedItems) {
+    if (item.year) years.add(item.year);
+  }
+  return Array.from(years).sort((a, b) => a - b);
+}
+
+/**
+ * Renders one list facet as toggle buttons with live counts
+ * Values with no results are hidden unless selected.
+ */
+function renderListFacet(
+  facet: ListFacet,
+  heading: string,
+  options: { value: string; label: string }[]
+): string {
+  const counts = countFacetValues(facet);
+  const selected = getSelectedValues(facet);
+
+  const buttonsHtml = options
+    .filter((option) => (counts.get(option.value) ?? 0) > 0 || selected.has(option.value))
+    .map((option) => {
+      const isSelected = selected.has(option.value);
+      return `
+        <button
+          type="button"
+          class="btn btn-sm text-start d-flex justify-content-between align-items-center gap-2 ${isSelected ? 'btn-primary' : 'btn-outline-primary'}"
+          data-facet="${facet}"
+          data-facet-value="${escapeHtml(option.value)}"
+          aria-pressed="${isSelected}"
+          title="${escapeHtml(option.label)}"
+        >
+          <span class="text-truncate">${escapeHtml(option.label)}</span>
+          <span class="badge rounded-pill ${isSelected ? 'text-bg-light' : 'text-bg-secondary'}">${counts.get(option.value) ?? 0}</span>
+        </button>
+      `;
+    })
+    .join('');
+
+  if (!buttonsHtml) return '';
+
+  return `
+    <div class="mb-3">
+      <h3 class="form-label fw-semibold mb-2 fs-6">${heading}</h3>
+      <div class="d-flex flex-column gap-2" style="max-height: 300px; overflow-y: auto;">
+        ${buttonsHtml}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Renders the list facets (type, theme, author, source)
+ */
+function renderFacetLists(): void {
+  const container = document.getElementById('bp-search-facets');
+  if (!container) return;
+
+  const typeOptions = (Object.keys(TYPE_LABELS) as SearchItemType[]).map((type) => ({
+    value: type,
+    label: TYPE_LABELS[type],
+  }));
+  const themeOptions = researchProjects
+    .map((project) => ({ value: project.slug, label: project.title }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+  const authorOptions = allPeople
+    .map((person) => ({ value: person.slug, label: person.name }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+  const sourceOptions = (Object.keys(PUBLICATION_ORIGIN_LABELS) as PublicationOrigin[]).map(
+    (source) => ({
+      value: source,
+      label: PUBLICATION_ORIGIN_LABELS[source],
+    })
+  );
+
+  container.innerHTML = [
+    renderListFacet('type', 'Type', typeOptions),
+    renderListFacet('theme', 'Research theme', themeOptions),
+    renderListFacet('author', 'Author', authorOptions),
+    renderListFacet('source', 'Source', sourceOptions),
+  ].join('');
+
+  // Year range count
+  const yearCount = document.getElementById('bp-search-year-count');
+  if (yearCount) {
+    const count = matchedItems.filter((item) => item.year && matchesFilters(item)).length;
+    yearCount.textContent = `${count} dated result${count !== 1 ? 's' : ''} in range`;
+  }
+
+  const clearButton = document.getElementById('bp-search-clear-filters');
+  if (clearButton) {
+    clearButton.classList.toggle('d-none', !hasActiveFilters());
+  }
+}
+
+/**
+ * Checks whether any facet filter is active
+ */
+function hasActiveFilters(): boolean {
+  return (
+    filters.types.size > 0 ||
+    filters.themes.size > 0 ||
+    filters.authors.size > 0 ||
+    filters.sources.size > 0 ||
+    filters.minYear !== null ||
+    filters.maxYear !== null
+  );
+}
+
+/**
+ * Toggles a list facet value and re-renders
+ */
+function toggleFacetValue(facet: ListFacet, value: string): void {
+  const selected = getSelectedValues(facet);
+  if (selected.has(value)) {
+    selected.delete(value);
+  } else {
+    selected.add(value);
+  }
+  applyFiltersAndRender();
+}
+
+/**
+ * Clears all facet filters
+ */
+function clearAllFilters(): void {
+  filters.types.clear();
+  filters.themes.clear();
+  filters.authors.clear();
+  filters.sources.clear();
+  filters.minYear = null;
+  filters.maxYear = null;
+
+  const years = getMatchedYears();
+  if (yearSlider && years.length > 0) {
+    yearSlider.set([years[0], years[years.length - 1]]);
+  }
+
+  applyFiltersAndRender();
+}
+
+/**
+ * Renders the filter sidebar shell; list facets are filled in by renderFacetLists
+ */
+function renderFilterSidebar(): string {
+  const years = getMatchedYears();
+  const yearFilterHtml =
+    years.length > 1
+      ? `
+        <div class="mb-3">
+          <h3 class="form-label fw-semibold mb-2 fs-6">Year range</h3>
+          <div id="bp-search-year-slider"></div>
+          <div class="d-flex justify-content-between small text-muted mt-1">
+            <span id="bp-search-year-min">${filters.minYear ?? years[0]}</span>
+            <span id="bp-search-year-max">${filters.maxYear ?? years[years.length - 1]}</span>
+          </div>
+          <p class="small text-muted mb-0 mt-1" id="bp-search-year-count"></p>
+        </div>
+      `
+      : '';
+
+  return `
+    <div class="bg-light rounded p-3">
+      <h2 class="h6 mb-3">Filters</h2>
+      <div id="bp-search-facets"></div>
+      ${yearFilterHtml}
+      <button type="button" id="bp-search-clear-filters" class="btn btn-outline-secondary btn-sm w-100 d-none">
+        Clear All Filters
+      </button>
+    </div>
+  `;
+}
+
+/**
+ * Initializes the filter sidebar event listeners
+ */
+function initFilterControls(): void {
+  const facetsContainer = document.getElementById('bp-search-facets');
+  facetsContainer?.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('[data-facet]');
+    if (!button) return;
+    const facet = button.getAttribute('data-facet') as ListFacet;
+    const value = button.getAttribute('data-facet-value') ?? '';
+    toggleFacetValue(facet, value);
+  });
+
+  document.getElementById('bp-search-clear-filters')?.addEventListener('click', () => {
+    clearAllFilters();
+  });
+
+  const sliderElement = document.getElementById('bp-search-year-slider');
+  const years = getMatchedYears();
+  if (!sliderElement || years.length < 2) return;
+
+  const minAvailable = years[0];
+  const maxAvailable = years[years.length - 1];
+
+  yearSlider = noUiSlider.create(sliderElement, {
+    start: [filters.minYear ?? minAvailable, filters.maxYear ?? maxAvailable],
+    connect: true,
+    range: { min: minAvailable, max: maxAvailable },
+    step: 1,
+    format: {
+      to: (value: number) => Math.round(value).toString(),
+      from: (value: string) => Number.parseFloat(value),
+    },
+  });
+
+  // Update labels while dragging; filter only once the handle is released
+  yearSlider.on('update', (values: (string | number)[]) => {
+    const minLabel = document.getElementById('bp-search-year-min');
+    const maxLabel = document.getElementById('bp-search-year-max');
+    if (minLabel) minLabel.textContent = Math.round(Number(values[0])).toString();
+    if (maxLabel) maxLabel.textContent = Math.round(Number(values[1])).toString();
+  });
+
+  yearSlider.on('end', (values: (string | number)[]) => {
+    const min = Math.round(Number(values[0]));
+    const max = Math.round(Number(values[1]));
+    filters.minYear = min === minAvailable ? null : min;
+    filters.maxYear = max === maxAvailable ? null : max;
+    applyFiltersAndRender();
+  });
+}
+
+/**
+ * Renders the "Did you mean …?" line for a corrected query
+ * Keeps the current filters so the suggested search stays in the same scope.
+ * @param suggestion - The corrected query, or null
+ * @returns HTML string, or empty string if there is no suggestion
+ */
+function renderDidYouMean(suggestion: string | null): string {
+  if (!suggestion) return '';
+
+  const params = buildSearchParams(suggestion);
+
+  return `
+    <p class="mb-3">
+      Did you mean
+      <a href="/search.html?${escapeHtml(params.toString())}" class="fw-semibold">${escapeHtml(suggestion)}</a>?
+    </p>
+  `;
+}
+
+/**
+ * Renders highlighted text segments as HTML, wrapping matches in <mark>
+ * Every segment is escaped, so the result is safe to insert as HTML.
+ */
+function renderSegments(segments: TextSegment[]): string {
+  return segments
+    .map((segment) =>
+      segment.match ? `<mark>${escapeHtml(segment.text)}</mark>` : escapeHtml(segment.text)
+    )
+    .join('');
+}
+
+/**
+ * Renders text with the current query terms highlighted
+ */
+function renderHighlighted(text: string): string {
+  return renderSegments(highlightText(text, searchQuery, { fuzzy: isFuzzyMatch }));
+}
+
+/**
+ * Renders a context snippet from whichever of the item's longer fields matched the query
+ * @returns Snippet HTML, or null if the match was not in any of those fields
+ */
+function renderMatchSnippet(item: SearchItem): string | null {
+  const snippet = extractSnippet(item.snippetSources ?? [], searchQuery, { fuzzy: isFuzzyMatch });
+  return snippet ? renderSegments(snippet) : null;
 }
 
 /**
@@ -59,8 +553,8 @@ function renderProjectsSection(container: HTMLElement, results: SearchItem[]): v
           <a href="${escapeHtml(item.url)}" class="text-decoration-none text-reset">
             <div class="card h-100">
               <div class="card-body">
-                <h5 class="card-title">${escapeHtml(item.title)}</h5>
-                <p class="card-text">${escapeHtml(item.summary)}</p>
+                <h5 class="card-title">${renderHighlighted(item.title)}</h5>
+                <p class="card-text">${renderMatchSnippet(item) ?? renderHighlighted(item.summary)}</p>
               </div>
             </div>
           </a>
@@ -88,20 +582,22 @@ function renderPublicationsSection(container: HTMLElement, results: SearchItem[]
   if (!results.length) return;
 
   const cardsHtml = results
-    .map(
-      (item) => `
+    .map((item) => {
+      const snippetHtml = renderMatchSnippet(item);
+      return `
         <div class="col-md-6 mb-3">
           <a href="${escapeHtml(item.url)}" target="_blank" rel="noopener noreferrer" class="text-decoration-none text-reset">
             <div class="card h-100">
               <div class="card-body">
-                <h5 class="card-title">${escapeHtml(item.title)}</h5>
-                <p class="card-text small text-muted mb-0">${escapeHtml(item.summary)}</p>
+                <h5 class="card-title">${renderHighlighted(item.title)}</h5>
+                <p class="card-text small text-muted mb-0">${renderHighlighted(item.summary)}</p>
+                ${snippetHtml ? `<p class="card-text small mt-2 mb-0">${snippetHtml}</p>` : ''}
               </div>
             </div>
           </a>
         </div>
-      `
-    )
+      `;
+    })
     .join('');
 
   container.innerHTML += `
@@ -129,7 +625,7 @@ function renderPeopleSection(container: HTMLElement, results: SearchItem[]): voi
     .map((item) => {
       const person = personBySlug.get(item.id);
       if (!person) return '';
-      return renderPersonCard(person);
+      return renderPersonCard(person, { snippetHtml: renderMatchSnippet(item) ?? undefined });
     })
     .join('');
 
@@ -144,51 +640,71 @@ function renderPeopleSection(container: HTMLElement, results: SearchItem[]): voi
 }
 
 /**
- * Gets all publications from all projects
+ * Renders the reports section (annual report and forward plan sections)
+ * @param container - The container element to render into
+ * @param results - Array of report search items
  */
-function getAllPublications(): Array<
-  PersonPublication & { projectSlug: string; projectTitle: string }
-> {
-  const lookup = createPublicationLookup();
-  const publicationsMap = new Map<
-    string,
-    PersonPublication & { projectSlug: string; projectTitle: string }
-  >();
+function renderReportsSection(container: HTMLElement, results: SearchItem[]): void {
+  if (!results.length) return;
 
-  for (const project of researchProjects) {
-    if (project.publicationIds && project.publicationIds.length > 0) {
-      for (const pubId of project.publicationIds) {
-        const pub = lookup.get(pubId);
-        if (!pub) continue;
-
-        // For search results, we use the first project found (or could aggregate, but keeping simple for now)
-        // The main research-outputs page handles multiple projects properly
-        if (!publicationsMap.has(pub.id)) {
-          publicationsMap.set(pub.id, {
-            ...pub,
-            projectSlug: project.slug,
-            projectTitle: project.title,
-          });
-        }
-      }
-    }
-  }
+  const itemsHtml = results
+    .map((item) => {
+      const snippetHtml = renderMatchSnippet(item);
+      return `
+        <a href="${escapeHtml(item.url)}" class="list-group-item list-group-item-action py-3">
+          <div class="d-flex flex-wrap justify-content-between gap-2">
+            <h3 class="h6 mb-1">${renderHighlighted(item.title)}</h3>
+            <span class="small text-muted">${escapeHtml(item.summary)}</span>
+          </div>
+          ${snippetHtml ? `<p class="small mb-0">${snippetHtml}</p>` : ''}
+        </a>
+      `;
+    })
+    .join('');
+
+  container.innerHTML += `
+    <section class="mt-4">
+      <h2 class="h5 mb-3">Reports</h2>
+      <div class="list-group">
+        ${itemsHtml}
+      </div>
+    </section>
+  `;
+}
 
-  return Array.from(publicationsMap.values());
+/**
+ * Gets all publications from all projects, with the first project that lists each one
+ * @param store - The publication store
+ */
+function getAllPublications(
+  store: PublicationStore
+): Array<PersonPublication & { projectSlug: string; projectTitle: string }> {
+  // For search results, we use the first project found (or could aggregate, but keeping simple for now)
+  // The main research-outputs page handles multiple projects properly
+  return store.getThemed().flatMap((pub) => {
+    const project = researchProjects.find((p) => p.slug === store.getThemeSlugs(pub)[0]);
+    return project ? [{ ...pub, projectSlug: project.slug, projectTitle: project.title }] : [];
+  });
 }
 
 /**
  * Renders publications by matched authors
+ * Publication snapshots are only needed here, so they are loaded on demand.
  * @param container - The container element to render into
  * @param matchedPersonSlugs - Array of person slugs that matched the search
  */
-function renderAuthorPublicationsSection(
+async function renderAuthorPublicationsSection(
   container: HTMLElement,
   matchedPersonSlugs: string[]
-): void {
+): Promise<void> {
   if (!matchedPersonSlugs.length) return;
 
-  const allPublications = getAllPublications();
+  const [{ getPublicationStore }, { renderPublicationCard }] = await Promise.all([
+    import('./utils/publications'),
+    import('./components/publicationCard'),
+  ]);
+
+  const allPublications = getAllPublications(getPublicationStore());
   const matchedPublications = new Map<
     string,
     PersonPublication & { projectSlug: string; projectTitle: string }
@@ -254,46 +770,103 @@ function renderAuthorPublicationsSection(
 }
 
 /**
- * Renders search results in the container
- * @param container - The container element to render results into (should be #bp-main)
- * @param query - The search query string
- * @param typeFilter - Optional type filter
+ * Renders the prompt shown when there is no query
+ * @param container - The container element to render into (should be #bp-main)
  */
-function renderResults(container: HTMLElement, query: string, typeFilter?: SearchItemType): void {
-  if (!query) {
-    container.innerHTML = `
-      <div class="container py-5">
-        <h1 class="mb-4">Search</h1>
-        <p class="text-muted">Enter a term in the search bar above to find research themes, projects, and people.</p>
+function renderEmptyQuery(container: HTMLElement): void {
+  container.innerHTML = `
+    <div class="container py-5">
+      <h1 class="mb-4">Search</h1>
+      <p class="text-muted">Enter a term in the search bar above to find research themes, projects, and people.</p>
+    </div>
+  `;
+}
+
+/**
+ * Renders the filtered results into the results column
+ */
+async function renderFilteredResults(): Promise<void> {
+  const resultsContainer = document.getElementById('bp-search-results');
+  if (!resultsContainer) return;
+
+  const token = ++renderToken;
+  const results = matchedItems.filter((item) => matchesFilters(item));
+
+  const summaryHtml = isFuzzyMatch
+    ? `No exact matches for "<strong>${escapeHtml(searchQuery)}</strong>". Showing ${results.length} close match(es).`
+    : `Showing ${results.length} result(s) for "<strong>${escapeHtml(searchQuery)}</strong>".`;
+
+  resultsContainer.innerHTML = `<p class="text-muted mb-0">${summaryHtml}</p>`;
+
+  if (results.length === 0) {
+    resultsContainer.innerHTML += `
+      <div class="alert alert-info mt-4" role="alert">
+        No results match the selected filters.
       </div>
     `;
     return;
   }
 
-  // Perform search
-  const allMatches = searchItems(query, typeFilter);
-
-  // Split results by type
-  let projectResults = allMatches.filter((item) => item.type === 'project');
-  let publicationResults = allMatches.filter((item) => item.type === 'publication');
-  let personResults = allMatches.filter((item) => item.type === 'person');
-
-  // If type filter was passed, hide other results
-  if (typeFilter === 'person') {
-    projectResults = [];
-    publicationResults = [];
-  } else if (typeFilter === 'project') {
-    publicationResults = [];
-    personResults = [];
-  } else if (typeFilter === 'publication') {
-    projectResults = [];
-    personResults = [];
+  // Split results by type (each keeps its most relevant results first)
+  const projectResults = results.filter((item) => item.type === 'project');
+  const publicationResults = results.filter((item) => item.type === 'publication');
+  const personResults = results.filter((item) => item.type === 'person');
+  const reportResults = results.filter((item) => item.type === 'report');
+
+  // Render projects first, then publications, then people, then report sections
+  renderProjectsSection(resultsContainer, projectResults);
+  renderPublicationsSection(resultsContainer, publicationResults);
+  renderPeopleSection(resultsContainer, personResults);
+  renderReportsSection(resultsContainer, reportResults);
+
+  // If people matched, also show their publications
+  if (personResults.length > 0 && filters.types.size === 0) {
+    const matchedPersonSlugs = personResults.map((item) => item.id);
+    const section = document.createElement('div');
+    await renderAuthorPublicationsSection(section, matchedPersonSlugs);
+    // Skip if the filters changed while publications were loading
+    if (token === renderToken) {
+      resultsContainer.append(...section.childNodes);
+    }
+  }
+}
+
+/**
+ * Applies filters, re-renders facets and results, and syncs the URL
+ */
+function applyFiltersAndRender(): void {
+  renderFacetLists();
+  updateUrlFromFilters();
+  renderFilteredResults().catch((error) => {
+    console.error('Error rendering search results:', error);
+  });
+}
+
+/**
+ * Renders the search results page with its filter sidebar
+ * @param container - The container element to render results into (should be #bp-main)
+ * @param data - The loaded search index
+ * @param query - The search query string
+ */
+function renderResults(container: HTMLElement, data: SearchIndexData, query: string): void {
+  searchQuery = query;
+
+  // Perform ranked search
+  matchedItems = searchItems(data, query);
+
+  // No exact hits: fall back to typo-tolerant matching and suggest a corrected query
+  querySuggestion = null;
+  isFuzzyMatch = matchedItems.length === 0;
+  if (isFuzzyMatch) {
+    querySuggestion = getQuerySuggestion(data, query);
+    matchedItems = searchItems(data, query, undefined, { fuzzy: true });
   }
 
-  if (allMatches.length === 0) {
+  if (matchedItems.length === 0) {
     container.innerHTML = `
       <div class="container py-5">
         <h1 class="mb-4">Search results</h1>
+        ${renderDidYouMean(querySuggestion)}
         <p class="text-muted">No results found for "<strong>${escapeHtml(query)}</strong>".</p>
         <p class="text-muted">Try a different keyword, or browse the main research themes.</p>
         <a href="/" class="btn btn-outline-primary mt-3">Back to research themes</a>
@@ -303,34 +876,27 @@ function renderResults(container: HTMLElement, query: string, typeFilter?: Searc
   }
 
   // Build HTML content directly (container is #bp-main)
-  const wrapperHtml = `
+  container.innerHTML = `
     <div class="container py-5">
       <h1 class="mb-4">Search results</h1>
-      <p class="text-muted mb-4">Showing ${allMatches.length} result(s) for "<strong>${escapeHtml(query)}</strong>".</p>
+      ${renderDidYouMean(querySuggestion)}
+      <div class="row">
+        <div class="col-lg-3 mb-4 mb-lg-0" id="filter-sidebar">
+          ${renderFilterSidebar()}
+        </div>
+        <div class="col-lg-9" id="bp-search-results"></div>
+      </div>
     </div>
   `;
 
-  container.innerHTML = wrapperHtml;
-  const wrapper = container.querySelector<HTMLElement>('.container');
-
-  if (!wrapper) return;
-
-  // Render projects first, then publications, then people
-  renderProjectsSection(wrapper, projectResults);
-  renderPublicationsSection(wrapper, publicationResults);
-  renderPeopleSection(wrapper, personResults);
-
-  // If people matched, also show their publications
-  if (personResults.length > 0 && !typeFilter) {
-    const matchedPersonSlugs = personResults.map((item) => item.id);
-    renderAuthorPublicationsSection(wrapper, matchedPersonSlugs);
-  }
+  initFilterControls();
+  applyFiltersAndRender();
 }
 
 /**
  * Initializes the search page
  */
-function initSearchPage(): void {
+async function initSearchPage(): Promise<void> {
   const app = document.querySelector<HTMLDivElement>('#app');
   const main = document.querySelector<HTMLElement>('#bp-main');
 
@@ -344,8 +910,8 @@ function initSearchPage(): void {
   app.insertBefore(navbarContainer, main);
   renderNavbar(navbarContainer);
 
-  // Get search parameters from URL
-  const { query, typeFilter } = getSearchParamsFromUrl();
+  // Get search query and filters from URL
+  const query = initSearchStateFromUrl();
 
   // Sync the search input with the query if present
   const searchInput = navbarContainer.querySelector<HTMLInputElement>('#bp-search-input');
@@ -353,52 +919,55 @@ function initSearchPage(): void {
     searchInput.value = query;
   }
 
-  // Render results into main element
-  renderResults(main, query, typeFilter);
-
   // Create footer container
   const footerContainer = document.createElement('div');
   footerContainer.id = 'footer-container';
   app.appendChild(footerContainer);
   footerContainer.innerHTML = renderFooter(partners);
+
+  if (!query) {
+    renderEmptyQuery(main);
+    return;
+  }
+
+  main.innerHTML = `
+    <div class="container py-5">
+      <h1 class="mb-4">Search results</h1>
+      <p class="text-muted">Searching for "<strong>${escapeHtml(query)}</strong>"...</p>
+    </div>
+  `;
+
+  // Fetch the prebuilt index, then render results into main element
+  const data = await loadSearchIndex();
+  renderResults(main, data, query);
+}
+
+/**
+ * Shows an error message in place of the search results
+ * @param error - The error that occurred
+ */
+function renderInitError(error: unknown): void {
+  console.error('Error initializing search page:', error);
+  const main = document.querySelector<HTMLElement>('#bp-main');
+  if (main) {
+    main.innerHTML = `
+      <div class="container py-5">
+        <h1 class="mb-4">Search</h1>
+        <p class="text-danger">An error occurred while loading the search page. Please try refreshing the page.</p>
+        <pre class="bg-light p-3 rounded">${escapeHtml(String(error))}</pre>
+      </div>
+    `;
+  }
 }
 
 // Initialize the page when DOM is ready
 try {
   if (document.readyState === 'loading') {
     document.addEventListener('DOMContentLoaded', () => {
-      try {
-        initSearchPage();
-      } catch (error) {
-        console.error('Error initializing search page:', error);
-        const main = document.querySelector<HTMLElement>('#bp-main');
-        if (main) {
-          main.innerHTML = `
-            <div class="container py-5">
-              <h1 class="mb-4">Search</h1>
-              <p class="text-danger">An error occurred while loading the search page. Please try refreshing the page.</p>
-              <pre class="bg-light p-3 rounded">${escapeHtml(String(error))}</pre>
-            </div>
-          `;
-        }
-      }
+      initSearchPage().catch(renderInitError);
     });
   } else {
-    try {
-      initSearchPage();
-    } catch (error) {
-      console.error('Error initializing search page:', error);
-      const main = document.querySelector<HTMLElement>('#bp-main');
-      if (main) {
-        main.innerHTML = `
-          <div class="container py-5">
-            <h1 class="mb-4">Search</h1>
-            <p class="text-danger">An error occurred while loading the search page. Please try refreshing the page.</p>
-            <pre class="bg-light p-3 rounded">${escapeHtml(String(error))}</pre>
-          </div>
-        `;
-      }
-    }
+    initSearchPage().catch(renderInitError);
   }
 } catch (error) {
   console.error('Fatal error in search page:', error);
@@ -10,6 +10,7 @@ export interface SearchRecord {
 }
 
 import { researchProjects } from './data/researchProjects';
+import { buildInvertedIndex, queryInvertedIndex } from './utils/searchEngine';
 
 /**
  * Search index built from research project details
@@ -23,21 +24,21 @@ export const searchIndex: SearchRecord[] = researchProjects.map((project) => ({
   href: `/project.html?project=${encodeURIComponent(project.slug)}`,
 }));
 
+const recordIndex = buildInvertedIndex(searchIndex, [
+  { name: 'title', weight: 3, getText: (record) => record.title },
+  { name: 'summary', weight: 1.5, getText: (record) => record.summary },
+  { name: 'tags', weight: 1.5, getText: (record) => record.tags },
+]);
+
 /**
- * Simple search function that filters records based on query
- * Searches in title, summary, and tags (case-insensitive substring match)
+ * Ranked search over project records
+ * Searches in title, summary, and tags; terms are AND-ed unless separated by "OR"
  * @param query - The search query string
- * @returns Array of matching SearchRecord items
+ * @returns Array of matching SearchRecord items, most relevant first
  */
 export function searchRecords(query: string): SearchRecord[] {
-  const q = query.trim().toLowerCase();
+  const q = query.trim();
   if (!q) return [];
 
-  return searchIndex.filter((item) => {
-    const inTitle = item.title.toLowerCase().includes(q);
-    const inSummary = item.summary.toLowerCase().includes(q);
-    const inTags = (item.tags ?? []).some((tag) => tag.toLowerCase().includes(q));
-
-    return inTitle || inSummary || inTags;
-  });
+  return queryInvertedIndex(recordIndex, q).map((hit) => searchIndex[hit.index]);
 }
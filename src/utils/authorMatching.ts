@@ -1,170 +1,428 @@
 /**
  * Utilities for matching publication authors to people
+ *
+ * Each author/person pair gets a confidence score from the evidence available:
+ * - identifiers: a matching ORCID iD is certain and an OpenAlex author ID nearly so; an
+ *   author whose ORCID iD belongs to someone else is never matched
+ * - names: surnames must agree and given names must be compatible, initials-aware, so
+ *   "M. J. Anderson", "Anderson MJ" and "Marti Anderson" all compare correctly. Names are
+ *   checked against Person.name and Person.aliases
+ * - co-authors: another author on the same work is confidently one of our people
+ * - affiliation: one of the author's listed institutions is the person's affiliation
+ *
+ * An author is matched to the best-scoring person at or above AUTHOR_MATCH_THRESHOLD. A
+ * full-name or alias match clears the threshold alone; initials alone need a co-author or
+ * affiliation to back them up, including a match on an alias written only as initials
+ * ("S. Link"). Maintainer decisions from `npm run review:authors` (see
+ * src/data/authorMatchReview.ts) override the scores: accepted matches are certain and
+ * rejected ones are never made.
  */
 
+import { authorMatchDecisions, type AuthorMatchReviewEntry } from '../data/authorMatchReview.js';
 import { allPeople, type Person } from '../data/people.js';
 import type { PublicationAuthor, PersonPublication } from '../data/publications.js';
+import { canonicalizeDoi } from './doi.js';
 
 /**
- * Mapping of known name aliases/variations
- * Maps alternative names to the canonical person slug
+ * Minimum confidence for an author to be matched to a person
  */
-const nameAliases: Record<string, string> = {
-  'augustus ellerm': 'gus-ellerm',
-  'augustus (gus) ellerm': 'gus-ellerm',
-  'a. ellerm': 'gus-ellerm',
-  'a ellerm': 'gus-ellerm',
-  'ellerm, augustus': 'gus-ellerm',
-  'ellerm augustus': 'gus-ellerm',
-  'benjamin adams': 'ben-adams',
-  'adams, benjamin': 'ben-adams',
-  'adams benjamin': 'ben-adams',
-  'gahegan mark': 'mark-gahegan',
-  'mark gahegan': 'mark-gahegan',
-  'anderson mj': 'marti-anderson',
-  'anderson m j': 'marti-anderson',
-  'anderson, mj': 'marti-anderson',
-  'anderson, m j': 'marti-anderson',
-  'm j anderson': 'marti-anderson',
-  'mj anderson': 'marti-anderson',
-  'black ma': 'michael-black',
-  'black, ma': 'michael-black',
-  'm a black': 'michael-black',
-  'm. a. black': 'michael-black',
-  'link, s': 'sebastian-link',
-  'link s': 'sebastian-link',
-  's link': 'sebastian-link',
-  's. link': 'sebastian-link',
-  'link, s.': 'sebastian-link',
-};
+export const AUTHOR_MATCH_THRESHOLD = 0.7;
 
 /**
- * Normalizes a name for comparison (lowercase, remove extra spaces, handle common variations)
+ * Evidence that contributed to an author match
+ */
+export type AuthorMatchSignal =
+  | 'orcid' // ORCID iDs are equal
+  | 'openalex-id' // the author's OpenAlex ID is one of the person's
+  | 'name' // same surname and given name
+  | 'alias' // same as one of the person's declared aliases
+  | 'initials' // same surname, given names compatible only as initials
+  | 'coauthors' // a co-author on the work is confidently another of our people
+  | 'affiliation' // the author lists the person's affiliation
+  | 'reviewed'; // a maintainer accepted the match
+
+/**
+ * A scored match between a publication author and a person
+ */
+export interface AuthorMatch {
+  person: Person;
+  confidence: number; // 0–1
+  signals: AuthorMatchSignal[];
+}
+
+/**
+ * An author of a publication with their best match (null if none reaches the threshold)
+ */
+export interface PublicationAuthorMatch {
+  author: PublicationAuthor;
+  match: AuthorMatch | null;
+  candidates: AuthorMatch[]; // every person with a non-zero score, best first
+}
+
+// Scores for each kind of evidence
+const ORCID_CONFIDENCE = 1;
+const OPENALEX_ID_CONFIDENCE = 0.95;
+const NAME_CONFIDENCE = 0.9;
+const INITIALS_CONFIDENCE = 0.6;
+const SHARED_THEME_COAUTHOR_BOOST = 0.2;
+const COAUTHOR_BOOST = 0.15;
+const AFFILIATION_BOOST = 0.15;
+const REVIEWED_CONFIDENCE = 1;
+
+/**
+ * A name split into surname and given names (normalized; given names may be initials)
+ */
+interface ParsedName {
+  surname: string;
+  givenNames: string[];
+}
+
+/**
+ * Normalizes a name for comparison (lowercase, no diacritics, titles or punctuation)
  */
 function normalizeName(name: string): string {
   return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
     .toLowerCase()
-    .trim()
+    .replace(/[().]/g, ' ')
+    .replace(/\b(dr|prof|professor)\b/g, '')
     .replace(/\s+/g, ' ')
-    .replace(/[.,]/g, '') // Remove periods and commas
-    .replace(/\bdr\b|\bprof\b|\bprofessor\b/gi, '') // Remove titles
     .trim();
 }
 
 /**
- * Extracts last name from a full name
+ * Splits a block of capital initials ("MJ") into separate initials
+ */
+function splitInitials(token: string, rawToken: string): string[] {
+  return /^[A-Z]{2,3}$/.test(rawToken) ? token.split('') : [token];
+}
+
+/**
+ * Parses a name in "First Last", "Last, First" or "Last FM" (initials after surname) form
+ * @param name - The name as written
+ * @returns The parsed name, or null if it has no usable parts
  */
-function extractLastName(name: string): string {
-  const parts = name.trim().split(/\s+/);
-  if (parts.length === 0) return '';
-  // Last name is typically the last part, but could be first in "Last, First" format
-  const lastPart = parts[parts.length - 1];
-  // If name contains comma, first part before comma is likely last name
-  if (name.includes(',')) {
-    return parts[0].replace(/,/g, '').trim();
+function parseName(name: string): ParsedName | null {
+  const ascii = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+  if (ascii.includes(',')) {
+    const [surnamePart, ...givenParts] = ascii.split(',');
+    const surname = normalizeName(surnamePart);
+    const rawGiven = givenParts.join(' ').replace(/[().]/g, ' ').trim().split(/\s+/);
+    const givenNames = rawGiven
+      .filter(Boolean)
+      .flatMap((raw) => splitInitials(normalizeName(raw), raw))
+      .filter(Boolean);
+    return surname ? { surname, givenNames } : null;
+  }
+
+  const rawTokens = ascii
+    .replace(/[().]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !/^(dr|prof|professor)$/i.test(token));
+  if (rawTokens.length === 0) return null;
+  const tokens = rawTokens.map((token) => normalizeName(token));
+
+  // "Anderson MJ": capital initials after the surname
+  const lastRaw = rawTokens[rawTokens.length - 1];
+  if (
+    rawTokens.length === 2 &&
+    /^[A-Z]{1,3}$/.test(lastRaw) &&
+    !/^[A-Z]{1,3}$/.test(rawTokens[0])
+  ) {
+    return { surname: tokens[0], givenNames: lastRaw.toLowerCase().split('') };
   }
-  return lastPart;
+
+  return {
+    surname: tokens[tokens.length - 1],
+    givenNames: rawTokens
+      .slice(0, -1)
+      .flatMap((raw, index) => splitInitials(tokens[index], raw))
+      .filter(Boolean),
+  };
 }
 
 /**
- * Checks if two names match (fuzzy matching)
+ * Compares two parsed names
+ * @returns NAME_CONFIDENCE for the same name, INITIALS_CONFIDENCE when the given names only
+ *   agree as initials, 0 when they conflict or the surnames differ
  */
-function namesMatch(name1: string, name2: string): boolean {
-  const norm1 = normalizeName(name1);
-  const norm2 = normalizeName(name2);
-
-  // Exact match after normalization
-  if (norm1 === norm2) return true;
-
-  // Check if one contains the other (for cases like "Mark Gahegan" vs "M. Gahegan")
-  if (norm1.includes(norm2) || norm2.includes(norm1)) {
-    // Also check last names match
-    const lastName1 = extractLastName(norm1);
-    const lastName2 = extractLastName(norm2);
-    if (lastName1 && lastName2 && lastName1 === lastName2) {
-      return true;
-    }
+function compareParsedNames(a: ParsedName, b: ParsedName): number {
+  if (a.surname !== b.surname || a.givenNames.length === 0 || b.givenNames.length === 0) {
+    return 0;
   }
 
-  // Check last name match (for cases where first name might be abbreviated)
-  const lastName1 = extractLastName(norm1);
-  const lastName2 = extractLastName(norm2);
-  if (lastName1 && lastName2 && lastName1 === lastName2 && lastName1.length > 2) {
-    // If last names match and are substantial, check if first initials match
-    const firstInitial1 = norm1.split(/\s+/)[0]?.[0];
-    const firstInitial2 = norm2.split(/\s+/)[0]?.[0];
-    if (firstInitial1 && firstInitial2 && firstInitial1 === firstInitial2) {
-      return true;
+  const count = Math.min(a.givenNames.length, b.givenNames.length);
+  let allFull = true;
+  for (let i = 0; i < count; i++) {
+    const givenA = a.givenNames[i];
+    const givenB = b.givenNames[i];
+    if (givenA.length > 1 && givenB.length > 1) {
+      if (givenA !== givenB) return 0;
+    } else {
+      allFull = false;
+      if (givenA[0] !== givenB[0]) return 0;
     }
   }
 
-  // Check for reversed name order (e.g., "Gahegan Mark" vs "Mark Gahegan")
-  const parts1 = norm1.split(/\s+/).filter((p) => p.length > 0);
-  const parts2 = norm2.split(/\s+/).filter((p) => p.length > 0);
-  if (parts1.length === 2 && parts2.length === 2) {
-    // Check if names are reversed: "last first" vs "first last"
-    if (
-      (parts1[0] === parts2[1] && parts1[1] === parts2[0]) ||
-      (parts1[0] === parts2[1] && parts1[1].startsWith(parts2[0])) ||
-      (parts1[1].startsWith(parts2[0]) && parts2[1] === parts1[0])
-    ) {
-      return true;
-    }
+  // "Alexei J. Drummond" is the same name as "Alexei Drummond"; "M. J. Anderson" is the
+  // same as "Anderson MJ" but only initials-compatible with "Marti Anderson"
+  const sameInitials =
+    a.givenNames.length === b.givenNames.length &&
+    a.givenNames.every((given, i) => given === b.givenNames[i]);
+  return allFull || sameInitials ? NAME_CONFIDENCE : INITIALS_CONFIDENCE;
+}
+
+const personNameCache = new WeakMap<Person, ParsedName[]>();
+
+/**
+ * Gets a person's parsed name followed by their parsed aliases
+ */
+function getParsedPersonNames(person: Person): ParsedName[] {
+  let names = personNameCache.get(person);
+  if (!names) {
+    names = [person.name, ...(person.aliases ?? [])].map(parseName).filter((name) => name !== null);
+    personNameCache.set(person, names);
   }
+  return names;
+}
 
-  return false;
+/**
+ * Checks whether a name gives only initials for its given names ("M. J. Anderson")
+ */
+function hasOnlyInitials(name: ParsedName): boolean {
+  return name.givenNames.every((given) => given.length === 1);
 }
 
 /**
- * Matches a publication author to a person by name
+ * Scores an author's name against a person's name and aliases
+ * A match on a name or alias given only as initials scores as initials, since any author
+ * with those initials and surname matches it exactly.
  */
-function matchAuthorByName(author: PublicationAuthor, people: Person[]): Person | null {
-  // First check if the author name matches any known aliases
-  const normalizedAuthorName = normalizeName(author.name);
-  const aliasSlug = nameAliases[normalizedAuthorName];
-  if (aliasSlug) {
-    const person = people.find((p) => p.slug === aliasSlug);
-    if (person) {
-      return person;
+function scoreName(author: PublicationAuthor, person: Person): AuthorMatch | null {
+  const authorName = parseName(author.name);
+  if (!authorName) return null;
+
+  let best: AuthorMatch | null = null;
+  const personNames = getParsedPersonNames(person);
+  for (let index = 0; index < personNames.length; index++) {
+    const score = hasOnlyInitials(personNames[index])
+      ? Math.min(compareParsedNames(authorName, personNames[index]), INITIALS_CONFIDENCE)
+      : compareParsedNames(authorName, personNames[index]);
+    if (score > 0 && (!best || score > best.confidence)) {
+      const signal: AuthorMatchSignal =
+        score === INITIALS_CONFIDENCE ? 'initials' : index === 0 ? 'name' : 'alias';
+      best = { person, confidence: score, signals: [signal] };
     }
   }
+  return best;
+}
 
-  // Then try standard name matching
-  for (const person of people) {
-    if (namesMatch(author.name, person.name)) {
-      return person;
+/**
+ * Scores an author against a person from identifiers and name alone (no co-author context)
+ * @param author - The publication author
+ * @param person - The candidate person
+ * @returns The match, or null if nothing links them
+ */
+export function scoreAuthorMatch(author: PublicationAuthor, person: Person): AuthorMatch | null {
+  if (author.orcidId && person.orcidId) {
+    return author.orcidId === person.orcidId
+      ? { person, confidence: ORCID_CONFIDENCE, signals: ['orcid'] }
+      : null;
+  }
+
+  const nameMatch = scoreName(author, person);
+  if (author.openAlexId && person.openAlexIds?.includes(author.openAlexId)) {
+    return {
+      person,
+      confidence: OPENALEX_ID_CONFIDENCE,
+      signals: ['openalex-id', ...(nameMatch?.signals ?? [])],
+    };
+  }
+  if (!nameMatch) return null;
+
+  const affiliation = person.affiliation ? normalizeName(person.affiliation) : '';
+  if (
+    affiliation &&
+    author.affiliations?.some((institution) => normalizeName(institution).includes(affiliation))
+  ) {
+    return {
+      person,
+      confidence: Math.min(1, nameMatch.confidence + AFFILIATION_BOOST),
+      signals: [...nameMatch.signals, 'affiliation'],
+    };
+  }
+  return nameMatch;
+}
+
+let decisionIndex: Map<string, AuthorMatchReviewEntry[]> | null = null;
+
+/**
+ * Builds the key decisions are looked up by: a publication ID or canonical DOI, and an
+ * author name as written
+ */
+function getDecisionKey(publicationKey: string, authorName: string): string {
+  return `${publicationKey}\n${authorName}`;
+}
+
+/**
+ * Gets the maintainer decisions for an author of a publication
+ * Decisions match by publication ID or DOI, so they still apply when the site shows a
+ * different record of the same work.
+ */
+function getAuthorDecisions(
+  publication: PersonPublication,
+  author: PublicationAuthor
+): AuthorMatchReviewEntry[] {
+  if (!decisionIndex) {
+    decisionIndex = new Map();
+    for (const entry of authorMatchDecisions) {
+      const keys = [entry.publicationId, ...(entry.doi ? [canonicalizeDoi(entry.doi)] : [])];
+      for (const key of keys) {
+        const indexKey = getDecisionKey(key, entry.authorName);
+        decisionIndex.set(indexKey, [...(decisionIndex.get(indexKey) ?? []), entry]);
+      }
     }
   }
-  return null;
+
+  const decisions = new Set(decisionIndex.get(getDecisionKey(publication.id, author.name)));
+  if (publication.doi) {
+    const byDoi = decisionIndex.get(getDecisionKey(canonicalizeDoi(publication.doi), author.name));
+    byDoi?.forEach((entry) => decisions.add(entry));
+  }
+  return Array.from(decisions);
 }
 
 /**
- * Matches a publication author to a person by ORCID ID
+ * Applies maintainer decisions to an author's scored matches
+ * @returns The matches without rejected people, with accepted people at full confidence
  */
-function matchAuthorByOrcid(author: PublicationAuthor, people: Person[]): Person | null {
-  if (!author.orcidId) return null;
+function applyDecisions(
+  publication: PersonPublication,
+  author: PublicationAuthor,
+  matches: AuthorMatch[],
+  people: Person[]
+): AuthorMatch[] {
+  const decisions = getAuthorDecisions(publication, author);
+  if (decisions.length === 0) return matches;
 
-  for (const person of people) {
-    if (person.orcidId === author.orcidId) {
-      return person;
+  const rejected = new Set(
+    decisions.filter((entry) => entry.decision === 'rejected').map((entry) => entry.personSlug)
+  );
+  const accepted = new Set(
+    decisions.filter((entry) => entry.decision === 'accepted').map((entry) => entry.personSlug)
+  );
+
+  const result = matches
+    .filter((match) => !rejected.has(match.person.slug))
+    .map((match): AuthorMatch => {
+      if (!accepted.has(match.person.slug)) return match;
+      accepted.delete(match.person.slug);
+      return {
+        ...match,
+        confidence: REVIEWED_CONFIDENCE,
+        signals: [...match.signals, 'reviewed'],
+      };
+    });
+
+  // Accepted people the scores did not link to the author at all
+  for (const slug of accepted) {
+    const person = people.find((candidate) => candidate.slug === slug);
+    if (person) {
+      result.push({ person, confidence: REVIEWED_CONFIDENCE, signals: ['reviewed'] });
     }
   }
-  return null;
+  return result;
+}
+
+/**
+ * Checks whether two people share a research theme
+ */
+function shareTheme(a: Person, b: Person): boolean {
+  return (a.themeSlugs ?? []).some((slug) => b.themeSlugs?.includes(slug));
 }
 
 /**
- * Matches a publication author to a person (tries ORCID first, then name)
+ * Matches every author of a publication, using the confidently matched authors as
+ * co-author evidence for the rest
+ * @param publication - The publication
+ * @param people - Candidate people (default: allPeople)
+ * @param threshold - Minimum confidence for a match (default: AUTHOR_MATCH_THRESHOLD)
+ * @returns One entry per author, in author order
+ */
+export function matchPublicationAuthors(
+  publication: PersonPublication,
+  people: Person[] = allPeople,
+  threshold = AUTHOR_MATCH_THRESHOLD
+): PublicationAuthorMatch[] {
+  const authors = publication.authors ?? [];
+  const scored = authors.map((author) =>
+    applyDecisions(
+      publication,
+      author,
+      people.map((person) => scoreAuthorMatch(author, person)).filter((match) => match !== null),
+      people
+    )
+  );
+
+  // People already matched to some author without help from co-authors
+  const anchors = scored.map((matches) =>
+    matches.filter((match) => match.confidence >= threshold).map((match) => match.person)
+  );
+
+  return authors.map((author, index) => {
+    const coauthors = anchors.flatMap((matched, other) => (other === index ? [] : matched));
+    const candidates = scored[index]
+      .map((match): AuthorMatch => {
+        if (match.confidence >= threshold) return match;
+        const others = coauthors.filter((person) => person.slug !== match.person.slug);
+        if (others.length === 0) return match;
+        const boost = others.some((person) => shareTheme(person, match.person))
+          ? SHARED_THEME_COAUTHOR_BOOST
+          : COAUTHOR_BOOST;
+        return {
+          ...match,
+          confidence: Math.min(1, match.confidence + boost),
+          signals: [...match.signals, 'coauthors'],
+        };
+      })
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const best = candidates[0];
+    return { author, match: best && best.confidence >= threshold ? best : null, candidates };
+  });
+}
+
+/**
+ * Gets the known name aliases for a person (normalized, e.g. "augustus ellerm")
+ * @param person - The person
+ * @returns Array of normalized alias names
+ */
+export function getNameAliasesForPerson(person: Person): string[] {
+  return (person.aliases ?? []).map(normalizeName);
+}
+
+/**
+ * Matches a publication author to a person (without co-author context)
+ * @param author - The publication author
+ * @param people - Candidate people (default: allPeople)
+ * @param threshold - Minimum confidence (default: AUTHOR_MATCH_THRESHOLD)
+ * @returns The best-scoring person at or above the threshold, or null
  */
 export function matchAuthorToPerson(
   author: PublicationAuthor,
-  people: Person[] = allPeople
+  people: Person[] = allPeople,
+  threshold = AUTHOR_MATCH_THRESHOLD
 ): Person | null {
-  // Try ORCID match first (most reliable)
-  const orcidMatch = matchAuthorByOrcid(author, people);
-  if (orcidMatch) return orcidMatch;
-
-  // Fall back to name matching
-  return matchAuthorByName(author, people);
+  let best: AuthorMatch | null = null;
+  for (const person of people) {
+    const match = scoreAuthorMatch(author, person);
+    if (match && match.confidence >= threshold && (!best || match.confidence > best.confidence)) {
+      best = match;
+    }
+  }
+  return best?.person ?? null;
 }
 
 /**
@@ -174,18 +432,13 @@ export function getPublicationAuthors(
   publication: PersonPublication,
   people: Person[] = allPeople
 ): Person[] {
-  if (!publication.authors || publication.authors.length === 0) {
-    return [];
-  }
-
   const matchedPeople: Person[] = [];
   const seenSlugs = new Set<string>();
 
-  for (const author of publication.authors) {
-    const person = matchAuthorToPerson(author, people);
-    if (person && !seenSlugs.has(person.slug)) {
-      matchedPeople.push(person);
-      seenSlugs.add(person.slug);
+  for (const { match } of matchPublicationAuthors(publication, people)) {
+    if (match && !seenSlugs.has(match.person.slug)) {
+      matchedPeople.push(match.person);
+      seenSlugs.add(match.person.slug);
     }
   }
 
@@ -199,28 +452,9 @@ export function getPersonPublications(
   person: Person,
   allPublications: PersonPublication[]
 ): PersonPublication[] {
-  const personPublications: PersonPublication[] = [];
-
-  for (const publication of allPublications) {
-    if (!publication.authors) continue;
-
-    for (const author of publication.authors) {
-      // Match by ORCID first
-      if (person.orcidId && author.orcidId && person.orcidId === author.orcidId) {
-        personPublications.push(publication);
-        break;
-      }
-      // Match by name (including aliases)
-      const normalizedAuthorName = normalizeName(author.name);
-      const aliasSlug = nameAliases[normalizedAuthorName];
-      if (aliasSlug === person.slug || namesMatch(author.name, person.name)) {
-        personPublications.push(publication);
-        break;
-      }
-    }
-  }
-
-  return personPublications;
+  return allPublications.filter((publication) =>
+    getPublicationAuthors(publication).some((author) => author.slug === person.slug)
+  );
 }
 
 /**
@@ -250,10 +484,19 @@ export function createPersonToPublicationsMap(
   people: Person[] = allPeople
 ): Map<string, PersonPublication[]> {
   const map = new Map<string, PersonPublication[]>();
+  const publicationsByPerson = new Map<string, PersonPublication[]>();
+
+  for (const publication of publications) {
+    for (const author of getPublicationAuthors(publication, people)) {
+      const list = publicationsByPerson.get(author.slug) ?? [];
+      list.push(publication);
+      publicationsByPerson.set(author.slug, list);
+    }
+  }
 
   for (const person of people) {
-    const personPubs = getPersonPublications(person, publications);
-    if (personPubs.length > 0) {
+    const personPubs = publicationsByPerson.get(person.slug);
+    if (personPubs) {
       map.set(person.slug, personPubs);
     }
   }
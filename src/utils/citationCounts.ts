@@ -0,0 +1,119 @@
+/**
+ * Citation counts and impact metrics.
+ *
+ * The OpenAlex harvests store each work's citation count and citations per year together with
+ * the date they were harvested (`citations.asOf`; see fromOpenAlexCitations). Counts grow
+ * between harvests, so everything shown on the site is labelled with that date. ORCID and
+ * hand-written DOI records have no counts until the work is harvested from OpenAlex.
+ */
+
+import type { PersonPublication, PublicationCitations } from '../data/publications.js';
+
+/**
+ * Citation fields of an OpenAlex work
+ */
+export interface OpenAlexCitationFields {
+  cited_by_count?: number;
+  counts_by_year?: { year?: number; cited_by_count?: number }[];
+}
+
+/**
+ * Citation metrics for a set of works
+ */
+export interface CitationSummary {
+  works: number; // works in the set
+  countedWorks: number; // works with a citation count
+  citedWorks: number; // works cited at least once
+  total: number; // citations of all counted works
+  hIndex: number; // h works have at least h citations each
+  mostCited?: { publication: PersonPublication; count: number };
+  asOf?: { from: string; to: string }; // earliest and latest snapshot dates of the counts
+}
+
+/**
+ * Reads the citation counts of an OpenAlex work
+ * @param work - OpenAlex work (only the citation fields are read)
+ * @param asOf - Snapshot date to record (YYYY-MM-DD), normally the harvest date
+ * @returns The citations to store, or undefined if OpenAlex gives no count
+ */
+export function fromOpenAlexCitations(
+  work: OpenAlexCitationFields,
+  asOf: string
+): PublicationCitations | undefined {
+  if (typeof work.cited_by_count !== 'number') return undefined;
+  const byYear = (work.counts_by_year ?? [])
+    .filter(
+      (entry): entry is { year: number; cited_by_count: number } =>
+        typeof entry.year === 'number' && typeof entry.cited_by_count === 'number'
+    )
+    .map((entry) => ({ year: entry.year, count: entry.cited_by_count }))
+    .sort((a, b) => a.year - b.year);
+  return { count: work.cited_by_count, byYear, asOf };
+}
+
+/**
+ * Gets the citations of a work's most-cited version
+ * Preprints and published versions are separate OpenAlex works, and adding their counts would
+ * count papers that cite both twice.
+ * @param versions - The work and its preprints (see groupPreprintVersions)
+ * @returns The citations, or undefined if no version has counts
+ */
+export function getWorkCitations(versions: PersonPublication[]): PublicationCitations | undefined {
+  return versions
+    .map((version) => version.citations)
+    .filter((citations): citations is PublicationCitations => citations !== undefined)
+    .sort((a, b) => b.count - a.count)[0];
+}
+
+/**
+ * Computes citation metrics for a set of works
+ * @param works - Versions of each work (see groupPreprintVersions); each work counts once,
+ *   with its most-cited version's count
+ */
+export function summarizeCitations(works: PersonPublication[][]): CitationSummary {
+  const counted = works
+    .map((versions) => ({ publication: versions[0], citations: getWorkCitations(versions) }))
+    .filter(
+      (entry): entry is { publication: PersonPublication; citations: PublicationCitations } =>
+        entry.citations !== undefined
+    )
+    .sort((a, b) => b.citations.count - a.citations.count);
+  const dates = counted.map((entry) => entry.citations.asOf).sort();
+
+  return {
+    works: works.length,
+    countedWorks: counted.length,
+    citedWorks: counted.filter((entry) => entry.citations.count > 0).length,
+    total: counted.reduce((sum, entry) => sum + entry.citations.count, 0),
+    hIndex: counted.filter((entry, index) => entry.citations.count >= index + 1).length,
+    mostCited:
+      counted.length > 0 && counted[0].citations.count > 0
+        ? { publication: counted[0].publication, count: counted[0].citations.count }
+        : undefined,
+    asOf: dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : undefined,
+  };
+}
+
+/**
+ * Formats a snapshot date for display, e.g. "19 Oct 2026"
+ */
+export function formatCitationDate(asOf: string): string {
+  const date = new Date(`${asOf}T00:00:00Z`);
+  return Number.isNaN(date.getTime())
+    ? asOf
+    : date.toLocaleDateString('en-NZ', {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+        timeZone: 'UTC',
+      });
+}
+
+/**
+ * Describes when a set of counts was harvested, e.g. "as of 19 Oct 2026"
+ */
+export function formatCitationsAsOf(asOf: { from: string; to: string }): string {
+  return asOf.from === asOf.to
+    ? `as of ${formatCitationDate(asOf.to)}`
+    : `harvested between ${formatCitationDate(asOf.from)} and ${formatCitationDate(asOf.to)}`;
+}
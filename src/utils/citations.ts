@@ -0,0 +1,407 @@
+import type { PersonPublication } from '../data/publications';
+import { getBareDoi } from './doi';
+
+/**
+ * Machine-readable citation formats offered for export
+ */
+export type CitationExportFormat = 'bibtex' | 'ris' | 'csl-json';
+
+/**
+ * Display and download details for each export format
+ */
+export const CITATION_EXPORT_FORMATS: Record<
+  CitationExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  bibtex: { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+  ris: { label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  'csl-json': {
+    label: 'CSL-JSON',
+    extension: 'json',
+    mimeType: 'application/vnd.citationstyles.csl+json',
+  },
+};
+
+/**
+ * An author name split into family and given parts
+ */
+export interface ParsedAuthorName {
+  family: string;
+  given: string; // may be empty (e.g. consortium names)
+}
+
+/**
+ * CSL-JSON item (the subset of fields we can fill from PersonPublication)
+ */
+export interface CslItem {
+  id: string;
+  type: string;
+  title: string;
+  author?: ({ family: string; given?: string } | { literal: string })[];
+  'container-title'?: string;
+  issued?: { 'date-parts': number[][] };
+  DOI?: string;
+  URL?: string;
+}
+
+/**
+ * Splits an author display name into family and given names
+ * Handles both "Given Family" and "Family, Given" forms.
+ * @param name - The author's display name
+ * @returns The parsed name
+ */
+export function parseAuthorName(name: string): ParsedAuthorName {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (trimmed.includes(',')) {
+    const [family, ...given] = trimmed.split(',');
+    return { family: family.trim(), given: given.join(' ').trim() };
+  }
+
+  const parts = trimmed.split(' ');
+  if (parts.length === 1) {
+    return { family: trimmed, given: '' };
+  }
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(' ') };
+}
+
+/**
+ * Gets the publication's author names in order
+ */
+function getAuthorNames(publication: PersonPublication): string[] {
+  return [...(publication.authors ?? [])]
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+    .map((author) => author.name)
+    .filter(Boolean);
+}
+
+/**
+ * Builds a citation key from the first author, year and first title word (e.g. "gahegan2024live")
+ * @param publication - The publication
+ * @returns The citation key (also used as a download file name)
+ */
+export function getCitationKey(publication: PersonPublication): string {
+  const [firstAuthor] = getAuthorNames(publication);
+  const family = firstAuthor ? parseAuthorName(firstAuthor).family : 'anon';
+  const titleWord =
+    publication.title
+      .split(/\s+/)
+      .map((word) => word.toLowerCase().replace(/[^a-z0-9]/g, ''))
+      .find((word) => word.length > 3) ?? '';
+
+  const key = `${family}${publication.year ?? ''}${titleWord}`
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+  return key || 'publication';
+}
+
+/**
+ * Gets the nth key suffix: a, b, …, z, aa, ab, …
+ */
+function getKeySuffix(n: number): string {
+  const letter = String.fromCharCode(97 + ((n - 1) % 26));
+  return n > 26 ? `${getKeySuffix(Math.floor((n - 1) / 26))}${letter}` : letter;
+}
+
+/**
+ * Assigns unique citation keys, adding a/b/c suffixes when keys collide
+ * Suffixed keys are checked against every key already issued, so "smith2020a" for a
+ * second "smith2020" cannot clash with a publication whose own key is "smith2020a".
+ */
+function getUniqueCitationKeys(publications: PersonPublication[]): string[] {
+  const issued = new Set<string>();
+  return publications.map((publication) => {
+    const base = getCitationKey(publication);
+    let key = base;
+    for (let n = 1; issued.has(key); n++) {
+      key = `${base}${getKeySuffix(n)}`;
+    }
+    issued.add(key);
+    return key;
+  });
+}
+
+/**
+ * Escapes BibTeX special characters in a field value
+ */
+function escapeBibtex(value: string): string {
+  return value.replace(/[\\{}]/g, '').replace(/([&%$#_])/g, '\\$1');
+}
+
+/**
+ * Formats publications as BibTeX entries
+ * Entries with a venue are exported as @article, others as @misc.
+ * @param publications - The publications to export
+ * @returns BibTeX file content
+ */
+export function formatBibtex(publications: PersonPublication[]): string {
+  const keys = getUniqueCitationKeys(publications);
+
+  return publications
+    .map((publication, index) => {
+      // Escaped before wrapping, so the braces that keep a single name whole survive
+      const authors = getAuthorNames(publication).map((name) => {
+        const { family, given } = parseAuthorName(name);
+        return given
+          ? `${escapeBibtex(family)}, ${escapeBibtex(given)}`
+          : `{${escapeBibtex(family)}}`;
+      });
+
+      const fields: [string, string | undefined][] = [
+        // Double braces keep the title's capitalisation
+        ['title', `{${escapeBibtex(publication.title)}}`],
+        ['author', authors.length ? authors.join(' and ') : undefined],
+        ['journal', publication.venue ? escapeBibtex(publication.venue) : undefined],
+        ['year', publication.year?.toString()],
+        // doi and url are verbatim fields in BibTeX, so they are not escaped
+        ['doi', publication.doi ? getBareDoi(publication.doi) : undefined],
+        ['url', publication.openAccessUrl],
+      ];
+
+      const fieldLines = fields
+        .filter((field): field is [string, string] => Boolean(field[1]))
+        .map(([name, value]) => `  ${name} = {${value}}`)
+        .join(',\n');
+
+      const entryType = publication.venue ? 'article' : 'misc';
+      return `@${entryType}{${keys[index]},\n${fieldLines}\n}`;
+    })
+    .join('\n\n')
+    .concat('\n');
+}
+
+/**
+ * Formats publications as RIS records
+ * @param publications - The publications to export
+ * @returns RIS file content
+ */
+export function formatRis(publications: PersonPublication[]): string {
+  return publications
+    .map((publication) => {
+      const lines: [string, string][] = [['TY', publication.venue ? 'JOUR' : 'GEN']];
+      lines.push(['TI', publication.title]);
+      for (const name of getAuthorNames(publication)) {
+        const { family, given } = parseAuthorName(name);
+        lines.push(['AU', given ? `${family}, ${given}` : family]);
+      }
+      if (publication.venue) lines.push(['T2', publication.venue]);
+      if (publication.year) lines.push(['PY', publication.year.toString()]);
+      if (publication.doi) lines.push(['DO', getBareDoi(publication.doi)]);
+      if (publication.openAccessUrl) lines.push(['UR', publication.openAccessUrl]);
+      lines.push(['ER', '']);
+
+      return lines.map(([tag, value]) => `${tag}  - ${value}`.trimEnd()).join('\r\n');
+    })
+    .join('\r\n\r\n')
+    .concat('\r\n');
+}
+
+/**
+ * Converts publications to CSL-JSON items
+ * @param publications - The publications to convert
+ * @returns CSL-JSON items
+ */
+export function toCslItems(publications: PersonPublication[]): CslItem[] {
+  const keys = getUniqueCitationKeys(publications);
+
+  return publications.map((publication, index) => {
+    const authors = getAuthorNames(publication).map((name) => {
+      const { family, given } = parseAuthorName(name);
+      return given ? { family, given } : { literal: family };
+    });
+
+    const item: CslItem = {
+      id: keys[index],
+      type: publication.venue ? 'article-journal' : 'document',
+      title: publication.title,
+    };
+    if (authors.length) item.author = authors;
+    if (publication.venue) item['container-title'] = publication.venue;
+    if (publication.year) item.issued = { 'date-parts': [[publication.year]] };
+    if (publication.doi) item.DOI = getBareDoi(publication.doi);
+    if (publication.openAccessUrl) item.URL = publication.openAccessUrl;
+    return item;
+  });
+}
+
+/**
+ * Formats publications in the given export format
+ * @param publications - The publications to export
+ * @param format - The export format
+ * @returns File content
+ */
+export function formatCitations(
+  publications: PersonPublication[],
+  format: CitationExportFormat
+): string {
+  switch (format) {
+    case 'bibtex':
+      return formatBibtex(publications);
+    case 'ris':
+      return formatRis(publications);
+    case 'csl-json':
+      return `${JSON.stringify(toCslItems(publications), null, 2)}\n`;
+  }
+}
+
+/**
+ * Human-readable citation styles offered for reference lists
+ */
+export type CitationStyle = 'apa' | 'harvard' | 'vancouver';
+
+/**
+ * Display labels for each citation style
+ */
+export const CITATION_STYLES: Record<CitationStyle, { label: string }> = {
+  apa: { label: 'APA' },
+  harvard: { label: 'Harvard' },
+  vancouver: { label: 'Vancouver' },
+};
+
+/**
+ * A run of reference text; italic runs are rendered in <em> (venue names)
+ */
+export interface ReferencePart {
+  text: string;
+  italic?: boolean;
+}
+
+/**
+ * Gets initials for given names ("Mark John" → ["M", "J"])
+ */
+function getInitials(given: string): string[] {
+  return given
+    .split(/[\s.]+/)
+    .filter(Boolean)
+    .map((name) => name[0].toUpperCase());
+}
+
+/**
+ * Formats the author list for a citation style
+ */
+function formatAuthors(publication: PersonPublication, style: CitationStyle): string {
+  const authors = getAuthorNames(publication).map(parseAuthorName);
+  if (authors.length === 0) return '';
+
+  switch (style) {
+    case 'apa': {
+      const names = authors.map(({ family, given }) => {
+        const initials = getInitials(given).map((initial) => `${initial}.`);
+        return initials.length ? `${family}, ${initials.join(' ')}` : family;
+      });
+      // APA 7: list up to 20 authors; beyond that, the first 19, an ellipsis and the last
+      if (names.length > 20) {
+        return `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}`;
+      }
+      // APA puts a comma before the ampersand even for two authors
+      return names.length === 1
+        ? names[0]
+        : `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`;
+    }
+    case 'harvard': {
+      const names = authors.map(({ family, given }) => {
+        const initials = getInitials(given).map((initial) => `${initial}.`);
+        return initials.length ? `${family}, ${initials.join('')}` : family;
+      });
+      // Harvard: up to 3 authors joined with "and", otherwise the first author et al.
+      if (names.length > 3) return `${names[0]} et al.`;
+      return names.length === 1
+        ? names[0]
+        : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+    }
+    case 'vancouver': {
+      const names = authors.map(({ family, given }) =>
+        `${family} ${getInitials(given).join('')}`.trim()
+      );
+      // Vancouver: list up to 6 authors, then "et al."
+      return names.length > 6 ? `${names.slice(0, 6).join(', ')}, et al` : names.join(', ');
+    }
+  }
+}
+
+/**
+ * Appends a full stop unless the text already ends with punctuation
+ */
+function withFullStop(text: string): string {
+  return /[.?!]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * Formats a publication as a reference in the given citation style
+ * @param publication - The publication to format
+ * @param style - The citation style
+ * @returns Reference text split into parts, so venues can be italicised
+ */
+export function formatReference(
+  publication: PersonPublication,
+  style: CitationStyle
+): ReferencePart[] {
+  const authors = formatAuthors(publication, style);
+  const title = publication.title.trim();
+  const venue = publication.venue?.trim();
+  const doi = publication.doi ? getBareDoi(publication.doi) : undefined;
+  const link = doi ? `https://doi.org/${doi}` : publication.openAccessUrl;
+
+  switch (style) {
+    case 'apa': {
+      // Family, A. B., & Family, C. (2024). Title. Venue. https://doi.org/…
+      const year = publication.year ? `(${publication.year}).` : '(n.d.).';
+      const parts: ReferencePart[] = [
+        { text: `${authors ? `${withFullStop(authors)} ` : ''}${year} ${withFullStop(title)}` },
+      ];
+      if (venue) parts.push({ text: ' ' }, { text: venue, italic: true }, { text: '.' });
+      if (link) parts.push({ text: ` ${link}` });
+      return parts;
+    }
+    case 'harvard': {
+      // Family, A.B. and Family, C. (2024) 'Title', Venue. Available at: https://doi.org/…
+      const year = publication.year ? `(${publication.year})` : '(no date)';
+      const parts: ReferencePart[] = [
+        { text: `${authors ? `${authors} ` : ''}${year} '${title}'${venue ? ', ' : '.'}` },
+      ];
+      if (venue) parts.push({ text: venue, italic: true }, { text: '.' });
+      if (link) parts.push({ text: ` Available at: ${link}.` });
+      return parts;
+    }
+    case 'vancouver': {
+      // Family AB, Family C. Title. Venue. 2024. doi:…
+      const parts: ReferencePart[] = [
+        { text: `${authors ? `${withFullStop(authors)} ` : ''}${withFullStop(title)}` },
+      ];
+      if (venue) parts.push({ text: ` ${withFullStop(venue)}` });
+      if (publication.year) parts.push({ text: ` ${publication.year}.` });
+      if (doi) {
+        parts.push({ text: ` doi:${doi}` });
+      } else if (link) {
+        parts.push({ text: ` Available from: ${link}` });
+      }
+      return parts;
+    }
+  }
+}
+
+/**
+ * Orders publications for a reference list
+ * APA and Harvard lists are alphabetical by first author, then year; Vancouver keeps the given order.
+ * @param publications - The publications to order
+ * @param style - The citation style
+ * @returns A new array in reference list order
+ */
+export function sortForReferenceList(
+  publications: PersonPublication[],
+  style: CitationStyle
+): PersonPublication[] {
+  if (style === 'vancouver') return [...publications];
+
+  const sortKey = (publication: PersonPublication): string => {
+    const [firstAuthor] = getAuthorNames(publication);
+    return firstAuthor ? parseAuthorName(firstAuthor).family : publication.title;
+  };
+  return [...publications].sort(
+    (a, b) =>
+      sortKey(a).localeCompare(sortKey(b)) ||
+      (a.year ?? Infinity) - (b.year ?? Infinity) ||
+      a.title.localeCompare(b.title)
+  );
+}
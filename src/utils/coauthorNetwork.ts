@@ -0,0 +1,193 @@
+/**
+ * Co-authorship network of the programme's people
+ *
+ * People are nodes and two people are linked when they share at least one publication,
+ * with the link weighted by the number of shared publications. A preprint and its published
+ * version are one publication (see groupPreprintVersions). The layout is a small
+ * deterministic force-directed (Fruchterman–Reingold) simulation, so the same data always
+ * draws the same picture and no charting library is needed.
+ */
+
+import type { Person } from '../data/people.js';
+import type { PersonPublication } from '../data/publications.js';
+import { groupPreprintVersions } from './publicationMerge.js';
+
+/**
+ * A person in the network
+ */
+export interface CoauthorNode {
+  person: Person;
+  publicationCount: number; // publications in the network's selection the person authored
+}
+
+/**
+ * A co-authorship link between two people
+ */
+export interface CoauthorEdge {
+  source: string; // person slug (the one listed first in the network's people)
+  target: string; // person slug
+  weight: number; // number of shared publications
+  publicationIds: string[]; // IDs of the shared works' published versions
+}
+
+export interface CoauthorNetwork {
+  nodes: CoauthorNode[];
+  edges: CoauthorEdge[];
+}
+
+/**
+ * Position of a node in layout coordinates
+ */
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Builds the co-authorship network for a set of publications
+ * @param publications - Publications to draw links from (preprints are grouped with their
+ *   published version, whose authors are the matched people of every version)
+ * @param publicationToAuthors - Matched people per publication ID (see
+ *   createPublicationToAuthorsMap in authorMatching.ts)
+ * @param people - People to include as nodes; links to anyone else are left out
+ * @returns One node per person (including people with no links) and the weighted links
+ */
+export function buildCoauthorNetwork(
+  publications: PersonPublication[],
+  publicationToAuthors: Map<string, Person[]>,
+  people: Person[]
+): CoauthorNetwork {
+  const order = new Map(people.map((person, index) => [person.slug, index]));
+  const counts = new Map<string, number>();
+  const edgesByKey = new Map<string, CoauthorEdge>();
+
+  for (const { publication, preprints } of groupPreprintVersions(publications)) {
+    const authorsBySlug = new Map(
+      [publication, ...preprints]
+        .flatMap((version) => publicationToAuthors.get(version.id) ?? [])
+        .filter((person) => order.has(person.slug))
+        .map((person) => [person.slug, person])
+    );
+    const authors = Array.from(authorsBySlug.values()).sort(
+      (a, b) => (order.get(a.slug) ?? 0) - (order.get(b.slug) ?? 0)
+    );
+
+    for (const [index, author] of authors.entries()) {
+      counts.set(author.slug, (counts.get(author.slug) ?? 0) + 1);
+      for (const coauthor of authors.slice(index + 1)) {
+        const key = `${author.slug}|${coauthor.slug}`;
+        const edge = edgesByKey.get(key) ?? {
+          source: author.slug,
+          target: coauthor.slug,
+          weight: 0,
+          publicationIds: [],
+        };
+        edge.weight += 1;
+        edge.publicationIds.push(publication.id);
+        edgesByKey.set(key, edge);
+      }
+    }
+  }
+
+  return {
+    nodes: people.map((person) => ({ person, publicationCount: counts.get(person.slug) ?? 0 })),
+    edges: Array.from(edgesByKey.values()).sort((a, b) => b.weight - a.weight),
+  };
+}
+
+/**
+ * Lays the network out with a force-directed simulation
+ * Linked people pull together (more strongly the more they publish together), everyone
+ * pushes everyone else away, and a weak pull to the centre keeps unlinked people in view.
+ * @param network - The network to lay out
+ * @param width - Layout width
+ * @param height - Layout height
+ * @param iterations - Simulation steps (default: 300)
+ * @returns Position per person slug, inside the width × height box
+ */
+export function layoutCoauthorNetwork(
+  network: CoauthorNetwork,
+  width: number,
+  height: number,
+  iterations = 300
+): Map<string, NodePosition> {
+  const positions = new Map<string, NodePosition>();
+  const count = network.nodes.length;
+  if (count === 0) return positions;
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const padding = Math.min(width, height) * 0.08;
+  const k = Math.sqrt((width * height) / count) * 0.6; // ideal link length
+  // Centre pull strong enough to hold unlinked people about `radius` from the centre,
+  // where it balances the push from everyone else
+  const radius = Math.min(width, height) * 0.4;
+  const gravity = count * (k / radius) ** 2;
+
+  // Start on a circle in people order, so the result does not depend on randomness
+  network.nodes.forEach((node, index) => {
+    const angle = (2 * Math.PI * index) / count;
+    positions.set(node.person.slug, {
+      x: centerX + (width / 3) * Math.cos(angle),
+      y: centerY + (height / 3) * Math.sin(angle),
+    });
+  });
+
+  const slugs = network.nodes.map((node) => node.person.slug);
+  for (let step = 0; step < iterations; step++) {
+    const temperature = (Math.min(width, height) / 10) * (1 - step / iterations);
+    const displacement = new Map(slugs.map((slug) => [slug, { x: 0, y: 0 }]));
+
+    // Repulsion between every pair
+    for (let i = 0; i < slugs.length; i++) {
+      for (let j = i + 1; j < slugs.length; j++) {
+        const a = positions.get(slugs[i])!;
+        const b = positions.get(slugs[j])!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.hypot(dx, dy);
+        const force = (k * k) / distance;
+        const da = displacement.get(slugs[i])!;
+        const db = displacement.get(slugs[j])!;
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+
+    // Attraction along links
+    for (const edge of network.edges) {
+      const a = positions.get(edge.source)!;
+      const b = positions.get(edge.target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.hypot(dx, dy) || 0.01;
+      const force = ((distance * distance) / k) * (1 + Math.log(edge.weight));
+      const da = displacement.get(edge.source)!;
+      const db = displacement.get(edge.target)!;
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    }
+
+    // Move each node at most `temperature`, with a weak pull to the centre
+    for (const slug of slugs) {
+      const position = positions.get(slug)!;
+      const delta = displacement.get(slug)!;
+      delta.x += (centerX - position.x) * gravity;
+      delta.y += (centerY - position.y) * gravity;
+      const length = Math.hypot(delta.x, delta.y);
+      if (length > 0) {
+        const move = Math.min(length, temperature);
+        position.x += (delta.x / length) * move;
+        position.y += (delta.y / length) * move;
+      }
+      position.x = Math.min(width - padding, Math.max(padding, position.x));
+      position.y = Math.min(height - padding, Math.max(padding, position.y));
+    }
+  }
+
+  return positions;
+}
@@ -0,0 +1,74 @@
+/**
+ * CSV formatting and HTML rendering for downloadable tables
+ */
+
+import { escapeHtml } from './dom';
+
+/**
+ * A table of values, e.g. a chart's data
+ */
+export interface CsvTable {
+  headers: string[];
+  rows: (string | number)[][];
+}
+
+/**
+ * Quotes a CSV field when it contains a comma, quote or line break (RFC 4180)
+ */
+function formatCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats a table as CSV
+ * @param table - Header row and data rows
+ * @returns CSV text with CRLF line endings
+ */
+export function formatCsv(table: CsvTable): string {
+  return [table.headers, ...table.rows]
+    .map((row) => row.map(formatCsvField).join(','))
+    .join('\r\n')
+    .concat('\r\n');
+}
+
+/**
+ * Renders a table as the HTML data table shown beside charts and CSV downloads, with the
+ * first column as row headings and numbers formatted for display
+ * @param table - Header row and data rows
+ * @returns HTML string for a responsive Bootstrap table
+ */
+export function renderCsvTableHtml(table: CsvTable): string {
+  return `
+    <div class="table-responsive">
+      <table class="table table-sm align-middle small">
+        <thead>
+          <tr>
+            ${table.headers
+              .map(
+                (header, index) =>
+                  `<th scope="col" class="${index > 0 ? 'text-end' : ''}">${escapeHtml(header)}</th>`
+              )
+              .join('')}
+          </tr>
+        </thead>
+        <tbody>
+          ${table.rows
+            .map(
+              (row) => `
+            <tr>
+              ${row
+                .map((value, index) =>
+                  index === 0
+                    ? `<th scope="row" class="fw-normal">${escapeHtml(String(value))}</th>`
+                    : `<td class="text-end">${escapeHtml(typeof value === 'number' ? value.toLocaleString() : value)}</td>`
+                )
+                .join('')}
+            </tr>`
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
@@ -0,0 +1,46 @@
+/**
+ * DOI helpers shared by the site and the data scripts.
+ *
+ * Publication data stores DOIs in several forms ("10.1/x", "https://doi.org/10.1/x",
+ * "http://dx.doi.org/10.1/x", "doi:10.1/x"). DOIs are case-insensitive, so comparisons
+ * use the canonical form: bare and lowercase.
+ */
+
+const DOI_PREFIX_PATTERN = /^(https?:\/\/(dx\.)?doi\.org\/|doi:)/i;
+
+/**
+ * Strips any resolver prefix from a DOI ("https://doi.org/10.1/x" → "10.1/x")
+ * @param doi - DOI in any common format
+ * @returns The bare DOI
+ */
+export function getBareDoi(doi: string): string {
+  return doi.trim().replace(DOI_PREFIX_PATTERN, '').trim();
+}
+
+/**
+ * Converts a DOI to its canonical form for comparison and lookup keys
+ * @param doi - DOI in any common format
+ * @returns The bare, lowercase DOI
+ */
+export function canonicalizeDoi(doi: string): string {
+  return getBareDoi(doi).toLowerCase();
+}
+
+/**
+ * Checks whether a publication reference (e.g. a project publicationId) is a DOI
+ * @param value - An OpenAlex work ID, ORCID work ID or DOI in any format
+ * @returns True for DOIs
+ */
+export function isDoiReference(value: string): boolean {
+  const trimmed = value.trim();
+  return DOI_PREFIX_PATTERN.test(trimmed) || /^10\.\d{4,}\//.test(trimmed);
+}
+
+/**
+ * Gets the resolver URL for a DOI
+ * @param doi - DOI in any common format
+ * @returns "https://doi.org/…" URL
+ */
+export function getDoiUrl(doi: string): string {
+  return `https://doi.org/${getBareDoi(doi)}`;
+}
@@ -32,3 +32,37 @@ const HTML_ESCAPE_MAP: Record<string, string> = {
 export function escapeHtml(input: string): string {
   return input.replace(/[&<>"']/g, (char) => HTML_ESCAPE_MAP[char] ?? char);
 }
+
+/**
+ * Scrolls to the element named by the URL hash (e.g. a report section heading)
+ * Needed after rendering content asynchronously, since the browser only jumps to the
+ * hash target on initial load.
+ */
+export function scrollToUrlHash(): void {
+  const hash = window.location.hash.slice(1);
+  let id = hash;
+  try {
+    id = decodeURIComponent(hash);
+  } catch {
+    // Malformed escapes (e.g. "#%E0%A4"): look the hash up as written
+  }
+  if (!id) return;
+  document.getElementById(id)?.scrollIntoView();
+}
+
+/**
+ * Triggers a browser download of generated text content
+ * @param content - The file content
+ * @param fileName - Suggested file name
+ * @param mimeType - MIME type of the content
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.append(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,143 @@
+/**
+ * Splits static HTML content (the report and forward plan partials) into sections by heading.
+ *
+ * Works on the raw HTML string with regular expressions rather than the DOM, so it can run
+ * in the build step as well as in the browser. The partials are pandoc output with simple,
+ * well-formed markup, which this relies on. Older reports use short bold paragraphs instead
+ * of heading elements; those are treated as headings too.
+ */
+
+/**
+ * A section of an HTML document, from one heading to the next
+ */
+export interface HtmlSection {
+  anchorId?: string; // id attribute of the heading, for deep links
+  heading: string; // heading text (empty for content before the first heading)
+  text: string; // plain text of the section body
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Converts an HTML fragment to plain text (tags removed, entities decoded, whitespace collapsed)
+ * @param html - The HTML fragment
+ * @returns Plain text
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<\/(p|li|h[1-6]|td|th|tr|div|blockquote)>|<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith('#')) {
+        const isHex = code[1] === 'x' || code[1] === 'X';
+        const codePoint = Number.parseInt(code.slice(isHex ? 2 : 1), isHex ? 16 : 10);
+        // Out-of-range code points (e.g. "&#x110000;") are left as written
+        return codePoint >= 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Matches an h1–h3 heading (groups 1–3) or a short paragraph that is entirely bold (groups 4–5)
+ */
+const HEADING_PATTERN =
+  /<h([1-3])([^>]*)>([\s\S]*?)<\/h\1>|<p([^>]*)>\s*<strong>([^<]{1,100})<\/strong>\s*<\/p>/gi;
+
+/**
+ * Turns heading text into an anchor id ("Vision Mātauranga" → "vision-mātauranga")
+ */
+function slugifyHeading(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '') || 'section'
+  );
+}
+
+/**
+ * Adds id attributes to headings that lack one, so every section can be deep-linked
+ * Must be applied to a partial both when indexing it and when displaying it, so the ids match.
+ * @param html - The HTML document or partial
+ * @returns The HTML with an id on every heading
+ */
+export function addHeadingAnchors(html: string): string {
+  const usedIds = new Set(Array.from(html.matchAll(/\sid="([^"]+)"/g), (match) => match[1]));
+
+  return html.replace(
+    HEADING_PATTERN,
+    (tag, level: string | undefined, hAttrs: string, hContent: string, pAttrs: string) => {
+      const attrs = level ? hAttrs : pAttrs;
+      if (/\sid="/.test(attrs)) return tag;
+
+      const text = htmlToText(level ? hContent : tag);
+      if (!text) return tag;
+
+      const baseId = slugifyHeading(text);
+      let id = baseId;
+      for (let n = 1; usedIds.has(id); n++) {
+        id = `${baseId}-${n}`;
+      }
+      usedIds.add(id);
+
+      return tag.replace(/^<(h[1-3]|p)/i, `$& id="${id}"`);
+    }
+  );
+}
+
+/**
+ * Splits an HTML document into sections at each heading
+ * Headings with no text (e.g. empty pandoc headings) do not start a new section, and
+ * consecutive headings (a title followed by a subtitle) are joined.
+ * @param html - The HTML document or partial (run through addHeadingAnchors for complete ids)
+ * @returns Sections in document order, skipping any without body text
+ */
+export function splitHtmlByHeading(html: string): HtmlSection[] {
+  const sections: HtmlSection[] = [];
+
+  let current: HtmlSection = { heading: '', text: '' };
+  let bodyStart = 0;
+
+  const closeSection = (bodyEnd: number): void => {
+    current.text = [current.text, htmlToText(html.slice(bodyStart, bodyEnd))]
+      .filter(Boolean)
+      .join(' ');
+  };
+
+  for (const match of html.matchAll(HEADING_PATTERN)) {
+    const heading = htmlToText(match[1] ? match[3] : match[5]);
+    if (!heading) continue;
+
+    closeSection(match.index);
+    bodyStart = match.index + match[0].length;
+
+    if (!current.text && current.heading) {
+      current.heading = `${current.heading} ${heading}`;
+      continue;
+    }
+    if (current.text) {
+      sections.push(current);
+    }
+
+    const anchorId = (match[1] ? match[2] : match[4]).match(/\sid="([^"]+)"/)?.[1];
+    current = { anchorId, heading, text: '' };
+  }
+
+  closeSection(html.length);
+  if (current.text) {
+    sections.push(current);
+  }
+
+  return sections;
+}
@@ -0,0 +1,139 @@
+/**
+ * Open-access status and licences.
+ *
+ * OpenAlex classifies each work as diamond, gold, hybrid, bronze, green or closed access and
+ * records the licence of its best open-access version; the OpenAlex harvest scripts store
+ * these as `openAccessStatus` and `licence` (see fromOpenAlexOpenAccess). ORCID and
+ * hand-written DOI records, and snapshots harvested before statuses were stored, have no
+ * status until the work is next harvested from OpenAlex. An `openAccessUrl` alone does not
+ * show a work is open access, since the harvests fall back to the publisher's landing page.
+ */
+
+import {
+  OPEN_ACCESS_STATUS_LABELS,
+  type OpenAccessStatus,
+  type PersonPublication,
+} from '../data/publications.js';
+
+/**
+ * Statuses from most to least open, used to pick the best status across versions of a work
+ */
+export const OPEN_ACCESS_STATUSES = Object.keys(OPEN_ACCESS_STATUS_LABELS) as OpenAccessStatus[];
+
+// Labels for OpenAlex licence IDs that are not Creative Commons licences
+const LICENCE_LABELS: Record<string, string> = {
+  'public-domain': 'Public domain',
+  'other-oa': 'Other open licence',
+  'publisher-specific-oa': 'Publisher open licence',
+  'implied-oa': 'Implied open access',
+  mit: 'MIT',
+  'apache-2-0': 'Apache 2.0',
+  'gpl-v3': 'GPL-3.0',
+};
+
+/**
+ * Open-access fields of an OpenAlex work
+ */
+export interface OpenAlexOpenAccessFields {
+  open_access?: { oa_status?: string | null };
+  best_oa_location?: { license?: string | null } | null;
+  primary_location?: { license?: string | null } | null;
+}
+
+/**
+ * Publications counted by open-access status
+ */
+export interface OpenAccessSummary {
+  total: number;
+  byStatus: Record<OpenAccessStatus, number>;
+  unknown: number; // no recorded status
+  openAccess: number; // any status but closed
+  openLicence: number; // open access under a Creative Commons or public domain licence
+}
+
+/**
+ * Reads the open-access status and licence of an OpenAlex work
+ * @param work - OpenAlex work (only the open-access fields are read)
+ * @returns The fields to store on the publication (empty if OpenAlex has neither)
+ */
+export function fromOpenAlexOpenAccess(
+  work: OpenAlexOpenAccessFields
+): Pick<PersonPublication, 'openAccessStatus' | 'licence'> {
+  const status = work.open_access?.oa_status?.toLowerCase();
+  const licence = work.best_oa_location?.license ?? work.primary_location?.license ?? undefined;
+  return {
+    ...(status && Object.hasOwn(OPEN_ACCESS_STATUS_LABELS, status)
+      ? { openAccessStatus: status as OpenAccessStatus }
+      : {}),
+    ...(licence ? { licence } : {}),
+  };
+}
+
+/**
+ * Checks whether a status is open access (anything but closed)
+ */
+export function isOpenAccessStatus(status: OpenAccessStatus): boolean {
+  return status !== 'closed';
+}
+
+/**
+ * Gets the most open status recorded for any version of a work (e.g. a closed article with a
+ * green preprint is green)
+ * @returns The status, or undefined if no version has one
+ */
+export function getBestOpenAccessStatus(
+  versions: PersonPublication[]
+): OpenAccessStatus | undefined {
+  return OPEN_ACCESS_STATUSES.find((status) =>
+    versions.some((version) => version.openAccessStatus === status)
+  );
+}
+
+/**
+ * Checks whether a licence is a Creative Commons or public domain licence
+ */
+export function isOpenLicence(licence: string | undefined): boolean {
+  return Boolean(licence && (/^cc[-0]/i.test(licence) || licence === 'public-domain'));
+}
+
+/**
+ * Formats an OpenAlex licence ID for display, e.g. "cc-by-nc" as "CC BY-NC"
+ */
+export function formatLicence(licence: string): string {
+  const creativeCommons = licence.match(/^cc-(.+)$/i);
+  if (creativeCommons) return `CC ${creativeCommons[1].toUpperCase()}`;
+  if (/^cc0$/i.test(licence)) return 'CC0';
+  return LICENCE_LABELS[licence.toLowerCase()] ?? licence;
+}
+
+/**
+ * Counts works by open-access status
+ * @param works - Versions of each work (see groupPreprintVersions); each work counts once,
+ *   under its most open status
+ */
+export function summarizeOpenAccess(works: PersonPublication[][]): OpenAccessSummary {
+  const summary: OpenAccessSummary = {
+    total: works.length,
+    byStatus: Object.fromEntries(OPEN_ACCESS_STATUSES.map((status) => [status, 0])) as Record<
+      OpenAccessStatus,
+      number
+    >,
+    unknown: 0,
+    openAccess: 0,
+    openLicence: 0,
+  };
+
+  for (const versions of works) {
+    const status = getBestOpenAccessStatus(versions);
+    if (!status) {
+      summary.unknown += 1;
+      continue;
+    }
+    summary.byStatus[status] += 1;
+    if (isOpenAccessStatus(status)) {
+      summary.openAccess += 1;
+      if (versions.some((version) => isOpenLicence(version.licence))) summary.openLicence += 1;
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,243 @@
+/**
+ * Programme-wide metrics for funder reporting
+ *
+ * Programme publications are the works research themes list (publicationIds and theme
+ * overrides), with preprints counted once together with their published version. A work is
+ * open access when its most open version has an open-access status (see openAccess.ts), or,
+ * for works with no recorded status, when any version has an open-access URL. It is
+ * cross-theme when more than one theme lists it. The Unassigned Publications list is not a
+ * theme, so works only it lists are programme publications with no theme.
+ *
+ * Publications only record a year, so each is counted in the reporting period that ends in
+ * its publication year (a 2024 paper counts towards 2023–2024).
+ */
+
+import type { Person } from '../data/people.js';
+import type { PersonPublication } from '../data/publications.js';
+import type { AnnualReport, ForwardPlan } from '../data/reports.js';
+import type { ResearchProject } from '../data/researchProjects.js';
+import { getBestOpenAccessStatus, isOpenAccessStatus } from './openAccess.js';
+import { groupPreprintVersions } from './publicationMerge.js';
+import type { PublicationStore } from './publicationStore.js';
+
+// Project that collects programme publications not yet assigned to a theme
+const UNASSIGNED_PROJECT_SLUG = 'unassigned-publications';
+
+/**
+ * A reporting period: an annual report's years, or the current forward plan's
+ */
+export interface ReportingPeriod {
+  slug: string; // e.g. "2023-2024"
+  label: string; // e.g. "2023–2024"
+  fromYear: number;
+  toYear: number;
+  isCurrent: boolean; // the forward plan period, not yet reported on
+}
+
+/**
+ * A programme publication with every theme that lists any of its versions
+ */
+export interface ProgrammePublication {
+  publication: PersonPublication; // the published version where there is one
+  themeSlugs: string[]; // empty for unassigned publications
+  isOpenAccess: boolean;
+}
+
+/**
+ * Publication counts for a year, period or theme
+ */
+export interface PublicationCounts {
+  total: number;
+  openAccess: number;
+  crossTheme: number; // listed by more than one theme
+}
+
+/**
+ * Number of publications two themes share
+ */
+export interface ThemePairCount {
+  themes: [ResearchProject, ResearchProject];
+  count: number;
+}
+
+/**
+ * People directory entries at one institution
+ */
+export interface InstitutionPeople {
+  institution: string;
+  people: Person[];
+}
+
+/**
+ * Gets the reporting periods, oldest first
+ * @param reports - Annual reports
+ * @param forwardPlan - Current forward plan (added as the current period)
+ * @returns One period per report, plus the forward plan's unless a report covers it
+ */
+export function getReportingPeriods(
+  reports: AnnualReport[],
+  forwardPlan?: ForwardPlan
+): ReportingPeriod[] {
+  const periods: ReportingPeriod[] = reports.map((report) => ({
+    slug: report.slug,
+    label: `${report.fromYear}–${report.toYear}`,
+    fromYear: report.fromYear,
+    toYear: report.toYear,
+    isCurrent: false,
+  }));
+  if (forwardPlan && !periods.some((period) => period.toYear === forwardPlan.toYear)) {
+    periods.push({
+      slug: forwardPlan.slug,
+      label: `${forwardPlan.fromYear}–${forwardPlan.toYear}`,
+      fromYear: forwardPlan.fromYear,
+      toYear: forwardPlan.toYear,
+      isCurrent: true,
+    });
+  }
+  return periods.sort((a, b) => a.toYear - b.toYear);
+}
+
+/**
+ * Gets the reporting period a publication year counts towards
+ * @returns The period ending in that year, or undefined
+ */
+export function getReportingPeriodForYear(
+  year: number | undefined,
+  periods: ReportingPeriod[]
+): ReportingPeriod | undefined {
+  return year === undefined ? undefined : periods.find((period) => period.toYear === year);
+}
+
+/**
+ * Gets the programme's publications from the publication store
+ * @param store - The publication store
+ * @returns One entry per work (preprints merged into their published version)
+ */
+export function getProgrammePublications(store: PublicationStore): ProgrammePublication[] {
+  return groupPreprintVersions(store.getThemed()).map(({ publication, preprints }) => {
+    const versions = [publication, ...preprints];
+    const status = getBestOpenAccessStatus(versions);
+    return {
+      publication,
+      themeSlugs: Array.from(
+        new Set(versions.flatMap((version) => store.getThemeSlugs(version)))
+      ).filter((slug) => slug !== UNASSIGNED_PROJECT_SLUG),
+      isOpenAccess: status
+        ? isOpenAccessStatus(status)
+        : versions.some((version) => Boolean(version.openAccessUrl)),
+    };
+  });
+}
+
+/**
+ * Counts publications, open-access publications and cross-theme publications
+ */
+export function countPublications(publications: ProgrammePublication[]): PublicationCounts {
+  return {
+    total: publications.length,
+    openAccess: publications.filter((entry) => entry.isOpenAccess).length,
+    crossTheme: publications.filter((entry) => entry.themeSlugs.length > 1).length,
+  };
+}
+
+/**
+ * Counts publications per year
+ * @returns Every year from the earliest to the latest publication (including empty years)
+ */
+export function getPublicationsByYear(
+  publications: ProgrammePublication[]
+): { year: number; counts: PublicationCounts }[] {
+  const years = publications
+    .map((entry) => entry.publication.year)
+    .filter((year): year is number => year !== undefined);
+  if (years.length === 0) return [];
+
+  const result: { year: number; counts: PublicationCounts }[] = [];
+  for (let year = Math.min(...years); year <= Math.max(...years); year++) {
+    result.push({
+      year,
+      counts: countPublications(publications.filter((entry) => entry.publication.year === year)),
+    });
+  }
+  return result;
+}
+
+/**
+ * Counts publications per reporting period
+ */
+export function getPublicationsByPeriod(
+  publications: ProgrammePublication[],
+  periods: ReportingPeriod[]
+): { period: ReportingPeriod; counts: PublicationCounts }[] {
+  return periods.map((period) => ({
+    period,
+    counts: countPublications(
+      publications.filter(
+        (entry) => getReportingPeriodForYear(entry.publication.year, periods) === period
+      )
+    ),
+  }));
+}
+
+/**
+ * Gets the projects that are research themes (all but the Unassigned Publications list)
+ */
+export function getThemeProjects(projects: ResearchProject[]): ResearchProject[] {
+  return projects.filter((project) => project.slug !== UNASSIGNED_PROJECT_SLUG);
+}
+
+/**
+ * Counts publications per research theme
+ * @param publications - Programme publications
+ * @param projects - Research themes (see getThemeProjects)
+ * @returns One entry per theme, in project order
+ */
+export function getPublicationsByTheme(
+  publications: ProgrammePublication[],
+  projects: ResearchProject[]
+): { project: ResearchProject; counts: PublicationCounts }[] {
+  return projects.map((project) => ({
+    project,
+    counts: countPublications(
+      publications.filter((entry) => entry.themeSlugs.includes(project.slug))
+    ),
+  }));
+}
+
+/**
+ * Counts the publications each pair of themes shares
+ * @returns Pairs with at least one shared publication, most shared first
+ */
+export function getThemePairCounts(
+  publications: ProgrammePublication[],
+  projects: ResearchProject[]
+): ThemePairCount[] {
+  const pairs: ThemePairCount[] = [];
+  projects.forEach((first, index) => {
+    for (const second of projects.slice(index + 1)) {
+      const count = publications.filter(
+        (entry) => entry.themeSlugs.includes(first.slug) && entry.themeSlugs.includes(second.slug)
+      ).length;
+      if (count > 0) pairs.push({ themes: [first, second], count });
+    }
+  });
+  return pairs.sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Groups people by affiliation
+ * @returns Institutions with the most people first (people without one under "Unknown")
+ */
+export function getPeopleByInstitution(people: Person[]): InstitutionPeople[] {
+  const byInstitution = new Map<string, Person[]>();
+  for (const person of people) {
+    const institution = person.affiliation?.trim() || 'Unknown';
+    byInstitution.set(institution, [...(byInstitution.get(institution) ?? []), person]);
+  }
+  return Array.from(byInstitution, ([institution, members]) => ({
+    institution,
+    people: members,
+  })).sort(
+    (a, b) => b.people.length - a.people.length || a.institution.localeCompare(b.institution)
+  );
+}
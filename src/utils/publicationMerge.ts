@@ -0,0 +1,248 @@
+/**
+ * Merges publication records for a person from OpenAlex, ORCID and the curated DOI files.
+ *
+ * Records describing the same work are matched by DOI, OpenAlex work ID or normalised title
+ * (a preprint is not matched to its published version by title; see groupPreprintVersions).
+ * Each field of a merged work is taken from the highest-precedence record that has it, and
+ * the source of every field is kept so pages can show where the data came from.
+ * Kept free of `import.meta.glob` so build scripts can share it with the site.
+ */
+
+import type { Person } from '../data/people.js';
+import type { PersonPublication, PublicationOrigin } from '../data/publications.js';
+import { getPublicationAuthors } from './authorMatching.js';
+import { canonicalizeDoi } from './doi.js';
+import { isPreprint } from './publicationTypes.js';
+
+/**
+ * Publication fields that are merged across sources
+ */
+export type MergedPublicationField =
+  | 'title'
+  | 'year'
+  | 'venue'
+  | 'doi'
+  | 'openAccessUrl'
+  | 'openAccessStatus'
+  | 'licence'
+  | 'authors'
+  | 'type'
+  | 'citations';
+
+const MERGED_FIELDS: MergedPublicationField[] = [
+  'title',
+  'year',
+  'venue',
+  'doi',
+  'openAccessUrl',
+  'openAccessStatus',
+  'licence',
+  'authors',
+  'type',
+  'citations',
+];
+
+/**
+ * Where a merged publication's data came from
+ */
+export interface PublicationProvenance {
+  sources: PublicationOrigin[]; // every source with a record of the work, in precedence order
+  fieldSources: Partial<Record<MergedPublicationField, PublicationOrigin>>; // source of each field value
+}
+
+/**
+ * A publication merged from one or more source records
+ */
+export interface MergedPublication extends PersonPublication, PublicationProvenance {}
+
+/**
+ * Records from a single source
+ */
+export interface PublicationRecordSet {
+  origin: PublicationOrigin;
+  works: PersonPublication[];
+}
+
+/**
+ * A published work together with preprint versions of it
+ */
+export interface PublicationVersionGroup<T extends PersonPublication = PersonPublication> {
+  publication: T; // the published version, or a preprint with no published version
+  preprints: T[]; // preprints with the same title
+}
+
+/**
+ * Titles shorter than this are too generic ("Editorial", "Reply") to match on alone
+ */
+const MIN_TITLE_KEY_LENGTH = 20;
+
+/**
+ * Normalises a title for comparison (lowercase, no accents or punctuation)
+ */
+function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Gets the normalised title used for matching, if the title is distinctive enough
+ */
+function getTitleKey(work: PersonPublication): string | undefined {
+  const title = work.title ? normalizeTitle(work.title) : '';
+  return title.length >= MIN_TITLE_KEY_LENGTH ? title : undefined;
+}
+
+/**
+ * Gets the keys a record can be matched on
+ */
+function getMatchKeys(work: PersonPublication): string[] {
+  const keys: string[] = [];
+  if (work.id?.startsWith('https://openalex.org/')) keys.push(`openalex:${work.id}`);
+  if (work.doi) keys.push(`doi:${canonicalizeDoi(work.doi)}`);
+  const title = getTitleKey(work);
+  if (title) keys.push(`title:${isPreprint(work) ? 'preprint' : 'published'}:${title}`);
+  return keys;
+}
+
+/**
+ * Checks whether a field has a usable value
+ */
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '';
+}
+
+/**
+ * Merges records from several sources into deduplicated works
+ * Record sets are given in precedence order: earlier sets win field conflicts.
+ * @param recordSets - Records grouped by source
+ * @returns Merged publications, newest first
+ */
+export function mergePublicationRecords(recordSets: PublicationRecordSet[]): MergedPublication[] {
+  const groups: { records: { origin: PublicationOrigin; work: PersonPublication }[] }[] = [];
+  const groupByKey = new Map<string, number>();
+
+  for (const { origin, works } of recordSets) {
+    for (const work of works) {
+      const keys = getMatchKeys(work);
+      const existing = keys.map((key) => groupByKey.get(key)).find((index) => index !== undefined);
+
+      const groupIndex = existing ?? groups.push({ records: [] }) - 1;
+      groups[groupIndex].records.push({ origin, work });
+      for (const key of keys) {
+        if (!groupByKey.has(key)) groupByKey.set(key, groupIndex);
+      }
+    }
+  }
+
+  const merged = groups.map(({ records }) => {
+    const [first] = records;
+    // Prefer an OpenAlex work ID, since project publicationIds and lookups use them
+    const id =
+      records.find(({ work }) => work.id?.startsWith('https://openalex.org/'))?.work.id ??
+      first.work.id;
+
+    const publication: MergedPublication = {
+      id,
+      title: first.work.title,
+      sources: Array.from(new Set(records.map(({ origin }) => origin))),
+      fieldSources: {},
+    };
+
+    for (const field of MERGED_FIELDS) {
+      const source = records.find(({ work }) => hasValue(work[field]));
+      if (source) {
+        Object.assign(publication, { [field]: source.work[field] });
+        publication.fieldSources[field] = source.origin;
+      }
+    }
+
+    return publication;
+  });
+
+  return merged.sort((a, b) => {
+    if (a.year !== b.year) {
+      if (!a.year) return 1;
+      if (!b.year) return -1;
+      return b.year - a.year;
+    }
+    return a.title.localeCompare(b.title);
+  });
+}
+
+/**
+ * Merges all known records of a person's publications
+ * The person's preferred source (Person.publicationSource, default OpenAlex) takes precedence,
+ * then the other snapshot, then curated DOI records that list the person as an author.
+ * @param person - The person
+ * @param sources - The person's OpenAlex and ORCID snapshot works, and all DOI records
+ * @returns Merged publications, newest first
+ */
+export function mergePublicationsForPerson(
+  person: Person,
+  sources: {
+    openAlexWorks: PersonPublication[];
+    orcidWorks: PersonPublication[];
+    doiPublications: PersonPublication[];
+  }
+): MergedPublication[] {
+  const snapshotSets: PublicationRecordSet[] = [
+    { origin: 'openalex', works: sources.openAlexWorks },
+    { origin: 'orcid', works: sources.orcidWorks },
+  ];
+  if (person.publicationSource === 'orcid') {
+    snapshotSets.reverse();
+  }
+
+  const doiWorks = sources.doiPublications.filter((publication) =>
+    getPublicationAuthors(publication).some((author) => author.slug === person.slug)
+  );
+
+  return mergePublicationRecords([...snapshotSets, { origin: 'doi', works: doiWorks }]);
+}
+
+/**
+ * Groups preprints with the published version of the same work (matched by title)
+ * Groups keep the order of their published version; preprints with no published version
+ * stay where they are as groups of their own.
+ * @param publications - Publications in display order
+ * @returns One group per published work or unmatched preprint
+ */
+export function groupPreprintVersions<T extends PersonPublication>(
+  publications: T[]
+): PublicationVersionGroup<T>[] {
+  const publishedByTitle = new Map<string, T>();
+  for (const publication of publications) {
+    const title = getTitleKey(publication);
+    if (title && !isPreprint(publication) && !publishedByTitle.has(title)) {
+      publishedByTitle.set(title, publication);
+    }
+  }
+
+  const groups: PublicationVersionGroup<T>[] = [];
+  const groupByPublication = new Map<T, PublicationVersionGroup<T>>();
+  const getGroup = (publication: T): PublicationVersionGroup<T> => {
+    let group = groupByPublication.get(publication);
+    if (!group) {
+      group = { publication, preprints: [] };
+      groupByPublication.set(publication, group);
+    }
+    return group;
+  };
+
+  for (const publication of publications) {
+    const title = getTitleKey(publication);
+    const published = title && isPreprint(publication) ? publishedByTitle.get(title) : undefined;
+    if (published) {
+      getGroup(published).preprints.push(publication);
+    } else {
+      groups.push(getGroup(publication));
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,260 @@
+/**
+ * Publication store: the single place publication records are indexed and queried.
+ *
+ * Pages get a store from getPublicationStore() (utils/publications.ts), which loads the JSON
+ * with `import.meta.glob`; build scripts use loadPublicationStore() (scripts/publication_store.ts),
+ * which reads the same files from disk. This module only indexes data it is given, so it is
+ * kept free of both.
+ *
+ * Precedence: OpenAlex records win over ORCID records, which win over the curated DOI files.
+ * DOIs are matched in canonical form, so any DOI format finds the same record.
+ * Manual overrides (data/publicationOverrides.ts) are applied to the records before indexing.
+ */
+
+import type { Person } from '../data/people.js';
+import { publicationOverrides, type PublicationOverride } from '../data/publicationOverrides.js';
+import type {
+  PersonPublication,
+  PersonPublicationsSnapshot,
+  PublicationOrigin,
+} from '../data/publications.js';
+import { researchProjects, type ResearchProject } from '../data/researchProjects.js';
+import { canonicalizeDoi, isDoiReference } from './doi.js';
+import { mergePublicationsForPerson, type MergedPublication } from './publicationMerge.js';
+
+/**
+ * Raw publication data as stored in src/data/publications
+ */
+export interface PublicationData {
+  openAlexSnapshots: PersonPublicationsSnapshot[]; // openalex/<slug>.json
+  orcidSnapshots: PersonPublicationsSnapshot[]; // orcid/<slug>.json
+  doiPublications: PersonPublication[]; // doi/*.json, one publication per file
+}
+
+/**
+ * Inclusive year range (either end may be left open)
+ */
+export interface YearRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Typed queries over all loaded publications
+ */
+export interface PublicationStore {
+  /** Gets a publication by work ID (OpenAlex, ORCID or custom) or DOI in any format */
+  get(idOrDoi: string): PersonPublication | undefined;
+  /** Gets a publication by DOI in any format */
+  getByDoi(doi: string): PersonPublication | undefined;
+  /** Gets publications for a list of IDs/DOIs, skipping unknown and duplicate entries */
+  getMany(idsOrDois: string[]): PersonPublication[];
+  /** Gets every distinct publication record */
+  getAll(): PersonPublication[];
+  /** Gets distinct publications published within a year range */
+  getByYear(range: YearRange): PersonPublication[];
+  /** Gets a person's publications, merged across sources */
+  getForPerson(person: Person): MergedPublication[];
+  /** Gets the publications listed by a research theme (project) */
+  getForTheme(themeSlug: string): PersonPublication[];
+  /** Gets every publication listed by any research theme, in theme order */
+  getThemed(): PersonPublication[];
+  /** Gets the slugs of the research themes that list a publication */
+  getThemeSlugs(publication: PersonPublication): string[];
+  /** Gets the sources that hold a record of a publication */
+  getOrigins(publication: PersonPublication): PublicationOrigin[];
+}
+
+/**
+ * Gets the lookup key for a DOI
+ */
+function doiKey(doi: string): string {
+  return `doi:${canonicalizeDoi(doi)}`;
+}
+
+/**
+ * Gets the lookup keys a publication is indexed under
+ */
+function getKeys(publication: PersonPublication): string[] {
+  const keys: string[] = [];
+  if (publication.id) keys.push(publication.id);
+  if (publication.doi) keys.push(doiKey(publication.doi));
+  return keys;
+}
+
+/**
+ * Gets the lookup key an override or project publicationId refers to
+ */
+function referenceKey(idOrDoi: string): string {
+  return isDoiReference(idOrDoi) ? doiKey(idOrDoi) : idOrDoi.trim();
+}
+
+/**
+ * Applies manual overrides to every record they match (by ID or DOI)
+ * Hidden records are dropped; patches are applied in the order the overrides are listed.
+ * @param data - The publication records as loaded
+ * @param overrides - The overrides to apply
+ * @returns The corrected records
+ */
+export function applyPublicationOverrides(
+  data: PublicationData,
+  overrides: PublicationOverride[]
+): PublicationData {
+  if (overrides.length === 0) return data;
+
+  const overrideKeys = overrides.map((override) => referenceKey(override.id));
+
+  const applyTo = (records: PersonPublication[]): PersonPublication[] =>
+    records.flatMap((record) => {
+      const keys = getKeys(record);
+      const matching = overrides.filter((_, index) => keys.includes(overrideKeys[index]));
+      if (matching.length === 0) return [record];
+      if (matching.some((override) => override.hide)) return [];
+      return [Object.assign({}, record, ...matching.map((override) => override.patch ?? {}))];
+    });
+
+  const applyToSnapshots = (snapshots: PersonPublicationsSnapshot[]) =>
+    snapshots.map((snapshot) => ({ ...snapshot, works: applyTo(snapshot.works ?? []) }));
+
+  return {
+    openAlexSnapshots: applyToSnapshots(data.openAlexSnapshots),
+    orcidSnapshots: applyToSnapshots(data.orcidSnapshots),
+    doiPublications: applyTo(data.doiPublications),
+  };
+}
+
+/**
+ * Creates a publication store over loaded publication data
+ * @param sourceData - The publication records
+ * @param projects - Research projects whose publicationIds define theme membership
+ * @param overrides - Manual corrections applied to the records
+ * @returns The store
+ */
+export function createPublicationStore(
+  sourceData: PublicationData,
+  projects: ResearchProject[] = researchProjects,
+  overrides: PublicationOverride[] = publicationOverrides
+): PublicationStore {
+  const data = applyPublicationOverrides(sourceData, overrides);
+
+  const recordsByOrigin: [PublicationOrigin, PersonPublication[]][] = [
+    ['openalex', data.openAlexSnapshots.flatMap((snapshot) => snapshot.works ?? [])],
+    ['orcid', data.orcidSnapshots.flatMap((snapshot) => snapshot.works ?? [])],
+    ['doi', data.doiPublications],
+  ];
+
+  // Index every record under its ID and canonical DOI; the first record for a key wins
+  const byKey = new Map<string, PersonPublication>();
+  const distinct: PersonPublication[] = [];
+  const originKeys = new Map<PublicationOrigin, Set<string>>();
+
+  for (const [origin, records] of recordsByOrigin) {
+    const keysForOrigin = new Set<string>();
+    for (const record of records) {
+      const keys = getKeys(record);
+      if (keys.length === 0) continue;
+
+      if (keys.every((key) => !byKey.has(key))) {
+        distinct.push(record);
+      }
+      for (const key of keys) {
+        if (!byKey.has(key)) byKey.set(key, record);
+        keysForOrigin.add(key);
+      }
+    }
+    originKeys.set(origin, keysForOrigin);
+  }
+
+  const getByDoi = (doi: string): PersonPublication | undefined => byKey.get(doiKey(doi));
+
+  const get = (idOrDoi: string): PersonPublication | undefined =>
+    byKey.get(idOrDoi.trim()) ?? (isDoiReference(idOrDoi) ? getByDoi(idOrDoi) : undefined);
+
+  const getMany = (idsOrDois: string[]): PersonPublication[] => {
+    const publications = new Set<PersonPublication>();
+    for (const idOrDoi of idsOrDois) {
+      const publication = get(idOrDoi);
+      if (publication) publications.add(publication);
+    }
+    return Array.from(publications);
+  };
+
+  // Theme membership, resolved once: project publicationIds, then overrides' themeSlugs
+  const themeSlugsByPublication = new Map<PersonPublication, string[]>();
+  const publicationsByTheme = new Map<string, PersonPublication[]>();
+  const addToTheme = (themeSlug: string, publication: PersonPublication): void => {
+    const publications = publicationsByTheme.get(themeSlug);
+    if (!publications) return;
+    if (!publications.includes(publication)) publications.push(publication);
+    const slugs = themeSlugsByPublication.get(publication) ?? [];
+    if (!slugs.includes(themeSlug)) slugs.push(themeSlug);
+    themeSlugsByPublication.set(publication, slugs);
+  };
+
+  for (const project of projects) {
+    publicationsByTheme.set(project.slug, []);
+    getMany(project.publicationIds ?? []).forEach((publication) =>
+      addToTheme(project.slug, publication)
+    );
+  }
+  for (const override of overrides) {
+    const publication = get(override.id);
+    if (!publication) continue;
+    (override.themeSlugs ?? []).forEach((themeSlug) => addToTheme(themeSlug, publication));
+  }
+
+  const snapshotWorksBySlug = (snapshots: PersonPublicationsSnapshot[]) =>
+    new Map(snapshots.map((snapshot) => [snapshot.slug, snapshot.works ?? []]));
+  const openAlexWorksBySlug = snapshotWorksBySlug(data.openAlexSnapshots);
+  const orcidWorksBySlug = snapshotWorksBySlug(data.orcidSnapshots);
+  const mergedBySlug = new Map<string, MergedPublication[]>();
+
+  return {
+    get,
+    getByDoi,
+    getMany,
+
+    getAll: () => distinct.slice(),
+
+    getByYear: ({ min, max }) =>
+      distinct.filter(
+        (publication) =>
+          typeof publication.year === 'number' &&
+          (min === undefined || publication.year >= min) &&
+          (max === undefined || publication.year <= max)
+      ),
+
+    getForPerson: (person) => {
+      let merged = mergedBySlug.get(person.slug);
+      if (!merged) {
+        merged = mergePublicationsForPerson(person, {
+          openAlexWorks: openAlexWorksBySlug.get(person.slug) ?? [],
+          orcidWorks: orcidWorksBySlug.get(person.slug) ?? [],
+          doiPublications: data.doiPublications,
+        });
+        mergedBySlug.set(person.slug, merged);
+      }
+      return merged;
+    },
+
+    getForTheme: (themeSlug) => publicationsByTheme.get(themeSlug)?.slice() ?? [],
+
+    getThemed: () => Array.from(themeSlugsByPublication.keys()),
+
+    getThemeSlugs: (publication) => {
+      const record = themeSlugsByPublication.has(publication)
+        ? publication
+        : getKeys(publication)
+            .map((key) => byKey.get(key))
+            .find((candidate) => candidate && themeSlugsByPublication.has(candidate));
+      return record ? (themeSlugsByPublication.get(record) ?? []).slice() : [];
+    },
+
+    getOrigins: (publication) => {
+      const keys = getKeys(publication);
+      return recordsByOrigin
+        .map(([origin]) => origin)
+        .filter((origin) => keys.some((key) => originKeys.get(origin)?.has(key)));
+    },
+  };
+}
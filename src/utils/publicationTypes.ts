@@ -0,0 +1,209 @@
+/**
+ * Publication type classification.
+ *
+ * The harvest scripts map each source's own work types onto PublicationType (the
+ * from*Type functions below) and store the result as `type`. Records harvested before
+ * types were stored, and hand-written DOI files without one, are classified by
+ * getPublicationType from their DOI prefix and venue until they are next harvested.
+ */
+
+import type { PersonPublication, PublicationType } from '../data/publications.js';
+import { canonicalizeDoi } from './doi.js';
+
+// DOI prefixes of preprint servers (bioRxiv/medRxiv DOIs are checked separately)
+const PREPRINT_DOI_PREFIXES = [
+  '10.48550/', // arXiv
+  '10.21203/', // Research Square
+  '10.20944/', // Preprints.org
+  '10.2139/', // SSRN
+  '10.31219/', // OSF Preprints
+  '10.31234/', // PsyArXiv
+  '10.31235/', // SocArXiv
+  '10.36227/', // TechRxiv
+  '10.26434/', // ChemRxiv
+  '10.22541/', // Authorea
+];
+
+// DOI prefixes of data repositories
+const DATASET_DOI_PREFIXES = [
+  '10.6084/', // figshare
+  '10.5061/', // Dryad
+];
+
+const PREPRINT_VENUE_PATTERN =
+  /\b(arxiv|biorxiv|medrxiv|research square|preprints?|ssrn|psyarxiv|socarxiv|techrxiv|chemrxiv|authorea)\b/i;
+const CONFERENCE_VENUE_PATTERN =
+  /\b(proceedings|conference|symposium|workshop|lecture notes in (computer science|artificial intelligence|bioinformatics))\b/i;
+// Journals whose names look like conference proceedings
+const JOURNAL_PROCEEDINGS_PATTERN =
+  /^proceedings of the (national academy|royal society|acm on|vldb endowment)/i;
+const BOOK_VENUE_PATTERN = /\be?books?\b/i;
+const THESIS_VENUE_PATTERN = /\b(thesis|dissertation)\b/i;
+const DATASET_VENUE_PATTERN = /\b(figshare|dryad)\b/i;
+
+/**
+ * Maps a Crossref work type (also given by OpenAlex as `type_crossref`)
+ * @param type - e.g. "journal-article", "proceedings-article", "posted-content"
+ * @returns The publication type, or undefined if the Crossref type is not specific enough
+ */
+export function fromCrossrefType(type: string | undefined): PublicationType | undefined {
+  switch (type?.toLowerCase()) {
+    case 'journal-article':
+      return 'journal-article';
+    case 'proceedings-article':
+      return 'conference-paper';
+    case 'posted-content':
+      return 'preprint';
+    case 'book-chapter':
+    case 'book-section':
+    case 'book-part':
+    case 'reference-entry':
+      return 'book-chapter';
+    case 'book':
+    case 'monograph':
+    case 'edited-book':
+    case 'reference-book':
+      return 'book';
+    case 'dissertation':
+      return 'thesis';
+    case 'dataset':
+    case 'database':
+      return 'dataset';
+    case 'report':
+    case 'report-component':
+      return 'report';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Maps an OpenAlex work's type
+ * @param type - OpenAlex `type`, e.g. "article", "preprint", "dissertation"
+ * @param crossrefType - OpenAlex `type_crossref`, preferred when it is specific
+ * @param sourceType - Type of the primary location's source, e.g. "journal", "conference", "repository"
+ * @returns The publication type
+ */
+export function fromOpenAlexType(
+  type: string | undefined,
+  crossrefType?: string,
+  sourceType?: string
+): PublicationType {
+  const fromCrossref = fromCrossrefType(crossrefType);
+  if (fromCrossref) return fromCrossref;
+
+  switch (type?.toLowerCase()) {
+    case 'article':
+      if (sourceType === 'conference') return 'conference-paper';
+      if (sourceType === 'repository') return 'preprint';
+      return 'journal-article';
+    case 'review':
+    case 'letter':
+    case 'editorial':
+      return 'journal-article';
+    case 'preprint':
+      return 'preprint';
+    case 'book-chapter':
+    case 'reference-entry':
+      return 'book-chapter';
+    case 'book':
+      return 'book';
+    case 'dissertation':
+      return 'thesis';
+    case 'dataset':
+    case 'supplementary-materials':
+      return 'dataset';
+    case 'software':
+      return 'software';
+    case 'report':
+    case 'standard':
+      return 'report';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Maps an ORCID work type
+ * @param type - ORCID work-summary `type`, e.g. "journal-article", "data-set"
+ * @returns The publication type
+ */
+export function fromOrcidType(type: string | undefined): PublicationType {
+  switch (type?.toLowerCase()) {
+    case 'journal-article':
+    case 'review':
+    case 'magazine-article':
+      return 'journal-article';
+    case 'conference-paper':
+    case 'conference-abstract':
+    case 'conference-poster':
+    case 'conference-output':
+      return 'conference-paper';
+    case 'preprint':
+    case 'working-paper':
+      return 'preprint';
+    case 'book':
+    case 'edited-book':
+      return 'book';
+    case 'book-chapter':
+    case 'encyclopedia-entry':
+      return 'book-chapter';
+    case 'dissertation':
+    case 'dissertation-thesis':
+    case 'supervised-student-publication':
+      return 'thesis';
+    case 'data-set':
+    case 'data-management-plan':
+      return 'dataset';
+    case 'software':
+      return 'software';
+    case 'report':
+    case 'technical-standard':
+      return 'report';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Classifies a publication that has no stored type from its DOI and venue
+ */
+function inferPublicationType(publication: PersonPublication): PublicationType {
+  const doi = publication.doi ? canonicalizeDoi(publication.doi) : '';
+  const venue = publication.venue ?? '';
+
+  // bioRxiv/medRxiv DOIs are numeric (10.1101/2021.01.01.123456); CSHL journals share the prefix
+  if (
+    PREPRINT_DOI_PREFIXES.some((prefix) => doi.startsWith(prefix)) ||
+    /^10\.1101\/\d/.test(doi) ||
+    PREPRINT_VENUE_PATTERN.test(venue)
+  ) {
+    return 'preprint';
+  }
+  if (DATASET_DOI_PREFIXES.some((prefix) => doi.startsWith(prefix))) return 'dataset';
+  if (DATASET_VENUE_PATTERN.test(venue)) return 'dataset';
+  if (THESIS_VENUE_PATTERN.test(venue)) return 'thesis';
+  if (CONFERENCE_VENUE_PATTERN.test(venue) && !JOURNAL_PROCEEDINGS_PATTERN.test(venue)) {
+    return 'conference-paper';
+  }
+  if (BOOK_VENUE_PATTERN.test(venue)) return 'book-chapter';
+  return venue ? 'journal-article' : 'other';
+}
+
+/**
+ * Gets a publication's type: the stored type, or a best guess for untyped records
+ * @param publication - The publication
+ * @returns The publication type
+ */
+export function getPublicationType(publication: PersonPublication): PublicationType {
+  return publication.type ?? inferPublicationType(publication);
+}
+
+/**
+ * Checks whether a publication is a preprint
+ * @param publication - The publication
+ * @returns True for preprints
+ */
+export function isPreprint(publication: PersonPublication): boolean {
+  return getPublicationType(publication) === 'preprint';
+}
@@ -1,105 +1,60 @@
-import type { PersonPublication } from '../data/publications';
+import type {
+  PersonPublication,
+  PersonPublicationsSnapshot,
+  PublicationType,
+} from '../data/publications';
 import { allPeople } from '../data/people';
 import { renderPublicationCard } from '../components/publicationCard';
+import { renderCitationSummary } from '../components/citationSummary';
+import {
+  matchesPublicationTypes,
+  renderPublicationTypeFilter,
+} from '../components/publicationTypeFilter';
+import {
+  renderPublicationViewControls,
+  renderReferenceList,
+  type PublicationViewState,
+} from '../components/referenceList';
+import { getDoiUrl } from './doi';
+import { groupPreprintVersions } from './publicationMerge';
+import { createPublicationStore, type PublicationStore } from './publicationStore';
 
 export type { PersonPublication };
 
-// Load all publication snapshots to create a lookup by publication ID
+// The only place pages load publication JSON; everything else queries the store
 const openAlexSnapshots = import.meta.glob('../data/publications/openalex/*.json', {
   eager: true,
-}) as Record<string, { default: { works: PersonPublication[] } }>;
+}) as Record<string, { default: PersonPublicationsSnapshot }>;
 
 const orcidSnapshots = import.meta.glob('../data/publications/orcid/*.json', {
   eager: true,
-}) as Record<string, { default: { works: PersonPublication[] } }>;
+}) as Record<string, { default: PersonPublicationsSnapshot }>;
 
 // Load DOI-based publications (individual publication files)
 const doiPublications = import.meta.glob('../data/publications/doi/*.json', {
   eager: true,
 }) as Record<string, { default: PersonPublication }>;
 
+let publicationStore: PublicationStore | null = null;
+
 /**
- * Creates a lookup map of publications by their ID and DOI
- * @returns Map of publication ID/DOI to publication object
+ * Gets the publication store for the site's publication data (created on first use)
+ * @returns The shared publication store
  */
-export function createPublicationLookup(): Map<string, PersonPublication> {
-  const lookup = new Map<string, PersonPublication>();
-
-  // Process OpenAlex snapshots
-  for (const mod of Object.values(openAlexSnapshots)) {
-    const snapshot = mod.default;
-    if (snapshot?.works) {
-      for (const work of snapshot.works) {
-        if (work.id) {
-          lookup.set(work.id, work);
-        }
-        // Also index by DOI if available
-        if (work.doi) {
-          const doiUrl = work.doi.startsWith('http') ? work.doi : `https://doi.org/${work.doi}`;
-          if (!lookup.has(doiUrl)) {
-            lookup.set(doiUrl, work);
-          }
-          // Also index without https:// prefix
-          const cleanDoi = work.doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
-          const doiKey = `https://doi.org/${cleanDoi}`;
-          if (doiKey !== doiUrl && !lookup.has(doiKey)) {
-            lookup.set(doiKey, work);
-          }
-        }
-      }
-    }
-  }
-
-  // Process ORCID snapshots
-  for (const mod of Object.values(orcidSnapshots)) {
-    const snapshot = mod.default;
-    if (snapshot?.works) {
-      for (const work of snapshot.works) {
-        if (work.id) {
-          // Only add if not already in map (OpenAlex takes precedence)
-          if (!lookup.has(work.id)) {
-            lookup.set(work.id, work);
-          }
-        }
-        // Also index by DOI if available
-        if (work.doi) {
-          const doiUrl = work.doi.startsWith('http') ? work.doi : `https://doi.org/${work.doi}`;
-          if (!lookup.has(doiUrl)) {
-            lookup.set(doiUrl, work);
-          }
-        }
-      }
-    }
+export function getPublicationStore(): PublicationStore {
+  if (!publicationStore) {
+    const defaults = <T>(modules: Record<string, { default: T }>): T[] =>
+      Object.values(modules)
+        .map((mod) => mod.default)
+        .filter(Boolean);
+
+    publicationStore = createPublicationStore({
+      openAlexSnapshots: defaults(openAlexSnapshots),
+      orcidSnapshots: defaults(orcidSnapshots),
+      doiPublications: defaults(doiPublications),
+    });
   }
-
-  // Process DOI-based publications (standalone files)
-  for (const mod of Object.values(doiPublications)) {
-    const publication = mod.default;
-    if (publication) {
-      // Index by OpenAlex ID or custom ID
-      if (publication.id && !lookup.has(publication.id)) {
-        lookup.set(publication.id, publication);
-      }
-      // Index by DOI
-      if (publication.doi) {
-        const doiUrl = publication.doi.startsWith('http')
-          ? publication.doi
-          : `https://doi.org/${publication.doi}`;
-        if (!lookup.has(doiUrl)) {
-          lookup.set(doiUrl, publication);
-        }
-        // Also index http://dx.doi.org format
-        const dxDoiUrl = publication.doi.startsWith('http')
-          ? publication.doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, 'http://dx.doi.org/')
-          : `http://dx.doi.org/${publication.doi}`;
-        if (dxDoiUrl !== doiUrl && !lookup.has(dxDoiUrl)) {
-          lookup.set(dxDoiUrl, publication);
-        }
-      }
-    }
-  }
-
-  return lookup;
+  return publicationStore;
 }
 
 /**
@@ -108,17 +63,7 @@ export function createPublicationLookup(): Map<string, PersonPublication> {
  * @returns Array of publication objects
  */
 export function getPublicationsByIds(publicationIds: string[]): PersonPublication[] {
-  const lookup = createPublicationLookup();
-  const publications: PersonPublication[] = [];
-
-  for (const id of publicationIds) {
-    const pub = lookup.get(id);
-    if (pub) {
-      publications.push(pub);
-    }
-  }
-
-  return publications;
+  return getPublicationStore().getMany(publicationIds);
 }
 
 /**
@@ -128,10 +73,7 @@ export function getPublicationsByIds(publicationIds: string[]): PersonPublicatio
  */
 export function getPublicationUrl(work: PersonPublication): string {
   if (work.openAccessUrl) return work.openAccessUrl;
-  if (work.doi) {
-    const cleanDoi = work.doi.replace(/^doi:/i, '').trim();
-    return `https://doi.org/${cleanDoi}`;
-  }
+  if (work.doi) return getDoiUrl(work.doi);
   // Only use id as URL if it's a valid URL (starts with http:// or https://)
   if (work.id && (work.id.startsWith('http://') || work.id.startsWith('https://'))) {
     return work.id;
@@ -140,17 +82,22 @@ export function getPublicationUrl(work: PersonPublication): string {
 }
 
 /**
- * Renders the publications section
+ * Renders publications as cards, or as a formatted reference list
+ * Cards show preprints under their published version; the reference list lists every version.
  * @param publications - Array of publications
- * @returns HTML string for the publications section
+ * @param view - Optional view state (default: cards)
+ * @returns HTML string for the list
  */
-export function renderPublicationsSection(publications: PersonPublication[]): string {
-  if (!publications || publications.length === 0) {
-    return '';
+export function renderPublicationList(
+  publications: PersonPublication[],
+  view?: PublicationViewState
+): string {
+  if (view?.mode === 'references') {
+    return renderReferenceList(publications, view.style);
   }
 
-  const cardsHtml = publications
-    .map((work) =>
+  return groupPreprintVersions(publications)
+    .map(({ publication: work, preprints }) =>
       renderPublicationCard(work, {
         showAuthors: true,
         showAuthorPhotos: true,
@@ -158,15 +105,49 @@ export function renderPublicationsSection(publications: PersonPublication[]): st
         showYear: true,
         withMargin: true,
         allPeopleForMatching: allPeople,
+        preprints,
       })
     )
     .join('');
+}
+
+/**
+ * Renders the publications section
+ * When a view state is given, the section includes the cards / reference list toolbar
+ * (wire it up with attachPublicationViewControls and re-render #bp-publications-list).
+ * When selected types are given, it includes a type filter and lists only those types
+ * (wire it up with attachPublicationTypeFilter on #bp-publications-type-filter).
+ * @param publications - Array of publications
+ * @param view - Optional view state
+ * @param types - Optional selected publication types
+ * @returns HTML string for the publications section
+ */
+export function renderPublicationsSection(
+  publications: PersonPublication[],
+  view?: PublicationViewState,
+  types?: Set<PublicationType>
+): string {
+  if (!publications || publications.length === 0) {
+    return '';
+  }
+
+  const typeFilterHtml = types ? renderPublicationTypeFilter(publications, types) : '';
 
   return `
     <section class="mt-4">
-      <h2 class="h4 mb-3">Research Outputs</h2>
-      <div class="bp-publications-container">
-        ${cardsHtml}
+      <div class="d-flex flex-wrap justify-content-between align-items-center gap-2 mb-3">
+        <h2 class="h4 mb-0">Research Outputs</h2>
+        ${view ? `<div id="bp-publications-view-controls">${renderPublicationViewControls(view)}</div>` : ''}
+      </div>
+      ${renderCitationSummary(publications)}
+      ${typeFilterHtml ? `<div class="mb-3" id="bp-publications-type-filter">${typeFilterHtml}</div>` : ''}
+      <div class="bp-publications-container" id="bp-publications-list">
+        ${renderPublicationList(
+          types
+            ? publications.filter((publication) => matchesPublicationTypes(publication, types))
+            : publications,
+          view
+        )}
       </div>
     </section>
   `;
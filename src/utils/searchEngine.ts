@@ -0,0 +1,585 @@
+/**
+ * Lightweight full-text search engine used by the site search.
+ *
+ * Builds an inverted index over weighted fields and ranks matches with BM25F
+ * (BM25 with per-field length normalisation and weights). Queries support
+ * multiple terms combined with AND (the default) and OR, and optional
+ * typo-tolerant matching by edit distance against a vocabulary of short fields.
+ */
+
+/**
+ * A field extracted from each item when building the index
+ */
+export interface SearchField<T> {
+  name: string;
+  weight: number; // relative importance of a match in this field
+  fuzzy?: boolean; // whether words in this field feed the typo-tolerant vocabulary
+  getText: (item: T) => string | string[] | undefined;
+}
+
+/**
+ * Inverted index over a list of items
+ * Plain data only, so it can be serialised to JSON.
+ */
+export interface InvertedIndex {
+  fields: { name: string; weight: number }[];
+  docCount: number;
+  docLengths: number[][]; // [docIndex][fieldIndex] → token count
+  avgFieldLengths: number[]; // [fieldIndex] → average token count
+  postings: Record<string, [number, number, number][]>; // term → [docIndex, fieldIndex, tf]
+  vocabulary: Record<string, string>; // term from a fuzzy field → word it was stemmed from
+}
+
+/**
+ * A ranked match returned by the engine
+ */
+export interface SearchHit {
+  index: number; // position of the item in the indexed list
+  score: number;
+  matchedFields: string[]; // names of the fields that contained a query term
+}
+
+/**
+ * Options for running a query
+ */
+export interface QueryOptions {
+  fuzzy?: boolean; // also match vocabulary terms within a small edit distance (default: false)
+}
+
+// BM25 tuning constants
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'into',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'with',
+]);
+
+// Suffixes stripped by the stemmer, longest first
+const SUFFIXES = [
+  'ational',
+  'ization',
+  'ations',
+  'tional',
+  'ically',
+  'ation',
+  'ities',
+  'ments',
+  'ness',
+  'ment',
+  'ical',
+  'ings',
+  'ity',
+  'ics',
+  'ies',
+  'ing',
+  'al',
+  'ed',
+  'es',
+  'ic',
+  'ly',
+  'e',
+  's',
+  'y',
+];
+
+const MIN_STEM_LENGTH = 3;
+
+// Score multiplier for a term matched through a typo correction
+const FUZZY_PENALTY = 0.5;
+
+/**
+ * Reduces a word to an approximate stem with light suffix stripping
+ * e.g. "genomes", "genomic" and "genome" all become "genom"
+ * @param word - A lowercase word
+ * @returns The stemmed word
+ */
+export function stem(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH || /\d/.test(word)) {
+    return word;
+  }
+
+  for (const suffix of SUFFIXES) {
+    if (suffix === 's' && word.endsWith('ss')) continue;
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      let stemmed = word.slice(0, -suffix.length);
+      // "modelling" → "modell" → "model"
+      if ((suffix === 'ing' || suffix === 'ed') && /([^aeious])\1$/.test(stemmed)) {
+        stemmed = stemmed.slice(0, -1);
+      }
+      if (stemmed.endsWith('e') && stemmed.length > MIN_STEM_LENGTH) {
+        stemmed = stemmed.slice(0, -1);
+      }
+      return stemmed;
+    }
+  }
+
+  return word;
+}
+
+/**
+ * Splits text into lowercase words, removing accents and punctuation
+ * @param text - The text to split
+ * @returns Array of words (stop words included)
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Tokenises text into stemmed search terms, dropping stop words
+ * @param text - The text to tokenise
+ * @returns Array of stemmed terms in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  return splitWords(text)
+    .filter((word) => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Parses a query into OR-groups of AND-ed terms
+ * "genome phylogenetic OR ecology" → [["genom", "phylogenet"], ["ecolog"]]
+ * Stop words are dropped, unless the query is nothing but stop words ("the"), in which case
+ * it is searched as written.
+ * @param query - The raw query string
+ * @returns Array of term groups; an item matches a group if it contains every term
+ */
+export function parseQuery(query: string): string[][] {
+  const parts = query.split(/\s+(?:OR|\|)\s+|\s*\|\s*/);
+  const groups = parts
+    .map((part) => Array.from(new Set(tokenize(part))))
+    .filter((group) => group.length > 0);
+  if (groups.length > 0) return groups;
+
+  return parts
+    .map((part) => Array.from(new Set(splitWords(part).map(stem))))
+    .filter((group) => group.length > 0);
+}
+
+/**
+ * Builds an inverted index over a list of items
+ * @param items - The items to index
+ * @param fields - The fields to extract from each item
+ * @returns The inverted index (item order is preserved in hit indexes)
+ */
+export function buildInvertedIndex<T>(items: T[], fields: SearchField<T>[]): InvertedIndex {
+  const postings: Record<string, [number, number, number][]> = {};
+  const vocabulary: Record<string, string> = {};
+  const docLengths: number[][] = [];
+  const totalFieldLengths = fields.map(() => 0);
+
+  items.forEach((item, docIndex) => {
+    const lengths: number[] = [];
+
+    fields.forEach((field, fieldIndex) => {
+      const value = field.getText(item);
+      const text = Array.isArray(value) ? value.join(' ') : (value ?? '');
+      const terms = tokenize(text);
+      // Stop words are indexed too, for queries made only of stop words, but left out of
+      // the field lengths so they do not affect ranking
+      const allTerms = splitWords(text).map(stem);
+
+      if (field.fuzzy) {
+        for (const word of splitWords(text)) {
+          const term = stem(word);
+          if (!STOP_WORDS.has(word) && !Object.hasOwn(vocabulary, term)) {
+            vocabulary[term] = word;
+          }
+        }
+      }
+      lengths.push(terms.length);
+      totalFieldLengths[fieldIndex] += terms.length;
+
+      const counts = new Map<string, number>();
+      for (const term of allTerms) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+      for (const [term, tf] of counts) {
+        if (!Object.hasOwn(postings, term)) {
+          postings[term] = [];
+        }
+        postings[term].push([docIndex, fieldIndex, tf]);
+      }
+    });
+
+    docLengths.push(lengths);
+  });
+
+  return {
+    fields: fields.map(({ name, weight }) => ({ name, weight })),
+    docCount: items.length,
+    docLengths,
+    avgFieldLengths: totalFieldLengths.map((total) => (items.length ? total / items.length : 0)),
+    postings,
+    vocabulary,
+  };
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ * @param a - First string
+ * @param b - Second string
+ * @param maxDistance - Stop early once the distance is known to exceed this
+ * @returns The edit distance, or maxDistance + 1 if it exceeds maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Maximum number of typos tolerated for a term of the given length
+ */
+function maxEditsForTerm(term: string): number {
+  if (term.length < 4) return 0;
+  return term.length < 8 ? 1 : 2;
+}
+
+/**
+ * Finds vocabulary terms within the allowed edit distance of a term
+ * Compares against both the stem and the original word, since a typo can change
+ * which suffix the stemmer strips ("livepublicaton" vs "livepublication").
+ * @param index - The inverted index
+ * @param term - A stemmed query term
+ * @returns Matching terms with their distances, closest first
+ */
+function findSimilarTerms(
+  index: InvertedIndex,
+  term: string
+): { term: string; distance: number }[] {
+  const maxEdits = maxEditsForTerm(term);
+  if (maxEdits === 0) return [];
+
+  const similar: { term: string; distance: number }[] = [];
+  for (const candidate of Object.keys(index.vocabulary)) {
+    if (candidate === term) continue;
+    const distance = Math.min(
+      editDistance(term, candidate, maxEdits),
+      editDistance(term, index.vocabulary[candidate], maxEdits)
+    );
+    if (distance <= maxEdits) {
+      similar.push({ term: candidate, distance });
+    }
+  }
+
+  // Closest first, then the most widely used term
+  return similar.sort(
+    (a, b) =>
+      a.distance - b.distance ||
+      (index.postings[b.term]?.length ?? 0) - (index.postings[a.term]?.length ?? 0)
+  );
+}
+
+/**
+ * Suggests a corrected query by replacing unknown words with the closest indexed words
+ * @param index - The inverted index
+ * @param query - The raw query string
+ * @returns The corrected query, or null if no word could be corrected
+ */
+export function suggestQuery(index: InvertedIndex, query: string): string | null {
+  let changed = false;
+
+  const corrected = query
+    .trim()
+    .split(/\s+/)
+    .map((token) => {
+      const words = splitWords(token);
+      if (token === 'OR' || words.length !== 1 || STOP_WORDS.has(words[0])) return token;
+
+      const term = stem(words[0]);
+      if (Object.hasOwn(index.postings, term)) return token;
+
+      const [closest] = findSimilarTerms(index, term);
+      if (!closest) return token;
+
+      changed = true;
+      return index.vocabulary[closest.term];
+    })
+    .join(' ');
+
+  return changed ? corrected : null;
+}
+
+/**
+ * Computes BM25F scores for a single term
+ * @returns Map of document index → score and matched field indexes
+ */
+function scoreTerm(
+  index: InvertedIndex,
+  term: string
+): Map<number, { score: number; fields: Set<number> }> {
+  const results = new Map<number, { score: number; fields: Set<number> }>();
+  const entries = Object.hasOwn(index.postings, term) ? index.postings[term] : [];
+  if (entries.length === 0) return results;
+
+  // Weighted, length-normalised term frequency per document
+  const weightedTf = new Map<number, { tf: number; fields: Set<number> }>();
+  for (const [docIndex, fieldIndex, tf] of entries) {
+    const field = index.fields[fieldIndex];
+    const avgLength = index.avgFieldLengths[fieldIndex] || 1;
+    const length = index.docLengths[docIndex]?.[fieldIndex] ?? 0;
+    const normalised = (field.weight * tf) / (1 - B + (B * length) / avgLength);
+
+    const existing = weightedTf.get(docIndex);
+    if (existing) {
+      existing.tf += normalised;
+      existing.fields.add(fieldIndex);
+    } else {
+      weightedTf.set(docIndex, { tf: normalised, fields: new Set([fieldIndex]) });
+    }
+  }
+
+  const docFrequency = weightedTf.size;
+  const idf = Math.log(1 + (index.docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+
+  for (const [docIndex, { tf, fields }] of weightedTf) {
+    results.set(docIndex, { score: (idf * tf * (K1 + 1)) / (tf + K1), fields });
+  }
+
+  return results;
+}
+
+/**
+ * Scores a query term, optionally merging in close vocabulary matches at a reduced weight
+ * @returns Map of document index → best score and matched field indexes
+ */
+function scoreQueryTerm(
+  index: InvertedIndex,
+  term: string,
+  fuzzy: boolean
+): Map<number, { score: number; fields: Set<number> }> {
+  const results = scoreTerm(index, term);
+  if (!fuzzy) return results;
+
+  for (const similar of findSimilarTerms(index, term)) {
+    const penalty = FUZZY_PENALTY ** similar.distance;
+    for (const [docIndex, { score, fields }] of scoreTerm(index, similar.term)) {
+      const existing = results.get(docIndex);
+      if (!existing || existing.score < score * penalty) {
+        results.set(docIndex, { score: score * penalty, fields });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Runs a query against an inverted index
+ * @param index - The inverted index
+ * @param query - The raw query string (terms are AND-ed; use "OR" between alternatives)
+ * @param options - Query options (e.g. typo tolerance)
+ * @returns Hits sorted by descending score
+ */
+export function queryInvertedIndex(
+  index: InvertedIndex,
+  query: string,
+  options: QueryOptions = {}
+): SearchHit[] {
+  const groups = parseQuery(query);
+  const hits = new Map<number, { score: number; fields: Set<number> }>();
+
+  for (const group of groups) {
+    const termScores = group.map((term) => scoreQueryTerm(index, term, options.fuzzy ?? false));
+
+    // AND: start from the rarest term and keep documents containing every term
+    const [smallest, ...rest] = [...termScores].sort((a, b) => a.size - b.size);
+    if (!smallest) continue;
+
+    for (const docIndex of smallest.keys()) {
+      if (!rest.every((scores) => scores.has(docIndex))) continue;
+
+      let score = 0;
+      const fields = new Set<number>();
+      for (const scores of termScores) {
+        const termScore = scores.get(docIndex);
+        if (!termScore) continue;
+        score += termScore.score;
+        termScore.fields.forEach((fieldIndex) => fields.add(fieldIndex));
+      }
+
+      // OR: a document matching several groups keeps the sum of their scores
+      const existing = hits.get(docIndex);
+      if (existing) {
+        existing.score += score;
+        fields.forEach((fieldIndex) => existing.fields.add(fieldIndex));
+      } else {
+        hits.set(docIndex, { score, fields });
+      }
+    }
+  }
+
+  return Array.from(hits.entries())
+    .map(([docIndex, { score, fields }]) => ({
+      index: docIndex,
+      score,
+      matchedFields: Array.from(fields)
+        .sort((a, b) => a - b)
+        .map((fieldIndex) => index.fields[fieldIndex].name),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+/**
+ * A run of text, flagged if it matches a query term
+ */
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Builds a predicate testing whether a word matches any term in the query
+ * @param query - The raw query string
+ * @param options - Query options; with `fuzzy`, words within the typo tolerance also match
+ */
+function createWordMatcher(query: string, options: QueryOptions): (word: string) => boolean {
+  const terms = Array.from(new Set(parseQuery(query).flat()));
+
+  return (word) =>
+    splitWords(word).some((part) => {
+      const term = stem(part);
+      // Stop words only match when the query is made of them (see parseQuery)
+      if (STOP_WORDS.has(part)) return terms.includes(term);
+      return terms.some((queryTerm) => {
+        if (queryTerm === term) return true;
+        if (!options.fuzzy) return false;
+        const maxEdits = maxEditsForTerm(queryTerm);
+        return (
+          maxEdits > 0 &&
+          Math.min(
+            editDistance(queryTerm, term, maxEdits),
+            editDistance(queryTerm, part, maxEdits)
+          ) <= maxEdits
+        );
+      });
+    });
+}
+
+/**
+ * Splits text into segments, flagging the words that match the query
+ * @param text - The text to highlight
+ * @param query - The raw query string
+ * @param options - Query options (e.g. typo tolerance)
+ * @returns Segments covering the whole text, in order
+ */
+export function highlightText(
+  text: string,
+  query: string,
+  options: QueryOptions = {}
+): TextSegment[] {
+  const isMatch = createWordMatcher(query, options);
+  const segments: TextSegment[] = [];
+  let position = 0;
+
+  for (const { 0: word, index } of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (!isMatch(word)) continue;
+    if (index > position) {
+      segments.push({ text: text.slice(position, index), match: false });
+    }
+    segments.push({ text: word, match: true });
+    position = index + word.length;
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), match: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Picks the text that best matches the query and trims it to a window around the first match
+ * Texts are compared by how many distinct words they match; earlier texts win ties.
+ * @param texts - Candidate texts, in order of preference
+ * @param query - The raw query string
+ * @param options - Query options plus the maximum snippet length in characters
+ * @returns Highlighted snippet segments, or null if no text matches
+ */
+export function extractSnippet(
+  texts: string[],
+  query: string,
+  options: QueryOptions & { maxLength?: number } = {}
+): TextSegment[] | null {
+  const maxLength = options.maxLength ?? 160;
+
+  let best: { text: string; segments: TextSegment[]; matches: number } | null = null;
+  for (const text of texts) {
+    const segments = highlightText(text, query, options);
+    const matches = new Set(segments.filter((s) => s.match).map((s) => s.text.toLowerCase())).size;
+    if (matches > 0 && (!best || matches > best.matches)) {
+      best = { text, segments, matches };
+    }
+  }
+  if (!best) return null;
+
+  const { text, segments } = best;
+  if (text.length <= maxLength) return segments;
+
+  // Start a little before the first match, on a word boundary
+  const firstMatch = segments.findIndex((s) => s.match);
+  const matchStart = segments.slice(0, firstMatch).reduce((sum, s) => sum + s.text.length, 0);
+  let start = Math.max(0, matchStart - Math.floor(maxLength / 3));
+  if (start > 0) {
+    const boundary = text.indexOf(' ', start);
+    start = boundary === -1 || boundary >= matchStart ? matchStart : boundary + 1;
+  }
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    const boundary = text.lastIndexOf(' ', end);
+    if (boundary > start) end = boundary;
+  }
+
+  // Re-slice the segments to the window
+  const windowed: TextSegment[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    const from = Math.max(start, offset);
+    const to = Math.min(end, offset + segment.text.length);
+    if (from < to) {
+      windowed.push({ text: segment.text.slice(from - offset, to - offset), match: segment.match });
+    }
+    offset += segment.text.length;
+  }
+
+  if (start > 0) windowed.unshift({ text: '… ', match: false });
+  if (end < text.length) windowed.push({ text: ' …', match: false });
+  return windowed;
+}
@@ -1,7 +1,9 @@
 import { defineConfig } from 'vite';
+import { searchIndexPlugin } from './scripts/search_index_plugin';
 
 // https://vite.dev/config/
 export default defineConfig({
+  plugins: [searchIndexPlugin()],
   server: {
     host: '0.0.0.0',
     port: 5173,
@@ -22,6 +24,8 @@ export default defineConfig({
         report: './report.html',
         'forward-plan': './forward-plan.html',
         'research-outputs': './research-outputs.html',
+        network: './network.html',
+        metrics: './metrics.html',
       },
     },
   },